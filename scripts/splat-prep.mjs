@@ -0,0 +1,451 @@
+#!/usr/bin/env node
+/**
+ * Splat preprocessing
+ *
+ * Shrinks a Gaussian splat PLY exported from Brush before it ships:
+ * crops to a box, prunes faint, tiny or huge splats, drops spherical
+ * harmonic bands, recentres and reorients, then writes PLY or .splat.
+ * Prints statistics for the input and the output.
+ *
+ *   npm run splat:prep -- export_30000.ply -o public/splats/pump-room.ply \
+ *     --crop=-5,-9,-2.5,5,-1.5,4 --min-opacity 0.05 --sh-degree 1
+ *
+ * Steps run in that order, so --crop is in the input file's coordinates.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { extname } from 'node:path'
+import { parseArgs } from 'node:util'
+
+const SH_C0 = 0.28209479177387814
+
+// Properties no viewer reads; Brush writes them as zeros
+const DROPPED_PROPERTIES = ['nx', 'ny', 'nz']
+
+const REQUIRED_PROPERTIES = [
+  'x', 'y', 'z', 'f_dc_0', 'f_dc_1', 'f_dc_2', 'opacity',
+  'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3'
+]
+
+const PLY_TYPES = {
+  char: ['getInt8', 1], int8: ['getInt8', 1],
+  uchar: ['getUint8', 1], uint8: ['getUint8', 1],
+  short: ['getInt16', 2], int16: ['getInt16', 2],
+  ushort: ['getUint16', 2], uint16: ['getUint16', 2],
+  int: ['getInt32', 4], int32: ['getInt32', 4],
+  uint: ['getUint32', 4], uint32: ['getUint32', 4],
+  float: ['getFloat32', 4], float32: ['getFloat32', 4],
+  double: ['getFloat64', 8], float64: ['getFloat64', 8]
+}
+
+const USAGE = `Usage: npm run splat:prep -- <input.ply> -o <output.ply|output.splat> [options]
+
+Options:
+  -o, --output <file>        .ply keeps spherical harmonics; .splat is about 4x smaller,
+                             has no harmonics and needs VITE_SPLAT_RENDERER=spark or
+                             gaussian-splats-3d (the default PlayCanvas renderer cannot load it)
+  --crop <x0,y0,z0,x1,y1,z1> keep splats inside this box (input coordinates)
+  --min-opacity <0-1>        drop splats fainter than this
+  --min-scale <units>        drop splats whose largest axis is smaller than this
+  --max-scale <units>        drop splats whose largest axis is larger than this (floaters)
+  --sh-degree <0-3>          keep spherical harmonic bands up to this degree
+  --recenter                 move the median splat position to the origin
+  --rotate <x,y,z>           rotate by these angles in degrees, about X, then Y, then Z
+  -h, --help                 show this help
+
+Recentring or rotating moves the scene: re-capture viewpoints and equipment anchors afterwards.`
+
+const fail = (message) => {
+  console.error(`splat-prep: ${message}`)
+  process.exit(1)
+}
+
+function numbers(value, count, name) {
+  const parsed = value.split(',').map(Number)
+  if (parsed.length !== count || parsed.some(Number.isNaN)) {
+    fail(`--${name} needs ${count} comma-separated numbers`)
+  }
+  return parsed
+}
+
+function number(value, name) {
+  const parsed = Number(value)
+  if (Number.isNaN(parsed)) fail(`--${name} needs a number`)
+  return parsed
+}
+
+// ============================================
+// PLY input
+// ============================================
+
+/** Reads the vertex element of a binary little-endian PLY into one Float32Array per property */
+function readPly(path) {
+  const buffer = readFileSync(path)
+  const headerEnd = buffer.indexOf('end_header')
+  if (buffer.subarray(0, 3).toString('ascii') !== 'ply' || headerEnd < 0) {
+    fail(`${path} is not a PLY file`)
+  }
+  const bodyStart = buffer.indexOf(0x0a, headerEnd) + 1
+  const lines = buffer.subarray(0, headerEnd).toString('ascii').split(/\r?\n/)
+
+  const elements = []
+  for (const line of lines) {
+    const [keyword, ...rest] = line.trim().split(/\s+/)
+    if (keyword === 'format' && rest[0] !== 'binary_little_endian') {
+      fail(`${path} is ${rest[0]}; only binary_little_endian PLY is supported`)
+    } else if (keyword === 'element') {
+      elements.push({ name: rest[0], count: Number(rest[1]), properties: [] })
+    } else if (keyword === 'property') {
+      if (rest[0] === 'list') fail(`${path} has list properties, which splat PLYs never use`)
+      const type = PLY_TYPES[rest[0]]
+      if (!type) fail(`${path} has unknown property type ${rest[0]}`)
+      elements[elements.length - 1].properties.push({ name: rest[1], read: type[0], size: type[1] })
+    }
+  }
+
+  // Skip any elements before the vertices (compressed PLYs put chunks first)
+  let offset = bodyStart
+  const vertex = elements.find(e => e.name === 'vertex')
+  if (!vertex) fail(`${path} has no vertex element`)
+  for (const element of elements) {
+    if (element === vertex) break
+    offset += element.count * element.properties.reduce((sum, p) => sum + p.size, 0)
+  }
+
+  const names = vertex.properties.map(p => p.name)
+  const missing = REQUIRED_PROPERTIES.filter(name => !names.includes(name))
+  if (missing.length > 0) {
+    fail(`${path} is not a Gaussian splat PLY (missing ${missing.join(', ')})`)
+  }
+
+  const stride = vertex.properties.reduce((sum, p) => sum + p.size, 0)
+  if (offset + stride * vertex.count > buffer.length) {
+    fail(`${path} is truncated: the header describes ${vertex.count} splats`)
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  const columns = {}
+  let propertyOffset = 0
+  for (const property of vertex.properties) {
+    const column = new Float32Array(vertex.count)
+    const read = view[property.read].bind(view)
+    for (let i = 0, at = offset + propertyOffset; i < vertex.count; i++, at += stride) {
+      column[i] = read(at, true)
+    }
+    columns[property.name] = column
+    propertyOffset += property.size
+  }
+
+  return { count: vertex.count, columns, bytes: buffer.length }
+}
+
+// ============================================
+// Statistics
+// ============================================
+
+const sigmoid = (x) => 1 / (1 + Math.exp(-x))
+
+const restNames = (splats) =>
+  Object.keys(splats.columns).filter(n => n.startsWith('f_rest_')).sort((a, b) => Number(a.slice(7)) - Number(b.slice(7)))
+
+/** Degree whose (degree + 1)^2 - 1 coefficients per channel match the f_rest count */
+function shDegree(splats) {
+  const perChannel = restNames(splats).length / 3
+  for (let degree = 0; degree <= 3; degree++) {
+    if (perChannel === (degree + 1) ** 2 - 1) return degree
+  }
+  fail(`${perChannel * 3} f_rest_* properties match no spherical harmonic degree`)
+}
+
+function stats(splats, bytes) {
+  const { x, y, z, opacity } = splats.columns
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  let alpha = 0
+  for (let i = 0; i < splats.count; i++) {
+    const p = [x[i], y[i], z[i]]
+    for (let a = 0; a < 3; a++) {
+      if (p[a] < min[a]) min[a] = p[a]
+      if (p[a] > max[a]) max[a] = p[a]
+    }
+    alpha += sigmoid(opacity[i])
+  }
+  return {
+    splats: splats.count,
+    sh: shDegree(splats),
+    bytes,
+    min,
+    max,
+    mean_opacity: splats.count ? alpha / splats.count : 0
+  }
+}
+
+function printStats(input, output) {
+  const mb = (bytes) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  const box = (s) => `[${s.min.map(v => v.toFixed(2)).join(', ')}] to [${s.max.map(v => v.toFixed(2)).join(', ')}]`
+  const rows = [['', 'splats', 'SH', 'size', 'mean opacity', 'bounds']]
+  for (const [label, s] of [['input', input], ['output', output]]) {
+    rows.push([label, s.splats.toLocaleString('en-CA'), String(s.sh), mb(s.bytes), s.mean_opacity.toFixed(3), box(s)])
+  }
+  const widths = rows[0].map((_, c) => Math.max(...rows.map(r => r[c].length)))
+  for (const row of rows) {
+    console.log(row.map((cell, c) => {
+      if (c === row.length - 1) return cell
+      return c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c])
+    }).join('  '))
+  }
+  const saved = 1 - output.bytes / input.bytes
+  console.log(`\n${(saved * 100).toFixed(1)}% smaller`)
+}
+
+// ============================================
+// Steps
+// ============================================
+
+/** Keeps the splats the predicate accepts; returns how many were dropped */
+function filter(splats, keep) {
+  const indices = []
+  for (let i = 0; i < splats.count; i++) {
+    if (keep(i)) indices.push(i)
+  }
+  for (const name of Object.keys(splats.columns)) {
+    const column = splats.columns[name]
+    const kept = new Float32Array(indices.length)
+    indices.forEach((from, to) => { kept[to] = column[from] })
+    splats.columns[name] = kept
+  }
+  const dropped = splats.count - indices.length
+  splats.count = indices.length
+  return dropped
+}
+
+function crop(splats, [x0, y0, z0, x1, y1, z1]) {
+  const { x, y, z } = splats.columns
+  return filter(splats, i =>
+    x[i] >= Math.min(x0, x1) && x[i] <= Math.max(x0, x1) &&
+    y[i] >= Math.min(y0, y1) && y[i] <= Math.max(y0, y1) &&
+    z[i] >= Math.min(z0, z1) && z[i] <= Math.max(z0, z1))
+}
+
+const largestScale = (splats, i) => Math.exp(Math.max(
+  splats.columns.scale_0[i], splats.columns.scale_1[i], splats.columns.scale_2[i]
+))
+
+function dropShBands(splats, degree) {
+  const names = restNames(splats)
+  const from = names.length / 3
+  const to = (degree + 1) ** 2 - 1
+  const old = names.map(n => splats.columns[n])
+  for (const name of names) delete splats.columns[name]
+  // f_rest_* is channel-major: all of red's coefficients, then green's, then blue's
+  for (let channel = 0; channel < 3; channel++) {
+    for (let i = 0; i < to; i++) {
+      splats.columns[`f_rest_${channel * to + i}`] = old[channel * from + i]
+    }
+  }
+}
+
+function median(column) {
+  const sorted = Float32Array.from(column).sort()
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0
+}
+
+function recenter(splats) {
+  const center = ['x', 'y', 'z'].map(axis => median(splats.columns[axis]))
+  for (const [a, axis] of ['x', 'y', 'z'].entries()) {
+    const column = splats.columns[axis]
+    for (let i = 0; i < splats.count; i++) column[i] -= center[a]
+  }
+  return center
+}
+
+/** Quaternion product a * b, both [w, x, y, z] */
+function multiply([aw, ax, ay, az], [bw, bx, by, bz]) {
+  return [
+    aw * bw - ax * bx - ay * by - az * bz,
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw
+  ]
+}
+
+function rotate(splats, degrees) {
+  const axes = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+  // About X first, so it is the rightmost factor
+  const q = degrees.reduce((acc, angle, a) => {
+    const half = (angle * Math.PI) / 360
+    const s = Math.sin(half)
+    return multiply([Math.cos(half), axes[a][0] * s, axes[a][1] * s, axes[a][2] * s], acc)
+  }, [1, 0, 0, 0])
+
+  const [w, qx, qy, qz] = q
+  const m = [
+    1 - 2 * (qy * qy + qz * qz), 2 * (qx * qy - w * qz), 2 * (qx * qz + w * qy),
+    2 * (qx * qy + w * qz), 1 - 2 * (qx * qx + qz * qz), 2 * (qy * qz - w * qx),
+    2 * (qx * qz - w * qy), 2 * (qy * qz + w * qx), 1 - 2 * (qx * qx + qy * qy)
+  ]
+
+  const { x, y, z, rot_0, rot_1, rot_2, rot_3 } = splats.columns
+  for (let i = 0; i < splats.count; i++) {
+    const px = x[i], py = y[i], pz = z[i]
+    x[i] = m[0] * px + m[1] * py + m[2] * pz
+    y[i] = m[3] * px + m[4] * py + m[5] * pz
+    z[i] = m[6] * px + m[7] * py + m[8] * pz
+    const r = multiply(q, [rot_0[i], rot_1[i], rot_2[i], rot_3[i]])
+    rot_0[i] = r[0]
+    rot_1[i] = r[1]
+    rot_2[i] = r[2]
+    rot_3[i] = r[3]
+  }
+}
+
+// ============================================
+// Output
+// ============================================
+
+function writePly(splats, path) {
+  const names = [
+    'x', 'y', 'z', 'f_dc_0', 'f_dc_1', 'f_dc_2', ...restNames(splats),
+    'opacity', 'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3',
+    // Anything else the exporter added, except what no viewer reads
+    ...Object.keys(splats.columns).filter(n =>
+      !REQUIRED_PROPERTIES.includes(n) && !n.startsWith('f_rest_') && !DROPPED_PROPERTIES.includes(n))
+  ]
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    `element vertex ${splats.count}`,
+    ...names.map(n => `property float ${n}`),
+    'end_header',
+    ''
+  ].join('\n')
+
+  const body = new Float32Array(splats.count * names.length)
+  const columns = names.map(n => splats.columns[n])
+  for (let i = 0, at = 0; i < splats.count; i++) {
+    for (const column of columns) body[at++] = column[i]
+  }
+  const file = Buffer.concat([Buffer.from(header, 'ascii'), Buffer.from(body.buffer)])
+  writeFileSync(path, file)
+  return file.length
+}
+
+/** antimatter15 .splat: 32 bytes a splat, largest and most opaque first */
+function writeSplat(splats, path) {
+  const c = splats.columns
+  const order = Array.from({ length: splats.count }, (_, i) => i)
+  const importance = (i) => Math.exp(c.scale_0[i] + c.scale_1[i] + c.scale_2[i]) * sigmoid(c.opacity[i])
+  order.sort((a, b) => importance(b) - importance(a))
+
+  const buffer = Buffer.alloc(splats.count * 32)
+  const byte = (v) => Math.max(0, Math.min(255, Math.round(v)))
+  order.forEach((i, n) => {
+    const at = n * 32
+    buffer.writeFloatLE(c.x[i], at)
+    buffer.writeFloatLE(c.y[i], at + 4)
+    buffer.writeFloatLE(c.z[i], at + 8)
+    buffer.writeFloatLE(Math.exp(c.scale_0[i]), at + 12)
+    buffer.writeFloatLE(Math.exp(c.scale_1[i]), at + 16)
+    buffer.writeFloatLE(Math.exp(c.scale_2[i]), at + 20)
+    buffer[at + 24] = byte((0.5 + SH_C0 * c.f_dc_0[i]) * 255)
+    buffer[at + 25] = byte((0.5 + SH_C0 * c.f_dc_1[i]) * 255)
+    buffer[at + 26] = byte((0.5 + SH_C0 * c.f_dc_2[i]) * 255)
+    buffer[at + 27] = byte(sigmoid(c.opacity[i]) * 255)
+    const q = [c.rot_0[i], c.rot_1[i], c.rot_2[i], c.rot_3[i]]
+    const norm = Math.hypot(...q) || 1
+    q.forEach((v, k) => { buffer[at + 28 + k] = byte((v / norm) * 128 + 128) })
+  })
+  writeFileSync(path, buffer)
+  return buffer.length
+}
+
+// ============================================
+// Main
+// ============================================
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    output: { type: 'string', short: 'o' },
+    crop: { type: 'string' },
+    'min-opacity': { type: 'string' },
+    'min-scale': { type: 'string' },
+    'max-scale': { type: 'string' },
+    'sh-degree': { type: 'string' },
+    recenter: { type: 'boolean' },
+    rotate: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+  }
+})
+
+if (values.help || positionals.length === 0) {
+  console.log(USAGE)
+  process.exit(values.help ? 0 : 1)
+}
+if (positionals.length > 1) fail('give one input file')
+if (!values.output) fail('--output is required')
+
+const format = extname(values.output).toLowerCase()
+if (format !== '.ply' && format !== '.splat') fail('--output must end in .ply or .splat')
+
+const inputPath = positionals[0]
+const splats = readPly(inputPath)
+const before = stats(splats, splats.bytes)
+const removed = []
+
+if (values.crop) {
+  removed.push([crop(splats, numbers(values.crop, 6, 'crop')), 'outside the crop box'])
+}
+if (values['min-opacity']) {
+  const threshold = number(values['min-opacity'], 'min-opacity')
+  const { opacity } = splats.columns
+  removed.push([filter(splats, i => sigmoid(opacity[i]) >= threshold), `below opacity ${threshold}`])
+}
+if (values['min-scale']) {
+  const threshold = number(values['min-scale'], 'min-scale')
+  removed.push([filter(splats, i => largestScale(splats, i) >= threshold), `smaller than ${threshold}`])
+}
+if (values['max-scale']) {
+  const threshold = number(values['max-scale'], 'max-scale')
+  removed.push([filter(splats, i => largestScale(splats, i) <= threshold), `larger than ${threshold}`])
+}
+
+if (splats.count === 0) {
+  const reasons = removed.filter(([count]) => count > 0).map(([, reason]) => reason)
+  fail(`every splat was removed (${reasons.join(', ')}); loosen the filters`)
+}
+
+if (values['sh-degree']) {
+  const degree = number(values['sh-degree'], 'sh-degree')
+  if (![0, 1, 2, 3].includes(degree)) fail('--sh-degree must be 0, 1, 2 or 3')
+  if (degree < before.sh) dropShBands(splats, degree)
+}
+
+if (values.recenter) {
+  const center = recenter(splats)
+  console.log(`Recentred: moved [${center.map(v => v.toFixed(3)).join(', ')}] to the origin`)
+}
+if (values.rotate) {
+  rotate(splats, numbers(values.rotate, 3, 'rotate'))
+  if (shDegree(splats) > 0) {
+    console.warn('Warning: spherical harmonics are not rotated, so view-dependent colour will be off; ' +
+      'consider --sh-degree 0')
+  }
+}
+
+if (format === '.splat' && shDegree(splats) > 0) {
+  console.log('Note: .splat has no spherical harmonics; only base colour is kept')
+}
+if (format === '.splat') {
+  console.log('Note: PlayCanvas cannot load .splat; build with VITE_SPLAT_RENDERER=spark or gaussian-splats-3d')
+}
+
+const bytes = format === '.ply' ? writePly(splats, values.output) : writeSplat(splats, values.output)
+const after = stats(splats, bytes)
+if (format === '.splat') after.sh = 0
+
+console.log(`${inputPath} -> ${values.output}\n`)
+printStats(before, after)
+for (const [count, reason] of removed) {
+  if (count > 0) console.log(`Removed ${count.toLocaleString('en-CA')} splats ${reason}`)
+}
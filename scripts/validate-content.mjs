@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+/**
+ * Content validation
+ *
+ * Checks the kiosk content for broken equipment references, missing
+ * French or English text, hotspots that fall off the image or overlap,
+ * and media files missing from the asset folder. Validates the static
+ * seed by default, or a JSON export of the Supabase tables or of a
+ * content snapshot.
+ *
+ *   npm run validate:content
+ *   npm run validate:content -- --export kiosk-export.json --assets ../media
+ *
+ * Exits with status 1 when there are errors, so it can gate a deploy.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createServer } from 'vite'
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+
+const USAGE = `Usage: npm run validate:content -- [options]
+
+Options:
+  --export <file.json>  validate this export instead of the static seed: either
+                        { kiosk_equipment, kiosk_gallery_photos, kiosk_quiz_questions }
+                        rows as Supabase returns them, or content as the kiosk
+                        caches it ({ master_image_url, equipment, gallery, quiz })
+  --assets <dir>        folder that root-relative media URLs resolve to (default: public)
+  --no-media            skip the media file checks
+  -h, --help            show this help`
+
+const fail = (message) => {
+  console.error(`validate-content: ${message}`)
+  process.exit(2)
+}
+
+let options
+try {
+  ({ values: options } = parseArgs({
+    options: {
+      export: { type: 'string' },
+      assets: { type: 'string', default: 'public' },
+      'no-media': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  }))
+} catch (err) {
+  fail(`${err.message}\n\n${USAGE}`)
+}
+
+if (options.help) {
+  console.log(USAGE)
+  process.exit(0)
+}
+
+const assets = resolve(process.cwd(), options.assets)
+if (!options['no-media'] && !existsSync(assets)) fail(`asset folder not found: ${assets}`)
+
+function readExport(file) {
+  try {
+    return JSON.parse(readFileSync(resolve(process.cwd(), file), 'utf8'))
+  } catch (err) {
+    fail(`could not read ${file}: ${err.message}`)
+  }
+}
+
+const assetExists = (url) => {
+  const path = join(assets, url)
+  return path.startsWith(assets) && existsSync(path) && statSync(path).isFile()
+}
+
+// The validator and seed are TypeScript; Vite loads them as the app does
+const vite = await createServer({
+  root: ROOT,
+  configFile: false,
+  appType: 'custom',
+  logLevel: 'silent',
+  server: { middlewareMode: true, hmr: false }
+})
+
+try {
+  const validator = await vite.ssrLoadModule('/src/services/contentValidator.ts')
+
+  let content
+  let extras = {}
+  let issues = []
+  if (options.export) {
+    const dump = readExport(options.export)
+    // A snapshot wraps the content with its version and fetch time
+    const cached = dump.content ?? dump
+    if (Array.isArray(cached.equipment)) {
+      content = cached
+    } else {
+      ({ content, issues } = validator.contentFromExport(dump))
+    }
+    console.log(`Validating ${options.export}\n`)
+  } else {
+    const [{ seedContent }, { viewpoints }, { animationSteps }, { cutawaySections }] = await Promise.all([
+      vite.ssrLoadModule('/src/data/seed.ts'),
+      vite.ssrLoadModule('/src/data/viewpoints.ts'),
+      vite.ssrLoadModule('/src/data/animation.ts'),
+      vite.ssrLoadModule('/src/data/cutaway.ts')
+    ])
+    content = seedContent
+    extras = { viewpoints, animationSteps, cutawaySections }
+    console.log('Validating the static seed\n')
+  }
+
+  const result = validator.validateContent(content, extras, {
+    assetExists: options['no-media'] ? undefined : assetExists
+  })
+  result.issues.unshift(...issues)
+  result.errors += issues.length
+
+  console.log(validator.formatReport(result))
+  process.exitCode = result.errors > 0 ? 1 : 0
+} finally {
+  await vite.close()
+}
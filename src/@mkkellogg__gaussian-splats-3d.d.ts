@@ -5,4 +5,5 @@ declare module '@mkkellogg/gaussian-splats-3d' {
   export const SplatLoader: any;
   export const LogLevel: any;
   export const SplatRenderMode: any;
+  export const SceneFormat: any;
 }
@@ -1,43 +1,81 @@
-import { useState } from 'react'
-import { LanguageProvider } from './i18n/LanguageContext'
+import { useEffect } from 'react'
+import { BrowserRouter, Navigate, Route, Routes, useNavigate } from 'react-router-dom'
 import { KioskShell } from './components/layout/KioskShell'
+import { IdleManager } from './components/layout/IdleManager'
 import { HomeScreen } from './components/features/HomeScreen'
 import { EquipmentExplorer } from './components/features/EquipmentExplorer'
 import { SystemAnimation } from './components/features/SystemAnimation'
 import { BuildingCutaway } from './components/features/BuildingCutaway'
 import { QuizMode } from './components/features/QuizMode'
 import { PhotoGallery } from './components/features/PhotoGallery'
+import { HotspotEditor } from './components/staff/HotspotEditor'
+import { AnalyticsDashboard } from './components/staff/AnalyticsDashboard'
+import { ViewpointEditor } from './components/staff/ViewpointEditor'
+import { StaffGate } from './components/staff/StaffGate'
+import { startContentSync } from './services/contentSync'
+import { startAnalytics } from './services/analytics'
+import { restoreKioskSettings } from './services/kioskSettings'
+import { useKioskStore } from './stores/kioskStore'
+import { useRouteSync } from './hooks/useRouteSync'
+import { useGoBack } from './hooks/useGoBack'
+import {
+  EXPLORE_ROUTE,
+  GALLERY_ROUTE,
+  STAFF_ANALYTICS_ROUTE,
+  STAFF_HOTSPOTS_ROUTE,
+  STAFF_VIEWPOINTS_ROUTE,
+  featurePath
+} from './routes'
 
-export type Feature = 'home' | 'explore' | 'animation' | 'cutaway' | 'quiz' | 'gallery'
+function KioskRoutes() {
+  const navigate = useNavigate()
+  const goBack = useGoBack()
+  // Changes on idle reset so every feature remounts with fresh state
+  const sessionId = useKioskStore(state => state.session_id)
 
-function App() {
-  const [activeFeature, setActiveFeature] = useState<Feature>('home')
+  useRouteSync()
+
+  return (
+    <Routes key={sessionId}>
+      <Route path="/" element={<HomeScreen onSelectFeature={(feature) => navigate(featurePath(feature))} />} />
+      <Route path={EXPLORE_ROUTE} element={<EquipmentExplorer onBack={goBack} />} />
+      <Route path="/animation" element={<SystemAnimation onBack={goBack} />} />
+      <Route path="/cutaway" element={<BuildingCutaway onBack={goBack} />} />
+      <Route path="/quiz" element={<QuizMode onBack={goBack} />} />
+      <Route path={GALLERY_ROUTE} element={<PhotoGallery onBack={goBack} />} />
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  )
+}
 
-  const renderFeature = () => {
-    switch (activeFeature) {
-      case 'home':
-        return <HomeScreen onSelectFeature={setActiveFeature} />
-      case 'explore':
-        return <EquipmentExplorer onBack={() => setActiveFeature('home')} />
-      case 'animation':
-        return <SystemAnimation onBack={() => setActiveFeature('home')} />
-      case 'cutaway':
-        return <BuildingCutaway onBack={() => setActiveFeature('home')} />
-      case 'quiz':
-        return <QuizMode onBack={() => setActiveFeature('home')} />
-      case 'gallery':
-        return <PhotoGallery onBack={() => setActiveFeature('home')} />
-      default:
-        return <HomeScreen onSelectFeature={setActiveFeature} />
-    }
-  }
+function App() {
+  // Staff settings (idle timeout, default language) saved on this kiosk
+  useEffect(() => {
+    restoreKioskSettings()
+  }, [])
+  // Serve the local snapshot (or seed) immediately, then keep it in sync
+  useEffect(() => startContentSync(), [])
+  // Record visitor activity locally and upload it when online
+  useEffect(() => startAnalytics(), [])
 
   return (
-    <LanguageProvider>
-      <KioskShell>
-        {renderFeature()}
-      </KioskShell>
-    </LanguageProvider>
+    <BrowserRouter>
+      <Routes>
+        {/* Staff tools run full-window, outside the kiosk frame and idle reset, behind the staff PIN */}
+        <Route path={STAFF_HOTSPOTS_ROUTE} element={<StaffGate><HotspotEditor /></StaffGate>} />
+        <Route path={STAFF_ANALYTICS_ROUTE} element={<StaffGate><AnalyticsDashboard /></StaffGate>} />
+        <Route path={STAFF_VIEWPOINTS_ROUTE} element={<StaffGate><ViewpointEditor /></StaffGate>} />
+        <Route
+          path="*"
+          element={
+            <KioskShell>
+              <KioskRoutes />
+              <IdleManager />
+            </KioskShell>
+          }
+        />
+      </Routes>
+    </BrowserRouter>
   )
 }
 
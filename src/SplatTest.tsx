@@ -1,5 +1,5 @@
 /**
- * Minimal PlayCanvas React Gaussian Splat Test
+ * Gaussian Splat Test (renderer from VITE_SPLAT_RENDERER, PlayCanvas by default)
  * 
  * Usage:
  * 1. Place your .ply file in /public (e.g., /public/pump-room.ply)
@@ -8,10 +8,20 @@
  */
 
 import { useState, useEffect, useRef } from 'react'
-import { Application, Entity } from '@playcanvas/react'
-import { Camera, GSplat, Script } from '@playcanvas/react/components'
-import { useSplat, useApp } from '@playcanvas/react/hooks'
-import { CameraControls } from 'playcanvas/scripts/esm/camera-controls.mjs'
+import { useContent } from './hooks/useContent'
+import { useIdleCallback } from './hooks/useIdleCallback'
+import { EquipmentDetailPanel } from './components/shared/EquipmentDetailPanel'
+import { SplatScene } from './components/splat/SplatScene'
+import { ViewpointBar } from './components/splat/ViewpointBar'
+import { CameraPose, DEFAULT_FLIGHT_MS, SplatViewerHandle } from './components/splat/viewerTypes'
+import { CameraViewpoint } from './data/types'
+import {
+  CAMERA_IDLE_HOME_MS,
+  INITIAL_VIEWPOINT_ID,
+  VISITOR_CAMERA_LIMITS,
+  viewpoints
+} from './data/viewpoints'
+import { getViewpoint, viewpointForEquipment } from './services/viewpointService'
 
 // ============================================
 // CONFIGURATION
@@ -21,99 +31,17 @@ const SPLAT_URL = '/pump-room.ply'
 // Frame width in pixels (black border around viewport)
 const FRAME_WIDTH = 24
 
-// Initial camera position and rotation
-const INITIAL_CAMERA = {
-  position: [-0.005, -6.86, 0.296] as [number, number, number],
-  rotation: [87.53, -0.96, 0] as [number, number, number]
-}
-
-// ============================================
-// Splat Component
-// ============================================
-function PumpRoomSplat({ src }: { src: string }) {
-  const { asset, loading, error } = useSplat(src)
-  
-  if (error) {
-    console.error('Splat load error:', error)
-    return null
-  }
-
-  if (loading) {
-    console.log('Splat loading...')
-    return null
-  }
-  
-  if (!asset) {
-    return null
-  }
-
-  console.log('Splat rendering with asset:', asset)
-  
-  return (
-    <Entity position={[0, 0, 0]} rotation={[0, 0, 0]}>
-      <GSplat asset={asset} />
-    </Entity>
-  )
-}
-
-// ============================================
-// Camera Capture Helper - exposes capture function to window
-// ============================================
-function CameraCaptureHelper() {
-  const app = useApp()
-  const frameRef = useRef<number>()
-  
-  useEffect(() => {
-    if (!app) return
-    
-    const getCameraData = () => {
-      const cameraEntity = app.root.findByName('camera')
-      if (!cameraEntity) return null
-      
-      const pos = cameraEntity.getPosition()
-      const rot = cameraEntity.getEulerAngles()
-      
-      return {
-        pos: [pos.x, pos.y, pos.z],
-        rot: [rot.x, rot.y, rot.z]
-      }
-    }
-    
-    const captureCamera = () => {
-      const data = getCameraData()
-      if (data) {
-        console.log('Camera captured:', data)
-      }
-      return data
-    }
-    
-    const updateLoop = () => {
-      const data = getCameraData()
-      if (data) {
-        window.dispatchEvent(new CustomEvent('camera-update', { detail: data }))
-      }
-      frameRef.current = requestAnimationFrame(updateLoop)
-    }
-    
-    ;(window as any).captureCamera = captureCamera
-    frameRef.current = requestAnimationFrame(updateLoop)
-    
-    return () => {
-      delete (window as any).captureCamera
-      if (frameRef.current) {
-        cancelAnimationFrame(frameRef.current)
-      }
-    }
-  }, [app])
-  
-  return null
-}
+// Starting pose (see src/data/viewpoints.ts)
+const INITIAL_VIEWPOINT = getViewpoint(INITIAL_VIEWPOINT_ID) ?? viewpoints[0]
 
 // ============================================
 // Camera Info Panel UI
 // ============================================
-function CameraInfoPanel() {
-  const [cameraData, setCameraData] = useState({ pos: [0, 2, 5], rot: [0, 0, 0] })
+function CameraInfoPanel({ freeCamera, onFreeCameraChange }: {
+  freeCamera: boolean
+  onFreeCameraChange: (free: boolean) => void
+}) {
+  const [cameraData, setCameraData] = useState<CameraPose>(INITIAL_VIEWPOINT)
   
   useEffect(() => {
     const handler = (e: CustomEvent) => {
@@ -144,15 +72,24 @@ function CameraInfoPanel() {
       style={{ top: FRAME_WIDTH + 16, left: FRAME_WIDTH + 16 }}
     >
       <div className="text-gray-400 mb-2">Camera (Live)</div>
+      <label className="flex items-center gap-2 mb-2">
+        <input
+          type="checkbox"
+          checked={freeCamera}
+          onChange={(e) => onFreeCameraChange(e.target.checked)}
+        />
+        Free camera (staff)
+      </label>
       <button 
         onClick={handleCapture}
         className="bg-blue-600 hover:bg-blue-500 px-3 py-1 rounded mb-3 w-full"
       >
         Copy to Clipboard
       </button>
-      <div>Pos: [{cameraData.pos.map(v => formatNum(v, 2)).join(', ')}]</div>
-      <div>Rot: [{cameraData.rot.map(v => formatNum(v, 1)).join(', ')}]</div>
+      <div>Pos: [{cameraData.position.map(v => formatNum(v, 2)).join(', ')}]</div>
+      <div>Target: [{cameraData.target.map(v => formatNum(v, 2)).join(', ')}]</div>
       <div className="text-gray-500 text-xs mt-2">Console: captureCamera()</div>
+      <div className="text-gray-500 text-xs">Named viewpoints: /staff/viewpoints</div>
     </div>
   )
 }
@@ -233,42 +170,98 @@ function FrameOverlay() {
 // Main Test Component
 // ============================================
 export default function SplatTest() {
+  const { equipment, master_image_url } = useContent()
+  const viewerRef = useRef<SplatViewerHandle>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [activeViewpointId, setActiveViewpointId] = useState<string | null>(INITIAL_VIEWPOINT.id)
+  const [freeCamera, setFreeCamera] = useState(false)
+  const selected = equipment.find(e => e.id === selectedId)
+
+  // Console and panel access to the live camera
+  useEffect(() => {
+    const captureCamera = () => {
+      const data = viewerRef.current?.getCamera() ?? null
+      if (data) {
+        console.log('Camera captured:', data)
+      }
+      return data
+    }
+    ;(window as any).captureCamera = captureCamera
+    return () => {
+      delete (window as any).captureCamera
+    }
+  }, [])
+
+  const flyTo = (viewpoint: CameraViewpoint) => {
+    setActiveViewpointId(viewpoint.id)
+    viewerRef.current?.setCamera(viewpoint, DEFAULT_FLIGHT_MS)
+  }
+
+  // Selecting equipment also frames it
+  const selectEquipment = (id: string | null) => {
+    setSelectedId(id)
+    const item = id ? equipment.find(e => e.id === id) : undefined
+    const viewpoint = item && viewpointForEquipment(item)
+    if (viewpoint) flyTo(viewpoint)
+  }
+
+  const glideHome = () => {
+    setSelectedId(null)
+    flyTo(INITIAL_VIEWPOINT)
+  }
+  // Taps on the detail panel and the tool panels count as activity too
+  const restartIdle = useIdleCallback(freeCamera ? undefined : CAMERA_IDLE_HOME_MS, glideHome)
+
   return (
-    <div className="w-screen h-screen bg-black relative">
-      {/* PlayCanvas Application - inset from edges */}
+    <div
+      className="w-screen h-screen bg-black relative"
+      onPointerDownCapture={restartIdle}
+      onWheelCapture={restartIdle}
+    >
+      {/* Splat viewer - inset from edges */}
       <div className="absolute" style={{ 
         top: FRAME_WIDTH, 
         left: FRAME_WIDTH, 
         right: FRAME_WIDTH, 
         bottom: FRAME_WIDTH 
       }}>
-        <Application
-          graphicsDeviceOptions={{ antialias: false }}
-        >
-          <Entity 
-            name="camera" 
-            position={INITIAL_CAMERA.position}
-            rotation={INITIAL_CAMERA.rotation}
-          >
-            <Camera 
-              clearColor="#1a1a2e"
-              fov={60}
-              farClip={1000}
-              nearClip={0.01}
-            />
-            <Script script={CameraControls} />
-          </Entity>
+        {/* Equipment markers follow the camera; tap one to select it */}
+        <SplatScene
+          ref={viewerRef}
+          src={SPLAT_URL}
+          fallbackImageUrl={master_image_url}
+          initialCamera={INITIAL_VIEWPOINT}
+          limits={freeCamera ? null : VISITOR_CAMERA_LIMITS}
+          equipment={equipment}
+          selectedId={selectedId}
+          onPick={(item) => selectEquipment(item.id)}
+          onCameraChange={(pose) => {
+            window.dispatchEvent(new CustomEvent('camera-update', { detail: pose }))
+          }}
+        />
+
+        {selected && (
+          <EquipmentDetailPanel
+            equipment={selected}
+            onClose={() => setSelectedId(null)}
+            onSelectEquipment={selectEquipment}
+          />
+        )}
 
-          <PumpRoomSplat src={SPLAT_URL} />
-          <CameraCaptureHelper />
-        </Application>
+        <div className="absolute bottom-4 left-0 right-0 z-30">
+          <ViewpointBar
+            viewpoints={viewpoints}
+            activeId={activeViewpointId}
+            onSelect={flyTo}
+          />
+        </div>
       </div>
 
       {/* Frame overlay - sits on top of canvas */}
       <FrameOverlay />
 
       {/* Camera debug panel */}
-      <CameraInfoPanel />
+      <CameraInfoPanel freeCamera={freeCamera} onFreeCameraChange={setFreeCamera} />
 
       {/* Instructions */}
       <div 
@@ -277,8 +270,10 @@ export default function SplatTest() {
       >
         <div className="text-gray-400 mb-1">Controls:</div>
         <div>Left drag: Orbit</div>
-        <div>Middle drag: Pan</div>
+        {freeCamera && <div>Middle drag: Pan</div>}
+        {freeCamera && <div>WASD: Fly</div>}
         <div>Scroll: Zoom</div>
+        <div>Tap marker: Equipment details</div>
       </div>
     </div>
   )
@@ -1,13 +1,59 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { BackButton } from '../shared/BackButton'
+import { CATEGORY_COLORS } from '../shared/HotspotOverlay'
 import { useLanguage } from '../../i18n/LanguageContext'
 import { ui } from '../../i18n/strings'
+import { useContent } from '../../hooks/useContent'
+import { cutawaySections } from '../../data/cutaway'
+import { CutawaySection, Equipment } from '../../data/types'
+import { equipmentPath } from '../../routes'
 
 interface BuildingCutawayProps {
   onBack: () => void
 }
 
+// Illustration coordinate space (16:9); section bounds are percentages of it
+const VIEW_WIDTH = 160
+const VIEW_HEIGHT = 90
+// Leave a margin around a zoomed section
+const ZOOM_FILL = 0.85
+
+const SECTION_FILLS: Record<string, string> = {
+  'coal-pile': '#3d3428',
+  'boiler-room': '#c4a574',
+  'engine-room': '#e8dfd3',
+  'pump-well': '#8b7355',
+  'dry-dock': '#4a7c9b'
+}
+
+const toView = (b: CutawaySection['bounds']) => ({
+  x: (b.x / 100) * VIEW_WIDTH,
+  y: (b.y / 100) * VIEW_HEIGHT,
+  width: (b.width / 100) * VIEW_WIDTH,
+  height: (b.height / 100) * VIEW_HEIGHT
+})
+
+/** CSS transform that fits the section's bounds to the view, centred */
+function zoomTransform(section: CutawaySection | undefined): string {
+  if (!section) return 'translate(0px, 0px) scale(1)'
+  const b = toView(section.bounds)
+  const scale = Math.min(VIEW_WIDTH / b.width, VIEW_HEIGHT / b.height) * ZOOM_FILL
+  const tx = VIEW_WIDTH / 2 - (b.x + b.width / 2) * scale
+  const ty = VIEW_HEIGHT / 2 - (b.y + b.height / 2) * scale
+  return `translate(${tx}px, ${ty}px) scale(${scale})`
+}
+
 export function BuildingCutaway({ onBack }: BuildingCutawayProps) {
   const { t } = useLanguage()
+  const navigate = useNavigate()
+  const content = useContent()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const selected = cutawaySections.find(s => s.id === selectedId)
+  const sectionEquipment = (selected?.equipment_ids ?? [])
+    .map(id => content.equipment.find(e => e.id === id))
+    .filter((e): e is Equipment => e !== undefined)
 
   return (
     <div className="w-full h-full flex flex-col">
@@ -20,13 +66,101 @@ export function BuildingCutaway({ onBack }: BuildingCutawayProps) {
         <div className="w-32" />
       </div>
 
-      {/* Cutaway illustration area */}
-      <div className="flex-1 mx-8 mb-8 bg-museum-warm rounded-lg flex items-center justify-center">
-        <div className="text-center text-museum-accent">
-          <p className="text-kiosk-lg mb-4">[Building Cross-Section Illustration]</p>
-          <p className="text-kiosk-base">
-            Coal Pile → Boiler Room → Engine Room → Pump Well → Dry Dock
-          </p>
+      <div className="flex-1 flex gap-6 mx-8 mb-8 min-h-0">
+        {/* Cross-section illustration */}
+        <div className="flex-1 relative bg-museum-warm rounded-lg overflow-hidden">
+          <svg
+            className="absolute inset-0 w-full h-full"
+            viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+            preserveAspectRatio="xMidYMid meet"
+          >
+            <g style={{ transform: zoomTransform(selected), transformOrigin: '0 0', transition: 'transform 700ms ease-in-out' }}>
+              {/* Ground line */}
+              <line x1={0} y1={0.45 * VIEW_HEIGHT} x2={VIEW_WIDTH} y2={0.45 * VIEW_HEIGHT} stroke="#8b7355" strokeWidth={0.4} strokeDasharray="2 1" />
+
+              {cutawaySections.map((section) => {
+                const b = toView(section.bounds)
+                const isSelected = section.id === selectedId
+                return (
+                  <g
+                    key={section.id}
+                    onClick={() => setSelectedId(isSelected ? null : section.id)}
+                    className="cursor-pointer"
+                  >
+                    <rect
+                      x={b.x}
+                      y={b.y}
+                      width={b.width}
+                      height={b.height}
+                      fill={SECTION_FILLS[section.id] ?? '#e8dfd3'}
+                      fillOpacity={selectedId && !isSelected ? 0.35 : 0.85}
+                      stroke={isSelected ? '#c4a574' : '#3d3428'}
+                      strokeWidth={isSelected ? 0.8 : 0.3}
+                    />
+                    <text
+                      x={b.x + b.width / 2}
+                      y={b.y + 4}
+                      textAnchor="middle"
+                      fontSize={selectedId ? 2 : 3}
+                      fill={section.id === 'coal-pile' ? '#f5f0e8' : '#3d3428'}
+                      className="font-display pointer-events-none"
+                    >
+                      {t(section.name)}
+                    </text>
+                  </g>
+                )
+              })}
+            </g>
+          </svg>
+
+          {selected && (
+            <button
+              onClick={() => setSelectedId(null)}
+              className="absolute top-4 left-4 px-6 py-3 bg-museum-dark/80 text-museum-stone rounded-full text-kiosk-sm font-semibold touch-target"
+            >
+              {t(ui.wholeBuilding)}
+            </button>
+          )}
+        </div>
+
+        {/* Section details */}
+        <div className="w-1/3 flex flex-col">
+          {selected ? (
+            <>
+              <h3 className="text-kiosk-xl font-display text-museum-dark mb-2">
+                {t(selected.name)}
+              </h3>
+              <p className="text-kiosk-base text-museum-dark mb-6">
+                {t(selected.description)}
+              </p>
+              {sectionEquipment.length > 0 && (
+                <>
+                  <h4 className="text-kiosk-lg font-display text-museum-accent mb-2">
+                    {t(ui.equipmentHere)}
+                  </h4>
+                  <div className="flex flex-col gap-2 overflow-y-auto">
+                    {sectionEquipment.map((item) => (
+                      <button
+                        key={item.id}
+                        onClick={() => navigate(equipmentPath(item.id))}
+                        className="flex items-center gap-3 px-4 py-3 bg-museum-warm hover:bg-museum-highlight rounded-lg text-left text-kiosk-base text-museum-dark transition-colors touch-target"
+                      >
+                        <span
+                          className="w-4 h-4 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: CATEGORY_COLORS[item.color_category] }}
+                        />
+                        {t(item.name)}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          ) : (
+            <p className="text-kiosk-base text-museum-accent">
+              {t(ui.tapSection)}
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -1,42 +1,151 @@
-import { useState, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { BackButton } from '../shared/BackButton'
+import { EquipmentDetailPanel } from '../shared/EquipmentDetailPanel'
+import { SplatScene } from '../splat/SplatScene'
+import { ViewpointBar } from '../splat/ViewpointBar'
+import { SplatViewerHandle } from '../splat/viewerTypes'
+import { useContent } from '../../hooks/useContent'
+import { useIdleCallback } from '../../hooks/useIdleCallback'
+import { SplatLoadStatus } from '../../hooks/useSplatLoad'
+import { useSplatQuality } from '../../hooks/useSplatQuality'
+import { useKioskStore } from '../../stores/kioskStore'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { equipmentPath, featurePath } from '../../routes'
+import { CameraViewpoint } from '../../data/types'
+import { SPLAT_QUALITY_TIERS } from '../../data/splatQuality'
+import { CAMERA_IDLE_HOME_MS, INITIAL_VIEWPOINT_ID, VISITOR_CAMERA_LIMITS, viewpoints } from '../../data/viewpoints'
+import { getViewpoint, viewpointForEquipment } from '../../services/viewpointService'
 
 interface EquipmentExplorerProps {
   onBack: () => void
 }
 
+const QUALITY_REASONS = {
+  'probe': 'chosen for this device',
+  'low-fps': 'stepped down, frame rate too low',
+  'manual': 'picked by hand'
+}
+
 export function EquipmentExplorer({ onBack }: EquipmentExplorerProps) {
-  const [plyPath, setPlyPath] = useState('/splats/export_10000.ply')
-  const iframeRef = useRef<HTMLIFrameElement>(null)
+  const { t } = useLanguage()
+  const [plyPath, setPlyPath] = useState('')
+  // A file typed in by staff wins over the quality tiers
+  const [customSrc, setCustomSrc] = useState<string | null>(null)
+  const [sceneStatus, setSceneStatus] = useState<SplatLoadStatus>('loading')
+  const quality = useSplatQuality(SPLAT_QUALITY_TIERS, sceneStatus === 'loaded' && customSrc === null)
+  const src = customSrc ?? quality.tier?.src ?? null
+  const viewerRef = useRef<SplatViewerHandle>(null)
+  const navigate = useNavigate()
+  const { equipment, master_image_url } = useContent()
+  const selectedId = useKioskStore(state => state.selected_equipment_id)
+  const selected = equipment.find(e => e.id === selectedId)
+  const home = getViewpoint(INITIAL_VIEWPOINT_ID) ?? viewpoints[0]
+  const [activeViewpointId, setActiveViewpointId] = useState<string | null>(home.id)
+
+  // Deep links to /explore/:equipmentId start framed on the equipment
+  const [initialCamera] = useState(() => (selected && viewpointForEquipment(selected)) || home)
+
+  const flyTo = (viewpoint: CameraViewpoint) => {
+    setActiveViewpointId(viewpoint.id)
+    viewerRef.current?.setCamera(viewpoint)
+  }
+
+  // Selection lives in the route, so hotspots, related chips and back/forward all frame it
+  useEffect(() => {
+    const viewpoint = selected && viewpointForEquipment(selected)
+    if (!viewpoint) return
+    setActiveViewpointId(viewpoint.id)
+    viewerRef.current?.setCamera(viewpoint)
+  }, [selected])
 
-  const loadSplat = () => {
-    // Reload iframe with new path as query param
-    if (iframeRef.current) {
-      iframeRef.current.src = `/tests/splat-viewer.html?src=${encodeURIComponent(plyPath)}`
-    }
+  const selectTier = (id: string) => {
+    setCustomSrc(null)
+    quality.selectTier(id)
   }
 
+  const glideHome = () => {
+    if (selectedId) navigate(featurePath('explore'))
+    flyTo(home)
+  }
+  // Reading the detail panel or using the controls counts as activity, not just the scene
+  const restartIdle = useIdleCallback(CAMERA_IDLE_HOME_MS, glideHome)
+
   return (
-    <div className="w-full h-full flex flex-col bg-[#1f1c1a]">
+    <div
+      className="w-full h-full flex flex-col bg-[#1f1c1a]"
+      onPointerDownCapture={restartIdle}
+      onWheelCapture={restartIdle}
+    >
       {/* Header */}
       <div className="flex items-center px-6 py-3 bg-[#2a2622] border-b border-[#3d3530]">
         <BackButton onBack={onBack} />
-        <h2 className="text-xl font-semibold text-[#d4c5b0] ml-4">Splat Test</h2>
+        <h2 className="text-xl font-semibold text-[#d4c5b0] ml-4">{t(ui.featureExplore)}</h2>
       </div>
 
       <div className="flex-1 flex overflow-hidden">
-        {/* Viewer - iframe embedding the working HTML viewer */}
+        {/* Viewer - renderer from VITE_SPLAT_RENDERER, file from the quality tier */}
         <div className="flex-1 relative bg-black">
-          <iframe
-            ref={iframeRef}
-            src={`/tests/splat-viewer.html?src=${encodeURIComponent(plyPath)}`}
-            className="w-full h-full border-0"
-            title="Splat Viewer"
-          />
+          {src && (
+            <SplatScene
+              ref={viewerRef}
+              src={src}
+              fallbackImageUrl={master_image_url}
+              initialCamera={initialCamera}
+              limits={VISITOR_CAMERA_LIMITS}
+              equipment={equipment}
+              selectedId={selectedId}
+              onPick={(item) => navigate(equipmentPath(item.id))}
+              onStatusChange={setSceneStatus}
+            />
+          )}
+
+          <div className="absolute bottom-4 left-0 right-0">
+            <ViewpointBar viewpoints={viewpoints} activeId={activeViewpointId} onSelect={flyTo} />
+          </div>
+
+          {/* Equipment detail - opened from a marker, a hotspot or /explore/:equipmentId */}
+          {selected && (
+            <EquipmentDetailPanel
+              equipment={selected}
+              onClose={() => navigate(featurePath('explore'))}
+              onSelectEquipment={(id) => navigate(equipmentPath(id))}
+            />
+          )}
         </div>
 
         {/* Control Panel */}
         <div className="w-72 bg-[#2a2622] border-l border-[#3d3530] p-4 overflow-y-auto flex-shrink-0">
+          {/* Quality tiers */}
+          <section className="mb-6">
+            <h3 className="text-[#8b6f47] font-semibold mb-2">Quality</h3>
+            {SPLAT_QUALITY_TIERS.map((tier) => (
+              <button
+                key={tier.id}
+                onClick={() => selectTier(tier.id)}
+                className={`w-full px-3 py-2 rounded text-sm mb-2 text-left ${
+                  !customSrc && quality.tier?.id === tier.id
+                    ? 'bg-[#8b6f47] text-white'
+                    : 'bg-[#3d3530] hover:bg-[#4d4540] text-[#d4c5b0]'
+                }`}
+              >
+                {tier.label}
+                <span className="float-right opacity-70">{(tier.splat_count / 1000).toFixed(0)}k splats</span>
+              </button>
+            ))}
+            <p className="text-[#d4c5b0]/60 text-xs">
+              {customSrc
+                ? 'Showing a custom file'
+                : quality.reason ? `${quality.tier?.label}: ${QUALITY_REASONS[quality.reason]}` : 'Measuring this device...'}
+            </p>
+            {quality.capability && (
+              <p className="text-[#d4c5b0]/60 text-xs mt-1">
+                {quality.capability.gpu ?? 'Unknown GPU'} · budget {(quality.capability.splat_budget / 1000).toFixed(0)}k splats
+              </p>
+            )}
+          </section>
+
           {/* File Path */}
           <section className="mb-6">
             <h3 className="text-[#8b6f47] font-semibold mb-2">PLY File</h3>
@@ -44,48 +153,22 @@ export function EquipmentExplorer({ onBack }: EquipmentExplorerProps) {
               type="text"
               value={plyPath}
               onChange={(e) => setPlyPath(e.target.value)}
+              placeholder={quality.tier?.src}
               className="w-full px-3 py-2 bg-[#1f1c1a] text-[#d4c5b0] border border-[#3d3530] rounded text-sm mb-2"
             />
             <button
-              onClick={loadSplat}
+              onClick={() => setCustomSrc(plyPath.trim() || null)}
               className="w-full px-3 py-2 bg-[#8b6f47] hover:bg-[#a08759] text-white rounded text-sm"
             >
               Load
             </button>
           </section>
 
-          {/* Quick presets */}
-          <section className="mb-6">
-            <h3 className="text-[#8b6f47] font-semibold mb-2">Presets</h3>
-            <button
-              onClick={() => {
-                setPlyPath('/splats/export_10000.ply')
-                if (iframeRef.current) {
-                  iframeRef.current.src = `/tests/splat-viewer.html?src=${encodeURIComponent('/splats/export_10000.ply')}`
-                }
-              }}
-              className="w-full px-3 py-2 bg-[#3d3530] hover:bg-[#4d4540] text-[#d4c5b0] rounded text-sm mb-2"
-            >
-              10k Steps
-            </button>
-            <button
-              onClick={() => {
-                setPlyPath('/splats/export_30000.ply')
-                if (iframeRef.current) {
-                  iframeRef.current.src = `/tests/splat-viewer.html?src=${encodeURIComponent('/splats/export_30000.ply')}`
-                }
-              }}
-              className="w-full px-3 py-2 bg-[#3d3530] hover:bg-[#4d4540] text-[#d4c5b0] rounded text-sm mb-2"
-            >
-              30k Steps
-            </button>
-          </section>
-
           {/* Controls hint */}
           <section className="text-[#d4c5b0]/60 text-xs">
             <p>🖱️ Left-drag: Rotate</p>
             <p>🖱️ Scroll: Zoom</p>
-            <p>🖱️ Right-drag: Pan</p>
+            <p>👆 Tap a marker: Equipment details</p>
           </section>
         </div>
       </div>
@@ -1,6 +1,10 @@
-import { Feature } from '../../App'
+import { useNavigate } from 'react-router-dom'
 import { useLanguage } from '../../i18n/LanguageContext'
 import { ui } from '../../i18n/strings'
+import { useContent } from '../../hooks/useContent'
+import { Feature } from '../../stores/kioskStore'
+import { equipmentPath } from '../../routes'
+import { PumpRoomImage } from '../shared/PumpRoomImage'
 
 interface HomeScreenProps {
   onSelectFeature: (feature: Feature) => void
@@ -8,6 +12,8 @@ interface HomeScreenProps {
 
 export function HomeScreen({ onSelectFeature }: HomeScreenProps) {
   const { t } = useLanguage()
+  const content = useContent()
+  const navigate = useNavigate()
 
   const features: Array<{ id: Feature; label: typeof ui.featureExplore; icon: string }> = [
     { id: 'explore', label: ui.featureExplore, icon: '🔍' },
@@ -29,16 +35,13 @@ export function HomeScreen({ onSelectFeature }: HomeScreenProps) {
         </p>
       </div>
 
-      {/* Main image area - placeholder for pump room photo */}
+      {/* Main image area - pump room photo with equipment hotspots */}
       <div className="flex-1 relative mx-8 mb-4">
-        <div className="absolute inset-0 bg-museum-warm rounded-lg flex items-center justify-center">
-          <div className="text-museum-accent text-kiosk-lg">
-            {/* Pump room master image will go here */}
-            [Pump Room Image - 2732x2048]
-          </div>
-        </div>
-        
-        {/* Hotspots will overlay here */}
+        <PumpRoomImage
+          imageUrl={content.master_image_url}
+          equipment={content.equipment}
+          onSelectEquipment={(item) => navigate(equipmentPath(item.id))}
+        />
       </div>
 
       {/* Feature navigation bar */}
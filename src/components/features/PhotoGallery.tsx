@@ -1,23 +1,61 @@
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { BackButton } from '../shared/BackButton'
 import { useLanguage } from '../../i18n/LanguageContext'
 import { ui } from '../../i18n/strings'
+import { useContent } from '../../hooks/useContent'
+import { useGoBack } from '../../hooks/useGoBack'
+import { BilingualText, GalleryPhoto } from '../../data/types'
+import { featurePath, galleryPhotoPath } from '../../routes'
+import { FlipCard } from './gallery/FlipCard'
+import { Lightbox } from './gallery/Lightbox'
 
 interface PhotoGalleryProps {
   onBack: () => void
 }
 
+const eras: Array<{ id: GalleryPhoto['era']; label: BilingualText }> = [
+  { id: 'construction', label: { en: 'Construction (1889-1892)', fr: 'Construction (1889-1892)' } },
+  { id: 'early_operation', label: { en: 'Early Operation', fr: 'Debut d\'exploitation' } },
+  { id: 'wwii', label: { en: 'World War II', fr: 'Seconde Guerre mondiale' } },
+  { id: 'postwar', label: { en: 'Post-War Years', fr: 'Annees d\'apres-guerre' } },
+  { id: 'modern', label: { en: 'Today', fr: 'Aujourd\'hui' } },
+]
+
 export function PhotoGallery({ onBack }: PhotoGalleryProps) {
   const { t } = useLanguage()
+  const navigate = useNavigate()
+  const { gallery } = useContent()
+  const { photoId } = useParams()
+
+  // Filters live in the URL (/gallery?era=wwii&tag=ships) so they can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams()
+  const activeEra = searchParams.get('era')
+  const activeTag = searchParams.get('tag')
+
+  const inEra = gallery.filter(p => !activeEra || p.era === activeEra)
+  const photos = inEra.filter(p => !activeTag || p.tags.includes(activeTag))
+  const tags = [...new Set(inEra.flatMap(p => p.tags))].sort()
 
-  const eras = [
-    { id: 'construction', label: { en: 'Construction (1889-1892)', fr: 'Construction (1889-1892)' } },
-    { id: 'early', label: { en: 'Early Operation', fr: 'Debut d\'exploitation' } },
-    { id: 'wwii', label: { en: 'World War II', fr: 'Seconde Guerre mondiale' } },
-    { id: 'postwar', label: { en: 'Post-War Years', fr: 'Annees d\'apres-guerre' } },
-  ]
+  const setFilter = (key: 'era' | 'tag', value: string | null) => {
+    const next = new URLSearchParams(searchParams)
+    if (value) next.set(key, value)
+    else next.delete(key)
+    // A tag may not exist in the newly chosen era
+    if (key === 'era') next.delete('tag')
+    setSearchParams(next, { replace: true })
+  }
+
+  // Lightbox is driven by /gallery/:photoId; swipes replace the entry so Back closes it
+  const openIndex = photos.findIndex(p => p.id === photoId)
+  const openPhoto = photoId ? gallery.find(p => p.id === photoId) : undefined
+  const search = searchParams.toString() ? `?${searchParams}` : ''
+  const openAt = (index: number) =>
+    navigate(`${galleryPhotoPath(photos[index].id)}${search}`, { replace: true })
+  // Back to the grid entry the photo was opened from, or to the grid when opened by link
+  const closePhoto = useGoBack(`${featurePath('gallery')}${search}`)
 
   return (
-    <div className="w-full h-full flex flex-col">
+    <div className="w-full h-full flex flex-col relative">
       {/* Header */}
       <div className="flex items-center justify-between px-8 py-4">
         <BackButton onBack={onBack} />
@@ -28,35 +66,71 @@ export function PhotoGallery({ onBack }: PhotoGalleryProps) {
       </div>
 
       {/* Era filter tabs */}
-      <div className="flex justify-center gap-2 px-8 mb-4">
-        {eras.map((era) => (
+      <div className="flex justify-center gap-2 px-8 mb-3">
+        {[{ id: null, label: ui.allEras }, ...eras].map((era) => (
           <button
-            key={era.id}
-            className="px-4 py-2 bg-museum-warm hover:bg-museum-highlight rounded-full text-kiosk-sm text-museum-dark transition-colors touch-target"
+            key={era.id ?? 'all'}
+            onClick={() => setFilter('era', era.id)}
+            className={`px-4 py-2 rounded-full text-kiosk-sm text-museum-dark transition-colors touch-target ${
+              era.id === activeEra ? 'bg-museum-highlight' : 'bg-museum-warm hover:bg-museum-highlight'
+            }`}
           >
             {t(era.label)}
           </button>
         ))}
       </div>
 
-      {/* Photo grid */}
-      <div className="flex-1 mx-8 mb-8 overflow-auto">
-        <div className="grid grid-cols-4 gap-4">
-          {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
-            <div 
-              key={i}
-              className="aspect-square bg-museum-warm rounded-lg flex items-center justify-center text-museum-accent cursor-pointer hover:ring-4 hover:ring-museum-highlight transition-all touch-target"
+      {/* Tag filter */}
+      {tags.length > 0 && (
+        <div className="flex justify-center flex-wrap gap-2 px-8 mb-4">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => setFilter('tag', tag === activeTag ? null : tag)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                tag === activeTag
+                  ? 'bg-museum-dark text-museum-stone border-museum-dark'
+                  : 'text-museum-accent border-museum-accent/40'
+              }`}
             >
-              [Photo {i}]
-            </div>
+              #{tag}
+            </button>
           ))}
         </div>
+      )}
+
+      {/* Photo grid */}
+      <div className="flex-1 mx-8 mb-8 overflow-auto">
+        {photos.length > 0 ? (
+          <div className="grid grid-cols-4 gap-4">
+            {photos.map((photo) => (
+              <FlipCard
+                key={photo.id}
+                photo={photo}
+                onOpen={() => navigate(`${galleryPhotoPath(photo.id)}${search}`)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-kiosk-base text-museum-accent mt-16">
+            {t(ui.noPhotos)}
+          </p>
+        )}
       </div>
 
       {/* Instruction */}
       <div className="text-center pb-4 text-museum-accent text-kiosk-sm">
         {t(ui.flipToRead)}
       </div>
+
+      {openPhoto && (
+        <Lightbox
+          photo={openPhoto}
+          onPrevious={openIndex > 0 ? () => openAt(openIndex - 1) : undefined}
+          onNext={openIndex >= 0 && openIndex < photos.length - 1 ? () => openAt(openIndex + 1) : undefined}
+          onClose={closePhoto}
+        />
+      )}
     </div>
   )
 }
@@ -1,6 +1,13 @@
+import { useEffect } from 'react'
 import { BackButton } from '../shared/BackButton'
+import { PumpRoomImage } from '../shared/PumpRoomImage'
 import { useLanguage } from '../../i18n/LanguageContext'
 import { ui } from '../../i18n/strings'
+import { useContent } from '../../hooks/useContent'
+import { useKioskStore } from '../../stores/kioskStore'
+import { Equipment } from '../../data/types'
+import { MAX_ATTEMPTS, answerQuestion, nextQuestion, startRound } from './quiz/quizEngine'
+import { recordAnalyticsEvent } from '../../services/analytics'
 
 interface QuizModeProps {
   onBack: () => void
@@ -8,6 +15,36 @@ interface QuizModeProps {
 
 export function QuizMode({ onBack }: QuizModeProps) {
   const { t } = useLanguage()
+  const content = useContent()
+  const quiz = useKioskStore(state => state.quiz)
+  const setQuizProgress = useKioskStore(state => state.setQuizProgress)
+
+  const total = quiz?.question_ids.length ?? 0
+  const question = quiz
+    ? content.quiz.find(q => q.id === quiz.question_ids[quiz.current_index])
+    : undefined
+
+  // Resume a round in progress, otherwise deal a new one (also when a
+  // content sync removed the current question)
+  const needsRound = !quiz || (!quiz.finished && !question)
+  useEffect(() => {
+    if (needsRound && content.quiz.length > 0) {
+      setQuizProgress(startRound(content.quiz))
+    }
+  }, [needsRound, content.quiz, setQuizProgress])
+  const correctEquipment = question
+    ? content.equipment.find(e => e.id === question.correct_equipment_id)
+    : undefined
+  const answeredCorrectly = !!quiz?.revealed && quiz.attempts < MAX_ATTEMPTS
+
+  const handleSelect = (item: Equipment) => {
+    if (!quiz || !question) return
+    const { progress, correct } = answerQuestion(quiz, question, item.id)
+    // Taps after the answer is revealed do not count
+    if (progress === quiz) return
+    recordAnalyticsEvent({ type: 'quiz_answer', question_id: question.id, equipment_id: item.id, correct })
+    setQuizProgress(progress)
+  }
 
   return (
     <div className="w-full h-full flex flex-col">
@@ -18,21 +55,91 @@ export function QuizMode({ onBack }: QuizModeProps) {
           {t(ui.featureQuiz)}
         </h2>
         <div className="px-6 py-2 bg-museum-highlight rounded-full text-museum-dark font-semibold">
-          {t(ui.quizScore)}: 0/5
+          {t(ui.quizScore)}: {quiz?.score ?? 0}/{total}
         </div>
       </div>
 
-      {/* Quiz area */}
-      <div className="flex-1 mx-8 mb-8 bg-museum-warm rounded-lg flex items-center justify-center">
-        <div className="text-center text-museum-accent">
-          <p className="text-kiosk-xl mb-8">
-            "Which pump moved 14,000 gallons per minute?"
-          </p>
-          <p className="text-kiosk-base">
-            [Touch the correct equipment on the image above]
-          </p>
+      {quiz?.finished ? (
+        /* End-of-round summary */
+        <div className="flex-1 mx-8 mb-8 bg-museum-warm rounded-lg flex items-center justify-center">
+          <div className="text-center">
+            <h3 className="text-kiosk-2xl font-display text-museum-dark mb-4">
+              {t(ui.quizRoundComplete)}
+            </h3>
+            <p className="text-kiosk-xl text-museum-accent mb-10">
+              {t(ui.quizYouScored)} {quiz.score} {t(ui.quizOutOf)} {total}
+            </p>
+            <button
+              onClick={() => setQuizProgress(startRound(content.quiz))}
+              className="px-8 py-4 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target"
+            >
+              {t(ui.quizPlayAgain)}
+            </button>
+          </div>
         </div>
-      </div>
+      ) : (
+        <>
+          {/* Question */}
+          {question && (
+            <div className="mx-8 mb-4 text-center">
+              <p className="text-kiosk-sm text-museum-accent">
+                {quiz!.current_index + 1} / {total}
+              </p>
+              <p className="text-kiosk-xl font-display text-museum-dark">
+                {t(question.question)}
+              </p>
+            </div>
+          )}
+
+          {/* Pump room view - answer by touching a hotspot */}
+          <div className="flex-1 relative mx-8 mb-4">
+            <PumpRoomImage
+              imageUrl={content.master_image_url}
+              equipment={content.equipment}
+              onSelectEquipment={handleSelect}
+              highlightedIds={quiz?.revealed && correctEquipment ? [correctEquipment.id] : []}
+              showLabels={false}
+            />
+          </div>
+
+          {/* Feedback */}
+          {quiz && question && (
+            <div className="bg-museum-dark px-8 py-6 text-museum-stone min-h-[8rem] flex items-center justify-between gap-8">
+              {quiz.revealed ? (
+                <>
+                  <div>
+                    <p className="text-kiosk-lg font-semibold text-museum-highlight">
+                      {answeredCorrectly
+                        ? t(ui.quizCorrect)
+                        : `${t(ui.quizAnswerWas)}: ${correctEquipment ? t(correctEquipment.name) : ''}`}
+                    </p>
+                    <p className="text-kiosk-base mt-1">{t(question.explanation)}</p>
+                  </div>
+                  <button
+                    onClick={() => setQuizProgress(nextQuestion(quiz))}
+                    className="px-8 py-4 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target flex-shrink-0"
+                  >
+                    {quiz.current_index + 1 < total ? t(ui.quizNextQuestion) : t(ui.quizSeeResults)}
+                  </button>
+                </>
+              ) : quiz.attempts > 0 ? (
+                <div>
+                  <p className="text-kiosk-lg font-semibold text-museum-highlight">
+                    {t(ui.quizTryAgain)}
+                  </p>
+                  {question.hint && (
+                    <p className="text-kiosk-base mt-1">
+                      {t(ui.quizHint)}: {t(question.hint)}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-kiosk-base">{t(ui.quizPrompt)}</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
     </div>
   )
 }
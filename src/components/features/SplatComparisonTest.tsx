@@ -1,8 +1,8 @@
 import { useState } from 'react';
-import { SparkViewer } from './splat-test/SparkViewer';
-import { GaussianSplats3DViewer } from './splat-test/GaussianSplats3DViewer';
-
-export type SplatFormat = 'ply' | 'splat' | 'sog';
+import { BenchmarkPanel } from './splat-test/BenchmarkPanel';
+import { FileInspection } from './splat-test/FileInspection';
+import { RendererPane } from './splat-test/RendererPane';
+import type { SplatFormat } from '../splat/viewerTypes';
 
 export interface SplatComparisonTestProps {
   onBack: () => void;
@@ -10,8 +10,9 @@ export interface SplatComparisonTestProps {
 
 export function SplatComparisonTest({ onBack }: SplatComparisonTestProps) {
   const [splatUrl, setSplatUrl] = useState<string>('');
-  const [format, setFormat] = useState<SplatFormat>('ply');
+  const [format, setFormat] = useState<SplatFormat | 'auto'>('auto');
   const [urlInput, setUrlInput] = useState<string>('');
+  const [mode, setMode] = useState<'compare' | 'benchmark'>('compare');
 
   const handleLoadSplat = () => {
     if (urlInput.trim()) {
@@ -26,72 +27,95 @@ export function SplatComparisonTest({ onBack }: SplatComparisonTestProps) {
         <h1 className="text-2xl font-bold text-[#d4c5b0]">
           Gaussian Splat Renderer Comparison
         </h1>
-        <button
-          onClick={onBack}
-          className="px-4 py-2 bg-[#8b6f47] hover:bg-[#a08759] text-white rounded transition-colors"
-        >
-          Back
-        </button>
+        <div className="flex items-center gap-4">
+          <div className="flex rounded overflow-hidden border border-[#3d3530]">
+            {(['compare', 'benchmark'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-4 py-2 capitalize transition-colors ${
+                  mode === m ? 'bg-[#3d3530] text-[#d4c5b0]' : 'text-[#d4c5b0]/60 hover:text-[#d4c5b0]'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 bg-[#8b6f47] hover:bg-[#a08759] text-white rounded transition-colors"
+          >
+            Back
+          </button>
+        </div>
       </div>
 
+      {/* Benchmark: same camera path in every renderer, measured */}
+      {mode === 'benchmark' && <BenchmarkPanel extraFile={splatUrl || undefined} />}
+
       {/* URL Input */}
-      <div className="bg-[#2a2622] p-4 border-b border-[#3d3530]">
-        <div className="flex gap-4 items-center max-w-6xl mx-auto">
-          <div className="flex-1">
-            <label className="block text-[#d4c5b0] text-sm mb-2">
-              Splat File URL (from Dropbox, GitHub, or local server):
-            </label>
-            <input
-              type="text"
-              value={urlInput}
-              onChange={(e) => setUrlInput(e.target.value)}
-              placeholder="https://example.com/your-splat-file.ply"
-              className="w-full px-3 py-2 bg-[#1f1c1a] text-[#d4c5b0] border border-[#3d3530] rounded focus:outline-none focus:border-[#8b6f47]"
-            />
-          </div>
+      {mode === 'compare' && (
+        <div className="bg-[#2a2622] p-4 border-b border-[#3d3530]">
+          <div className="flex gap-4 items-center max-w-6xl mx-auto">
+            <div className="flex-1">
+              <label className="block text-[#d4c5b0] text-sm mb-2">
+                Splat File URL (from Dropbox, GitHub, or local server):
+              </label>
+              <input
+                type="text"
+                value={urlInput}
+                onChange={(e) => setUrlInput(e.target.value)}
+                placeholder="https://example.com/your-splat-file.ply"
+                className="w-full px-3 py-2 bg-[#1f1c1a] text-[#d4c5b0] border border-[#3d3530] rounded focus:outline-none focus:border-[#8b6f47]"
+              />
+            </div>
           
-          <div>
-            <label className="block text-[#d4c5b0] text-sm mb-2">Format:</label>
-            <select
-              value={format}
-              onChange={(e) => setFormat(e.target.value as SplatFormat)}
-              className="px-3 py-2 bg-[#1f1c1a] text-[#d4c5b0] border border-[#3d3530] rounded focus:outline-none focus:border-[#8b6f47]"
+            <div>
+              <label className="block text-[#d4c5b0] text-sm mb-2">Format:</label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as SplatFormat | 'auto')}
+                className="px-3 py-2 bg-[#1f1c1a] text-[#d4c5b0] border border-[#3d3530] rounded focus:outline-none focus:border-[#8b6f47]"
+              >
+                <option value="auto">Detect</option>
+                <option value="ply">.ply</option>
+                <option value="splat">.splat</option>
+                <option value="sog">.sog</option>
+              </select>
+            </div>
+
+            <button
+              onClick={handleLoadSplat}
+              disabled={!urlInput.trim()}
+              className="px-6 py-2 bg-[#8b6f47] hover:bg-[#a08759] disabled:bg-[#3d3530] text-white rounded transition-colors mt-6"
             >
-              <option value="ply">.ply</option>
-              <option value="splat">.splat</option>
-              <option value="sog">.sog</option>
-            </select>
+              Load Splat
+            </button>
           </div>
 
-          <button
-            onClick={handleLoadSplat}
-            disabled={!urlInput.trim()}
-            className="px-6 py-2 bg-[#8b6f47] hover:bg-[#a08759] disabled:bg-[#3d3530] text-white rounded transition-colors mt-6"
-          >
-            Load Splat
-          </button>
-        </div>
+          {splatUrl && <FileInspection url={splatUrl} />}
 
-        {!splatUrl && (
-          <div className="mt-4 p-4 bg-[#3d3530] rounded max-w-6xl mx-auto">
-            <p className="text-[#d4c5b0] text-sm">
-              <strong>Instructions:</strong>
-            </p>
-            <ol className="text-[#d4c5b0] text-sm mt-2 space-y-1 list-decimal list-inside">
-              <li>Export a .ply, .splat, or .sog file from Brush</li>
-              <li>Upload it to Dropbox or commit to GitHub</li>
-              <li>Get the direct download URL</li>
-              <li>Paste the URL above and click Load Splat</li>
-            </ol>
-            <p className="text-[#d4c5b0] text-sm mt-3">
-              <strong>For local testing:</strong> Run <code className="bg-[#1f1c1a] px-2 py-1 rounded">python -m http.server 8000</code> in your splat directory and use <code className="bg-[#1f1c1a] px-2 py-1 rounded">http://localhost:8000/filename.ply</code>
-            </p>
-          </div>
-        )}
-      </div>
+          {!splatUrl && (
+            <div className="mt-4 p-4 bg-[#3d3530] rounded max-w-6xl mx-auto">
+              <p className="text-[#d4c5b0] text-sm">
+                <strong>Instructions:</strong>
+              </p>
+              <ol className="text-[#d4c5b0] text-sm mt-2 space-y-1 list-decimal list-inside">
+                <li>Export a .ply, .splat, or .sog file from Brush</li>
+                <li>Upload it to Dropbox or commit to GitHub</li>
+                <li>Get the direct download URL</li>
+                <li>Paste the URL above and click Load Splat</li>
+              </ol>
+              <p className="text-[#d4c5b0] text-sm mt-3">
+                <strong>For local testing:</strong> Run <code className="bg-[#1f1c1a] px-2 py-1 rounded">python -m http.server 8000</code> in your splat directory and use <code className="bg-[#1f1c1a] px-2 py-1 rounded">http://localhost:8000/filename.ply</code>
+              </p>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Split View */}
-      {splatUrl && (
+      {mode === 'compare' && splatUrl && (
         <div className="flex-1 flex overflow-hidden">
           {/* Left: Spark */}
           <div className="flex-1 flex flex-col border-r border-[#3d3530]">
@@ -101,7 +125,7 @@ export function SplatComparisonTest({ onBack }: SplatComparisonTestProps) {
               </h2>
             </div>
             <div className="flex-1 relative">
-              <SparkViewer url={splatUrl} format={format} />
+              <RendererPane renderer="spark" url={splatUrl} format={format === 'auto' ? undefined : format} label="Spark" />
             </div>
           </div>
 
@@ -113,14 +137,14 @@ export function SplatComparisonTest({ onBack }: SplatComparisonTestProps) {
               </h2>
             </div>
             <div className="flex-1 relative">
-              <GaussianSplats3DViewer url={splatUrl} format={format} />
+              <RendererPane renderer="gaussian-splats-3d" url={splatUrl} format={format === 'auto' ? undefined : format} label="GaussianSplats3D" />
             </div>
           </div>
         </div>
       )}
 
       {/* Evaluation Checklist */}
-      {splatUrl && (
+      {mode === 'compare' && splatUrl && (
         <div className="h-48 bg-[#2a2622] border-t border-[#3d3530] p-4 overflow-y-auto">
           <h3 className="text-lg font-semibold text-[#d4c5b0] mb-3">
             Evaluation Checklist:
@@ -144,6 +168,9 @@ export function SplatComparisonTest({ onBack }: SplatComparisonTestProps) {
                 <li>Memory usage (check DevTools)</li>
                 <li>Touch responsiveness</li>
               </ul>
+              <p className="mt-2 text-[#d4c5b0]/60">
+                Benchmark mode measures load, frame times and heap automatically.
+              </p>
             </div>
           </div>
         </div>
@@ -1,6 +1,13 @@
 import { BackButton } from '../shared/BackButton'
+import { PumpRoomImage } from '../shared/PumpRoomImage'
 import { useLanguage } from '../../i18n/LanguageContext'
 import { ui } from '../../i18n/strings'
+import { useUnits } from '../../i18n/units'
+import { useContent } from '../../hooks/useContent'
+import { animationSteps } from '../../data/animation'
+import { DOCK_VOLUME, PUMP_RATE } from '../../data/statistics'
+import { useTimeline } from './animation/useTimeline'
+import { FlowPathLayer } from './animation/FlowPathLayer'
 
 interface SystemAnimationProps {
   onBack: () => void
@@ -8,6 +15,10 @@ interface SystemAnimationProps {
 
 export function SystemAnimation({ onBack }: SystemAnimationProps) {
   const { t } = useLanguage()
+  const { format } = useUnits()
+  const content = useContent()
+  const timeline = useTimeline(animationSteps)
+  const { step } = timeline
 
   return (
     <div className="w-full h-full flex flex-col">
@@ -21,25 +32,80 @@ export function SystemAnimation({ onBack }: SystemAnimationProps) {
       </div>
 
       {/* Animation area */}
-      <div className="flex-1 mx-8 mb-8 bg-museum-warm rounded-lg flex items-center justify-center">
-        <div className="text-center text-museum-accent">
-          <p className="text-kiosk-lg mb-4">[System Animation]</p>
-          <p className="text-kiosk-base">
-            Coal → Boilers → Steam → Engines → Pumps → Harbour
+      <div className="flex-1 relative mx-8 mb-4">
+        <PumpRoomImage
+          imageUrl={content.master_image_url}
+          equipment={content.equipment.filter(e => step?.highlighted_equipment_ids.includes(e.id))}
+          highlightedIds={step?.highlighted_equipment_ids}
+          showLabels={false}
+        >
+          <FlowPathLayer paths={step?.flow_paths ?? []} elapsedMs={timeline.elapsed} />
+        </PumpRoomImage>
+      </div>
+
+      {/* Step caption */}
+      {step && (
+        <div className="mx-8 mb-4 text-center">
+          <p className="text-kiosk-xl font-display text-museum-dark">
+            {t(step.title)}
           </p>
-          <p className="text-kiosk-xl font-display mt-8">
-            {t(ui.pumpCapacity)}
+          <p className="text-kiosk-base text-museum-accent">
+            {t(step.description)}
           </p>
+          {timeline.stepIndex === timeline.steps.length - 1 && (
+            <>
+              <p className="text-kiosk-lg font-display text-museum-dark mt-2">
+                {t(ui.pumpCapacity).replace('{volume}', format(DOCK_VOLUME))}
+              </p>
+              <p className="text-kiosk-base text-museum-accent">
+                {t(ui.pumpRate).replace('{rate}', format(PUMP_RATE))}
+              </p>
+            </>
+          )}
         </div>
-      </div>
+      )}
 
       {/* Playback controls */}
-      <div className="bg-museum-dark px-8 py-6">
+      <div className="bg-museum-dark px-8 py-6 space-y-4">
+        {/* Step jump: Coal → Boilers → Steam → Engines → Pumps → Harbour */}
+        <div className="flex justify-center gap-2">
+          {timeline.steps.map((s, i) => (
+            <button
+              key={s.id}
+              onClick={() => timeline.jumpToStep(i)}
+              className={`px-4 py-2 rounded-full text-kiosk-sm transition-colors touch-target ${
+                i === timeline.stepIndex
+                  ? 'bg-museum-highlight text-museum-dark'
+                  : 'bg-museum-stone/10 text-museum-stone hover:bg-museum-stone/20'
+              }`}
+            >
+              {t(s.title)}
+            </button>
+          ))}
+        </div>
+
+        {/* Scrubber */}
+        <input
+          type="range"
+          min={0}
+          max={timeline.totalMs}
+          step={100}
+          value={timeline.elapsed}
+          onChange={(e) => timeline.seek(Number(e.target.value))}
+          className="w-full accent-museum-highlight touch-target"
+        />
+
         <div className="flex justify-center gap-4">
-          <button className="px-8 py-4 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target">
-            {t(ui.play)}
+          <button
+            onClick={timeline.playing ? timeline.pause : timeline.play}
+            className="px-8 py-4 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target"
+          >
+            {timeline.playing ? t(ui.pause) : t(ui.play)}
           </button>
-          <button className="px-8 py-4 bg-museum-stone/20 text-museum-stone rounded-full text-kiosk-base font-semibold touch-target">
+          <button
+            onClick={timeline.restart}
+            className="px-8 py-4 bg-museum-stone/20 text-museum-stone rounded-full text-kiosk-base font-semibold touch-target"
+          >
             {t(ui.restart)}
           </button>
         </div>
@@ -0,0 +1,97 @@
+import { FlowPath } from '../../../data/types'
+import { MASTER_IMAGE_ASPECT, Point } from '../../shared/hotspotGeometry'
+
+interface FlowPathLayerProps {
+  paths: FlowPath[]
+  /** Timeline position; particles and dashes are derived from it so pause and scrub just work */
+  elapsedMs: number
+}
+
+// Uniformly scaled view box matching the master image: 100 wide, 75 tall
+const VIEW_HEIGHT = 100 / MASTER_IMAGE_ASPECT
+
+// Travel speed in view-box units per second
+const SPEED: Record<FlowPath['type'], number> = {
+  coal: 5,
+  steam: 18,
+  water: 12
+}
+
+const PARTICLE_SPACING = 6
+
+const toView = (p: Point): Point => ({ x: p.x, y: (p.y / 100) * VIEW_HEIGHT })
+
+function pathLength(points: Point[]): number {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y)
+  }
+  return length
+}
+
+function pointAlong(points: Point[], distance: number): Point {
+  let remaining = distance
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]
+    const b = points[i]
+    const segment = Math.hypot(b.x - a.x, b.y - a.y)
+    if (remaining <= segment) {
+      const f = segment === 0 ? 0 : remaining / segment
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f }
+    }
+    remaining -= segment
+  }
+  return points[points.length - 1]
+}
+
+/**
+ * Steam, water and coal flows drawn over the master image as dashed lines
+ * with particles travelling along them
+ */
+export function FlowPathLayer({ paths, elapsedMs }: FlowPathLayerProps) {
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 100 ${VIEW_HEIGHT}`}
+      preserveAspectRatio="none"
+    >
+      {paths.map((path) => {
+        const points = path.points.map(toView)
+        const length = pathLength(points)
+        const travelled = (elapsedMs / 1000) * SPEED[path.type]
+        const particleCount = Math.max(1, Math.floor(length / PARTICLE_SPACING))
+
+        return (
+          <g key={path.id}>
+            <polyline
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={path.color}
+              strokeWidth={0.8}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeDasharray={path.animated ? '2 1.5' : undefined}
+              strokeDashoffset={path.animated ? -travelled : undefined}
+              strokeOpacity={0.85}
+            />
+            {path.animated && length > 0 && Array.from({ length: particleCount }, (_, i) => {
+              const distance = (travelled + (i * length) / particleCount) % length
+              const p = pointAlong(points, distance)
+              return (
+                <circle
+                  key={i}
+                  cx={p.x}
+                  cy={p.y}
+                  r={path.type === 'coal' ? 0.9 : 0.6}
+                  fill={path.type === 'steam' ? '#f5f0e8' : path.color}
+                  stroke={path.color}
+                  strokeWidth={0.2}
+                />
+              )
+            })}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
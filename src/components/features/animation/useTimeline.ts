@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { AnimationStep } from '../../../data/types'
+import { useKioskStore } from '../../../stores/kioskStore'
+
+/**
+ * Playhead over a list of AnimationSteps. Progress lives in the kiosk store
+ * so it survives navigation and is cleared by the idle reset.
+ */
+export function useTimeline(steps: AnimationStep[]) {
+  const ordered = useMemo(() => [...steps].sort((a, b) => a.order - b.order), [steps])
+
+  // Start time of each step on the timeline
+  const starts = useMemo(() => {
+    let t = 0
+    return ordered.map(step => {
+      const start = t
+      t += step.duration_ms
+      return start
+    })
+  }, [ordered])
+
+  const totalMs = ordered.reduce((sum, step) => sum + step.duration_ms, 0)
+
+  const { elapsed_ms: elapsed, playing } = useKioskStore(state => state.animation)
+  const setAnimationProgress = useKioskStore(state => state.setAnimationProgress)
+
+  const stepIndexAt = useCallback((ms: number) => {
+    let index = 0
+    for (let i = 0; i < starts.length; i++) {
+      if (ms >= starts[i]) index = i
+    }
+    return index
+  }, [starts])
+
+  const seek = useCallback((ms: number, keepPlaying?: boolean) => {
+    const clamped = Math.min(Math.max(ms, 0), totalMs)
+    setAnimationProgress({
+      elapsed_ms: clamped,
+      step_index: stepIndexAt(clamped),
+      ...(keepPlaying === undefined ? {} : { playing: keepPlaying })
+    })
+  }, [totalMs, stepIndexAt, setAnimationProgress])
+
+  // Advance the playhead once per frame while playing
+  useEffect(() => {
+    if (!playing) return
+
+    let frame: number
+    let last = performance.now()
+
+    const tick = (now: number) => {
+      const current = useKioskStore.getState().animation.elapsed_ms
+      const next = current + (now - last)
+      last = now
+
+      if (next >= totalMs) {
+        seek(totalMs, false)
+        return
+      }
+      seek(next)
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, totalMs, seek])
+
+  const stepIndex = stepIndexAt(elapsed)
+  const step = ordered[stepIndex] as AnimationStep | undefined
+  const stepProgress = step ? (elapsed - starts[stepIndex]) / step.duration_ms : 0
+
+  return {
+    steps: ordered,
+    stepIndex,
+    step,
+    stepProgress: Math.min(stepProgress, 1),
+    elapsed,
+    totalMs,
+    playing,
+    // Playing from the end starts over
+    play: () => seek(elapsed >= totalMs ? 0 : elapsed, true),
+    pause: () => seek(elapsed, false),
+    restart: () => seek(0, true),
+    seek: (ms: number) => seek(ms),
+    jumpToStep: (index: number) => seek(starts[index] ?? 0)
+  }
+}
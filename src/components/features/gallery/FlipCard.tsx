@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { GalleryPhoto } from '../../../data/types'
+import { useLanguage } from '../../../i18n/LanguageContext'
+import { ui } from '../../../i18n/strings'
+
+interface FlipCardProps {
+  photo: GalleryPhoto
+  onOpen: () => void
+}
+
+/**
+ * Gallery card: photo on the front, story and archival details on the back
+ */
+export function FlipCard({ photo, onOpen }: FlipCardProps) {
+  const { t } = useLanguage()
+  const [flipped, setFlipped] = useState(false)
+  const [imageFailed, setImageFailed] = useState(false)
+
+  const faceClass = 'absolute inset-0 rounded-lg overflow-hidden [backface-visibility:hidden]'
+
+  return (
+    <div
+      className="relative aspect-square cursor-pointer [perspective:1000px] touch-target"
+      onClick={() => setFlipped(f => !f)}
+    >
+      <div
+        className="absolute inset-0 transition-transform duration-500 [transform-style:preserve-3d]"
+        style={{ transform: flipped ? 'rotateY(180deg)' : undefined }}
+      >
+        {/* Front */}
+        <div className={`${faceClass} bg-museum-warm`}>
+          {imageFailed ? (
+            <div className="absolute inset-0 flex items-center justify-center text-museum-accent p-4 text-center">
+              [{t(photo.title)}]
+            </div>
+          ) : (
+            <img
+              src={photo.thumbnail_url}
+              alt={t(photo.title)}
+              draggable={false}
+              onError={() => setImageFailed(true)}
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          )}
+          <div className="absolute inset-x-0 bottom-0 bg-museum-dark/80 text-museum-stone px-3 py-2">
+            <p className="text-kiosk-sm font-semibold truncate">{t(photo.title)}</p>
+            {photo.year && <p className="text-sm text-museum-highlight">{photo.year}</p>}
+          </div>
+        </div>
+
+        {/* Back */}
+        <div
+          className={`${faceClass} bg-museum-dark text-museum-stone p-4 flex flex-col`}
+          style={{ transform: 'rotateY(180deg)' }}
+        >
+          <p className="text-kiosk-sm font-semibold text-museum-highlight mb-1">
+            {t(photo.title)}{photo.year ? ` (${photo.year})` : ''}
+          </p>
+          <p className="text-sm flex-1 overflow-y-auto">{t(photo.description)}</p>
+          <p className="text-xs text-museum-stone/70 mt-2">
+            {t(ui.source)}: {photo.source}
+          </p>
+          {photo.archival_reference && (
+            <p className="text-xs text-museum-stone/70">
+              {t(ui.archivalReference)}: {photo.archival_reference}
+            </p>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              onOpen()
+            }}
+            className="mt-2 px-3 py-2 bg-museum-highlight text-museum-dark rounded-full text-sm font-semibold touch-target"
+          >
+            {t(ui.viewFullScreen)}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
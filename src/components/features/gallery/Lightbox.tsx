@@ -0,0 +1,167 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react'
+import { GalleryPhoto } from '../../../data/types'
+import { useLanguage } from '../../../i18n/LanguageContext'
+import { ui } from '../../../i18n/strings'
+
+interface LightboxProps {
+  photo: GalleryPhoto
+  onPrevious?: () => void
+  onNext?: () => void
+  onClose: () => void
+}
+
+const MIN_SCALE = 1
+const MAX_SCALE = 4
+// Horizontal drag distance (px) that counts as a swipe
+const SWIPE_THRESHOLD = 60
+
+interface Gesture {
+  startDistance: number
+  startScale: number
+  startX: number
+  startY: number
+  startPan: { x: number; y: number }
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max)
+
+/**
+ * Full-screen photo viewer: pinch to zoom, drag to pan when zoomed,
+ * swipe to move between photos
+ */
+export function Lightbox({ photo, onPrevious, onNext, onClose }: LightboxProps) {
+  const { t } = useLanguage()
+  const [scale, setScale] = useState(1)
+  const [pan, setPan] = useState({ x: 0, y: 0 })
+  const [swipeX, setSwipeX] = useState(0)
+  const pointers = useRef(new Map<number, { x: number; y: number }>())
+  const gesture = useRef<Gesture | null>(null)
+
+  // Each photo starts unzoomed
+  useEffect(() => {
+    setScale(1)
+    setPan({ x: 0, y: 0 })
+    setSwipeX(0)
+  }, [photo.id])
+
+  const pointerDistance = () => {
+    const [a, b] = [...pointers.current.values()]
+    return Math.hypot(a.x - b.x, a.y - b.y)
+  }
+
+  // (Re)start the gesture whenever the number of touching fingers changes
+  const beginGesture = () => {
+    const [first] = [...pointers.current.values()]
+    if (!first) {
+      gesture.current = null
+      return
+    }
+    gesture.current = {
+      startDistance: pointers.current.size >= 2 ? pointerDistance() : 0,
+      startScale: scale,
+      startX: first.x,
+      startY: first.y,
+      startPan: pan
+    }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    setSwipeX(0)
+    beginGesture()
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    const g = gesture.current
+
+    if (pointers.current.size >= 2 && g.startDistance > 0) {
+      setScale(clamp(g.startScale * (pointerDistance() / g.startDistance), MIN_SCALE, MAX_SCALE))
+      return
+    }
+
+    const dx = e.clientX - g.startX
+    const dy = e.clientY - g.startY
+    if (scale > 1) {
+      setPan({ x: g.startPan.x + dx, y: g.startPan.y + dy })
+    } else {
+      setSwipeX(dx)
+    }
+  }
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    const wasSingle = pointers.current.size === 1
+    pointers.current.delete(e.pointerId)
+
+    if (wasSingle && scale === 1) {
+      if (swipeX <= -SWIPE_THRESHOLD) onNext?.()
+      else if (swipeX >= SWIPE_THRESHOLD) onPrevious?.()
+      setSwipeX(0)
+    }
+    if (scale <= 1) setPan({ x: 0, y: 0 })
+    beginGesture()
+  }
+
+  const toggleZoom = () => {
+    setScale(s => (s > 1 ? 1 : 2))
+    setPan({ x: 0, y: 0 })
+  }
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black flex flex-col">
+      {/* Image */}
+      <div
+        className="flex-1 relative overflow-hidden touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={toggleZoom}
+      >
+        <img
+          key={photo.id}
+          src={photo.image_url}
+          alt={t(photo.title)}
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{
+            transform: `translate(${pan.x + swipeX}px, ${pan.y}px) scale(${scale})`,
+            transition: pointers.current.size === 0 ? 'transform 200ms' : undefined
+          }}
+        />
+      </div>
+
+      {/* Caption and controls */}
+      <div className="bg-museum-dark text-museum-stone px-8 py-4 flex items-center gap-6">
+        <button
+          onClick={onPrevious}
+          disabled={!onPrevious}
+          className="px-4 py-2 bg-museum-stone/10 rounded-full text-kiosk-sm disabled:opacity-30 touch-target"
+        >
+          {t(ui.previous)}
+        </button>
+        <div className="flex-1 text-center">
+          <p className="text-kiosk-base font-semibold">
+            {t(photo.title)}{photo.year ? ` (${photo.year})` : ''}
+          </p>
+          <p className="text-kiosk-sm text-museum-stone/70">{t(photo.description)}</p>
+        </div>
+        <button
+          onClick={onNext}
+          disabled={!onNext}
+          className="px-4 py-2 bg-museum-stone/10 rounded-full text-kiosk-sm disabled:opacity-30 touch-target"
+        >
+          {t(ui.next)}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-6 py-3 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target"
+        >
+          {t(ui.close)}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { quizQuestions } from '../../../data/quiz'
+import { QuizQuestion } from '../../../data/types'
+import { answerQuestion, drawRound, MAX_ATTEMPTS, nextQuestion, ROUND_SIZE, startRound } from './quizEngine'
+
+/** Repeatable stand-in for Math.random */
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648
+  }
+}
+
+function makeQuestion(id: string, difficulty: QuizQuestion['difficulty']): QuizQuestion {
+  return {
+    id,
+    question: { en: id, fr: id },
+    correct_equipment_id: `${id}-answer`,
+    hint: { en: '', fr: '' },
+    explanation: { en: '', fr: '' },
+    difficulty
+  }
+}
+
+const byId = new Map(quizQuestions.map(q => [q.id, q]))
+const difficultyOf = (id: string) => byId.get(id)!.difficulty
+
+describe('drawRound', () => {
+  it('draws a full round without repeating a question', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const ids = drawRound(quizQuestions, ROUND_SIZE, seededRandom(seed))
+      expect(ids).toHaveLength(ROUND_SIZE)
+      expect(new Set(ids).size).toBe(ids.length)
+      ids.forEach(id => expect(byId.has(id)).toBe(true))
+    }
+  })
+
+  it('balances difficulties and orders the round from easiest to hardest', () => {
+    const ids = drawRound(quizQuestions, ROUND_SIZE, seededRandom(7))
+    expect(ids.map(difficultyOf)).toEqual(['easy', 'easy', 'medium', 'medium', 'hard'])
+  })
+
+  it('takes every question when there are fewer than a round', () => {
+    const questions = [makeQuestion('a', 'hard'), makeQuestion('b', 'easy'), makeQuestion('c', 'hard')]
+    const ids = drawRound(questions, ROUND_SIZE, seededRandom(3))
+    expect(ids).toHaveLength(3)
+    expect(ids[0]).toBe('b')
+    expect([...ids].sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  it('fills the round from other difficulties when one runs out', () => {
+    const questions = [
+      makeQuestion('e1', 'easy'),
+      makeQuestion('h1', 'hard'), makeQuestion('h2', 'hard'), makeQuestion('h3', 'hard'), makeQuestion('h4', 'hard')
+    ]
+    expect(drawRound(questions, 4, seededRandom(5)).map(id => id[0])).toEqual(['e', 'h', 'h', 'h'])
+  })
+})
+
+describe('startRound', () => {
+  it('starts at the first question with nothing scored', () => {
+    const progress = startRound(quizQuestions, seededRandom(1))
+    expect(progress).toMatchObject({ current_index: 0, score: 0, attempts: 0, revealed: false, finished: false })
+    expect(progress.question_ids).toHaveLength(ROUND_SIZE)
+  })
+})
+
+describe('answerQuestion', () => {
+  const question = makeQuestion('q', 'easy')
+  const fresh = () => ({ ...startRound([question]), question_ids: ['q', 'r'] })
+
+  it('scores a correct answer and reveals the explanation', () => {
+    const { progress, correct } = answerQuestion(fresh(), question, 'q-answer')
+    expect(correct).toBe(true)
+    expect(progress).toMatchObject({ score: 1, attempts: 0, revealed: true })
+  })
+
+  it('reveals the answer after the last wrong try without scoring', () => {
+    let progress = fresh()
+    for (let i = 1; i <= MAX_ATTEMPTS; i++) {
+      const result = answerQuestion(progress, question, 'wrong')
+      expect(result.correct).toBe(false)
+      expect(result.progress.attempts).toBe(i)
+      expect(result.progress.revealed).toBe(i === MAX_ATTEMPTS)
+      progress = result.progress
+    }
+    expect(progress.score).toBe(0)
+  })
+
+  it('still scores a correct answer on the second try', () => {
+    const first = answerQuestion(fresh(), question, 'wrong').progress
+    const { progress, correct } = answerQuestion(first, question, 'q-answer')
+    expect(correct).toBe(true)
+    expect(progress).toMatchObject({ score: 1, attempts: 1, revealed: true })
+  })
+
+  it('ignores taps once the answer is shown or the round is over', () => {
+    const revealed = answerQuestion(fresh(), question, 'q-answer').progress
+    expect(answerQuestion(revealed, question, 'q-answer')).toEqual({ progress: revealed, correct: false })
+
+    const finished = { ...fresh(), finished: true }
+    expect(answerQuestion(finished, question, 'q-answer')).toEqual({ progress: finished, correct: false })
+  })
+
+  it('only accepts the east pump when asked for it, not its west twin', () => {
+    const pumpQuestion = byId.get('q-pump-capacity')!
+    const progress = { ...fresh(), question_ids: [pumpQuestion.id] }
+    expect(answerQuestion(progress, pumpQuestion, 'main-pump-west').correct).toBe(false)
+    expect(answerQuestion(progress, pumpQuestion, 'main-pump-east').correct).toBe(true)
+  })
+})
+
+describe('nextQuestion', () => {
+  it('moves on and clears the tries', () => {
+    const progress = { ...startRound([]), question_ids: ['a', 'b'], score: 1, attempts: 1, revealed: true }
+    expect(nextQuestion(progress)).toMatchObject({ current_index: 1, score: 1, attempts: 0, revealed: false, finished: false })
+  })
+
+  it('finishes after the last question', () => {
+    const progress = { ...startRound([]), question_ids: ['a', 'b'], current_index: 1, revealed: true }
+    expect(nextQuestion(progress)).toMatchObject({ current_index: 1, finished: true })
+  })
+})
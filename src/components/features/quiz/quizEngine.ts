@@ -0,0 +1,94 @@
+/**
+ * Quiz round logic, kept free of React so progress can live in the kiosk store
+ */
+
+import { QuizQuestion } from '../../../data/types'
+import { QuizProgress } from '../../../stores/kioskStore'
+
+export const ROUND_SIZE = 5
+/** Wrong tries before the answer is revealed */
+export const MAX_ATTEMPTS = 2
+
+const DIFFICULTY_ORDER: QuizQuestion['difficulty'][] = ['easy', 'medium', 'hard']
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+/**
+ * Picks question ids taking easy, medium and hard in turn (so a round is
+ * balanced even when one difficulty has more questions), then orders the
+ * round from easiest to hardest.
+ */
+export function drawRound(
+  questions: QuizQuestion[],
+  size = ROUND_SIZE,
+  random: () => number = Math.random
+): string[] {
+  const buckets = DIFFICULTY_ORDER.map(difficulty =>
+    shuffle(questions.filter(q => q.difficulty === difficulty), random)
+  )
+
+  const picked: QuizQuestion[] = []
+  while (picked.length < size && buckets.some(b => b.length > 0)) {
+    for (const bucket of buckets) {
+      const next = bucket.shift()
+      if (next && picked.length < size) picked.push(next)
+    }
+  }
+
+  return picked
+    .sort((a, b) => DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty))
+    .map(q => q.id)
+}
+
+export function startRound(questions: QuizQuestion[], random?: () => number): QuizProgress {
+  return {
+    question_ids: drawRound(questions, ROUND_SIZE, random),
+    current_index: 0,
+    score: 0,
+    attempts: 0,
+    revealed: false,
+    finished: false
+  }
+}
+
+/**
+ * Applies a hotspot tap. A correct answer scores a point and reveals the
+ * explanation; a wrong one counts a try and reveals the answer after MAX_ATTEMPTS.
+ */
+export function answerQuestion(
+  progress: QuizProgress,
+  question: QuizQuestion,
+  equipmentId: string
+): { progress: QuizProgress; correct: boolean } {
+  if (progress.revealed || progress.finished) {
+    return { progress, correct: false }
+  }
+
+  if (equipmentId === question.correct_equipment_id) {
+    return {
+      progress: { ...progress, score: progress.score + 1, revealed: true },
+      correct: true
+    }
+  }
+
+  const attempts = progress.attempts + 1
+  return {
+    progress: { ...progress, attempts, revealed: attempts >= MAX_ATTEMPTS },
+    correct: false
+  }
+}
+
+export function nextQuestion(progress: QuizProgress): QuizProgress {
+  const nextIndex = progress.current_index + 1
+  if (nextIndex >= progress.question_ids.length) {
+    return { ...progress, finished: true }
+  }
+  return { ...progress, current_index: nextIndex, attempts: 0, revealed: false }
+}
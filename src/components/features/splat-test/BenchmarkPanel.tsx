@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { SPLAT_RENDERERS, SplatRenderer } from '../../splat/viewerTypes';
+import { BenchmarkRun } from './BenchmarkRun';
+import { BENCHMARK_FILES, BenchmarkResult, downloadReport, resultsToCsv } from './benchmark';
+
+interface BenchmarkPanelProps {
+  /** Added to the default file list, e.g. the URL loaded in compare mode */
+  extraFile?: string;
+}
+
+interface RunSpec {
+  file: string;
+  renderer: SplatRenderer;
+}
+
+// Pause between runs so the previous renderer's memory can be reclaimed
+const COOLDOWN_MS = 1500;
+
+const fileName = (path: string) => path.split(/[?#]/)[0].split('/').pop() || path;
+
+/**
+ * Runs every file in every selected renderer, one at a time and full size,
+ * and exports the measurements as JSON or CSV
+ */
+export function BenchmarkPanel({ extraFile }: BenchmarkPanelProps) {
+  const [filesText, setFilesText] = useState(() =>
+    [...BENCHMARK_FILES, ...(extraFile && !BENCHMARK_FILES.includes(extraFile) ? [extraFile] : [])].join('\n')
+  );
+  const [renderers, setRenderers] = useState<SplatRenderer[]>(SPLAT_RENDERERS);
+  const [queue, setQueue] = useState<RunSpec[]>([]);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const cooldown = useRef(0);
+
+  useEffect(() => () => window.clearTimeout(cooldown.current), []);
+
+  const running = queue.length > 0;
+  const files = filesText.split('\n').map(f => f.trim()).filter(Boolean);
+
+  const toggleRenderer = (renderer: SplatRenderer) => {
+    setRenderers(prev => prev.includes(renderer)
+      ? prev.filter(r => r !== renderer)
+      : SPLAT_RENDERERS.filter(r => r === renderer || prev.includes(r)));
+  };
+
+  const start = () => {
+    const runs = files.flatMap(file => renderers.map(renderer => ({ file, renderer })));
+    if (runs.length === 0) return;
+    setResults([]);
+    setQueue(runs);
+    setCurrent(0);
+  };
+
+  const stop = () => {
+    window.clearTimeout(cooldown.current);
+    setQueue([]);
+    setCurrent(null);
+  };
+
+  const handleComplete = (index: number, result: BenchmarkResult) => {
+    setResults(prev => [...prev, result]);
+    setCurrent(null);
+    if (index + 1 >= queue.length) {
+      setQueue([]);
+      return;
+    }
+    cooldown.current = window.setTimeout(() => setCurrent(index + 1), COOLDOWN_MS);
+  };
+
+  const stamp = () => new Date().toISOString().replace(/[:.]/g, '-');
+
+  const exportJson = () =>
+    downloadReport(`splat-benchmark-${stamp()}.json`, JSON.stringify(results, null, 2), 'application/json');
+
+  const exportCsv = () =>
+    downloadReport(`splat-benchmark-${stamp()}.csv`, resultsToCsv(results), 'text/csv');
+
+  const activeRun = current !== null ? queue[current] : null;
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Active run, full size */}
+      <div className="flex-1 relative bg-black">
+        {activeRun && current !== null ? (
+          <>
+            <BenchmarkRun
+              key={`${current}-${activeRun.renderer}-${activeRun.file}`}
+              file={activeRun.file}
+              renderer={activeRun.renderer}
+              onComplete={(result) => handleComplete(current, result)}
+            />
+            <div className="absolute top-4 left-4 bg-black/70 text-[#d4c5b0] text-sm px-3 py-2 rounded z-30 pointer-events-none">
+              Run {current + 1} of {queue.length}: {activeRun.renderer} · {fileName(activeRun.file)}
+            </div>
+          </>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center text-[#d4c5b0]/60">
+            {running ? 'Cooling down...' : 'Choose files and renderers, then run the benchmark'}
+          </div>
+        )}
+      </div>
+
+      {/* Controls and results */}
+      <div className="w-[28rem] bg-[#2a2622] border-l border-[#3d3530] p-4 overflow-y-auto flex-shrink-0 text-[#d4c5b0] text-sm">
+        <h3 className="text-[#8b6f47] font-semibold mb-2">Splat files (one per line)</h3>
+        <textarea
+          value={filesText}
+          onChange={(e) => setFilesText(e.target.value)}
+          disabled={running}
+          rows={4}
+          className="w-full px-3 py-2 bg-[#1f1c1a] border border-[#3d3530] rounded font-mono text-xs mb-4"
+        />
+
+        <h3 className="text-[#8b6f47] font-semibold mb-2">Renderers</h3>
+        <div className="flex flex-wrap gap-4 mb-4">
+          {SPLAT_RENDERERS.map(renderer => (
+            <label key={renderer} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={renderers.includes(renderer)}
+                onChange={() => toggleRenderer(renderer)}
+                disabled={running}
+              />
+              {renderer}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {running ? (
+            <button onClick={stop} className="flex-1 px-3 py-2 bg-red-800 hover:bg-red-700 text-white rounded">
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={files.length === 0 || renderers.length === 0}
+              className="flex-1 px-3 py-2 bg-[#8b6f47] hover:bg-[#a08759] disabled:bg-[#3d3530] text-white rounded"
+            >
+              Run {files.length * renderers.length} benchmark{files.length * renderers.length === 1 ? '' : 's'}
+            </button>
+          )}
+          <button
+            onClick={exportJson}
+            disabled={results.length === 0}
+            className="px-3 py-2 bg-[#3d3530] hover:bg-[#4d4540] disabled:opacity-40 rounded"
+          >
+            JSON
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={results.length === 0}
+            className="px-3 py-2 bg-[#3d3530] hover:bg-[#4d4540] disabled:opacity-40 rounded"
+          >
+            CSV
+          </button>
+        </div>
+
+        <h3 className="text-[#8b6f47] font-semibold mb-2">Results</h3>
+        {results.length === 0 ? (
+          <p className="text-[#d4c5b0]/60">No runs yet</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-[#d4c5b0]/60 text-left">
+              <tr>
+                <th className="pb-1">File</th>
+                <th className="pb-1">Renderer</th>
+                <th className="pb-1 text-right">1st frame</th>
+                <th className="pb-1 text-right">p50 / p95</th>
+                <th className="pb-1 text-right">Heap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => (
+                <tr key={i} className="border-t border-[#3d3530]">
+                  <td className="py-1 pr-2 truncate max-w-[8rem]" title={r.file}>{fileName(r.file)}</td>
+                  <td className="py-1 pr-2">{r.renderer}</td>
+                  {r.error ? (
+                    <td colSpan={3} className="py-1 text-red-400" title={r.error}>{r.error}</td>
+                  ) : (
+                    <>
+                      <td className="py-1 text-right">{r.first_frame_ms ?? '-'} ms</td>
+                      <td className="py-1 text-right">
+                        {r.frame_ms ? `${r.frame_ms.p50} / ${r.frame_ms.p95} ms` : '-'}
+                      </td>
+                      <td className="py-1 text-right">{r.heap_peak_mb !== null ? `${r.heap_peak_mb} MB` : 'n/a'}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-[#d4c5b0]/60 text-xs mt-4">
+          Heap figures need Chrome (performance.memory). Keep this tab in front while running;
+          background tabs throttle animation frames.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SplatViewer } from '../../splat/SplatViewer';
+import { SplatRenderer, SplatViewerHandle } from '../../splat/viewerTypes';
+import { BENCHMARK_PATH, BENCHMARK_START, BenchmarkResult, frameStats, heapMb } from './benchmark';
+
+interface BenchmarkRunProps {
+  file: string;
+  renderer: SplatRenderer;
+  onComplete: (result: BenchmarkResult) => void;
+}
+
+// Give up on a run that has not finished loading and flying by then
+const RUN_TIMEOUT_MS = 180_000;
+// Let the first frames after loading (shader compiles, sorting) pass before measuring
+const SETTLE_MS = 1000;
+
+interface Timings {
+  loadStart: number | null;
+  loaded: number | null;
+  firstFrame: number | null;
+  heapAfterLoad: number | null;
+}
+
+/**
+ * One benchmark run: loads the file in the renderer, waits for the first
+ * frame, flies BENCHMARK_PATH while sampling frame times and heap, then
+ * reports once. Mount with a new key for every run.
+ */
+export function BenchmarkRun({ file, renderer, onComplete }: BenchmarkRunProps) {
+  const viewerRef = useRef<SplatViewerHandle>(null);
+  const [flying, setFlying] = useState(false);
+  const startedAt = useRef(new Date().toISOString());
+  const timings = useRef<Timings>({ loadStart: null, loaded: null, firstFrame: null, heapAfterLoad: null });
+  const finished = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const finish = useCallback((partial: Partial<BenchmarkResult>) => {
+    if (finished.current) return;
+    finished.current = true;
+    const t = timings.current;
+    onCompleteRef.current({
+      file,
+      renderer,
+      started_at: startedAt.current,
+      load_ms: t.loadStart !== null && t.loaded !== null ? Math.round(t.loaded - t.loadStart) : null,
+      first_frame_ms: t.loadStart !== null && t.firstFrame !== null ? Math.round(t.firstFrame - t.loadStart) : null,
+      frames: 0,
+      frame_ms: null,
+      heap_after_load_mb: t.heapAfterLoad,
+      heap_peak_mb: t.heapAfterLoad,
+      viewport: `${window.innerWidth}x${window.innerHeight}@${window.devicePixelRatio}`,
+      user_agent: navigator.userAgent,
+      error: null,
+      ...partial
+    });
+  }, [file, renderer]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => finish({ error: `Timed out after ${RUN_TIMEOUT_MS / 1000}s` }), RUN_TIMEOUT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [finish]);
+
+  const handleLoad = () => {
+    timings.current.loaded = performance.now();
+    requestAnimationFrame(() => {
+      timings.current.firstFrame = performance.now();
+      timings.current.heapAfterLoad = heapMb();
+      window.setTimeout(() => setFlying(true), SETTLE_MS);
+    });
+  };
+
+  // Fly the path leg by leg while sampling every animation frame
+  useEffect(() => {
+    if (!flying) return;
+
+    const frameTimes: number[] = [];
+    let peak = timings.current.heapAfterLoad;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function sample(now) {
+      frameTimes.push(now - last);
+      last = now;
+      const heap = heapMb();
+      if (heap !== null) peak = Math.max(peak ?? 0, heap);
+      frame = requestAnimationFrame(sample);
+    });
+
+    let leg = 0;
+    let timer = 0;
+    const nextLeg = () => {
+      if (leg >= BENCHMARK_PATH.length) {
+        cancelAnimationFrame(frame);
+        finish({ frames: frameTimes.length, frame_ms: frameStats(frameTimes), heap_peak_mb: peak });
+        return;
+      }
+      const { pose, duration_ms } = BENCHMARK_PATH[leg++];
+      viewerRef.current?.setCamera(pose, duration_ms);
+      timer = window.setTimeout(nextLeg, duration_ms);
+    };
+    nextLeg();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearTimeout(timer);
+    };
+  }, [flying, finish]);
+
+  return (
+    <SplatViewer
+      ref={viewerRef}
+      renderer={renderer}
+      src={file}
+      initialCamera={BENCHMARK_START}
+      limits={null}
+      onLoadStart={() => {
+        timings.current.loadStart ??= performance.now();
+      }}
+      onLoad={handleLoad}
+      onError={(message) => finish({ error: message })}
+    />
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { SplatInspection, inspectSplat } from '../../splat/splatInspector';
+import { getDirectDownloadUrl } from '../../splat/urlUtils';
+
+interface FileInspectionProps {
+  url: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/** What the splat file's header says, shown above the comparison */
+export function FileInspection({ url }: FileInspectionProps) {
+  const [inspection, setInspection] = useState<SplatInspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setInspection(null);
+    setError(null);
+    inspectSplat(getDirectDownloadUrl(url), controller.signal)
+      .then(setInspection)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => controller.abort();
+  }, [url]);
+
+  if (error) {
+    return (
+      <div className="mt-4 p-3 bg-red-900/60 text-white text-sm rounded max-w-6xl mx-auto">
+        Could not inspect file: {error}
+      </div>
+    );
+  }
+
+  if (!inspection) {
+    return <div className="mt-4 text-[#d4c5b0]/60 text-sm max-w-6xl mx-auto">Inspecting file...</div>;
+  }
+
+  const { format, detected_from, size_bytes, splat_count, ply, warnings } = inspection;
+
+  return (
+    <div className="mt-4 p-3 bg-[#3d3530] rounded max-w-6xl mx-auto text-[#d4c5b0] text-sm">
+      <div className="flex flex-wrap gap-x-6 gap-y-1">
+        <span>
+          <strong>Format:</strong> {format ? format.toUpperCase() : 'unknown'}
+          {format && ` (from ${detected_from})`}
+        </span>
+        <span><strong>Size:</strong> {size_bytes !== null ? formatBytes(size_bytes) : 'unknown'}</span>
+        {splat_count !== null && (
+          <span><strong>Splats:</strong> {splat_count.toLocaleString()}</span>
+        )}
+        {ply && (
+          <>
+            <span><strong>SH degree:</strong> {ply.sh_degree ?? '?'}</span>
+            <span><strong>Encoding:</strong> {ply.encoding}{ply.compressed && ', compressed'}</span>
+          </>
+        )}
+      </div>
+      {ply && (
+        <p className="mt-2 text-xs text-[#d4c5b0]/70 font-mono break-words">
+          {ply.properties.join(' ')}
+        </p>
+      )}
+      {warnings.length > 0 && (
+        <ul className="mt-2 space-y-1 text-red-400 list-disc list-inside">
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { SplatViewer } from '../../splat/SplatViewer';
+import { CameraPose, SplatFormat, SplatRenderer } from '../../splat/viewerTypes';
+
+interface RendererPaneProps {
+  renderer: SplatRenderer;
+  url: string;
+  /** Forces a format; detected from the file header when unset */
+  format?: SplatFormat;
+  label: string;
+}
+
+const START_CAMERA: CameraPose = { position: [0, 2, 5], target: [0, 0, 0] };
+
+/**
+ * One side of the renderer comparison: a free-camera SplatViewer
+ * with its own loading and error overlays
+ */
+export function RendererPane({ renderer, url, format, label }: RendererPaneProps) {
+  const [progress, setProgress] = useState<number | null>(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [detected, setDetected] = useState<SplatFormat | null>(null);
+  const shownFormat = format ?? detected;
+
+  return (
+    <div className="w-full h-full relative">
+      <SplatViewer
+        renderer={renderer}
+        src={url}
+        format={format}
+        initialCamera={START_CAMERA}
+        limits={null}
+        clearColor="#1f1c1a"
+        onInspect={(inspection) => setDetected(inspection.format)}
+        onLoadStart={() => {
+          setProgress(0);
+          setLoadError(null);
+        }}
+        onProgress={setProgress}
+        onLoad={() => setProgress(null)}
+        onError={(message) => {
+          setProgress(null);
+          setLoadError(message);
+        }}
+      />
+
+      {progress !== null && (
+        <div className="absolute inset-0 flex items-center justify-center bg-[#1f1c1a] z-20 pointer-events-none">
+          <div className="text-[#d4c5b0] text-center">
+            <div className="animate-spin w-8 h-8 border-4 border-[#8b6f47] border-t-transparent rounded-full mx-auto mb-3" />
+            <p>Loading splat... {Math.round(progress * 100)}%</p>
+          </div>
+        </div>
+      )}
+
+      {loadError && (
+        <div className="absolute top-4 left-4 right-4 bg-red-900/90 text-white p-4 rounded z-30">
+          <p className="font-semibold">{label} Error:</p>
+          <p className="text-sm mt-1">{loadError}</p>
+        </div>
+      )}
+
+      {/* Info overlay */}
+      <div className="absolute bottom-4 left-4 bg-black/70 text-[#d4c5b0] text-xs p-3 rounded z-10 pointer-events-none">
+        <p><strong>{label}</strong></p>
+        <p>
+          Format: {shownFormat ? shownFormat.toUpperCase() : '...'}
+          {!format && shownFormat && ' (detected)'}
+        </p>
+        <p className="mt-2">
+          Drag to rotate<br />
+          Scroll to zoom
+        </p>
+      </div>
+    </div>
+  );
+}
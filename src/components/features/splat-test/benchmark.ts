@@ -0,0 +1,119 @@
+/**
+ * Renderer benchmark: scripted camera path, frame statistics and reports
+ *
+ * Each run loads one splat file in one renderer, alone on screen, then
+ * flies the same path so results compare across renderers and exports.
+ */
+
+import { viewpoints } from '../../../data/viewpoints';
+import { CameraPose, SplatRenderer } from '../../splat/viewerTypes';
+
+export interface PathLeg {
+  pose: CameraPose;
+  duration_ms: number;
+}
+
+// Bundled viewpoints only, so every kiosk flies the same path
+const byId = (id: string): CameraPose => {
+  const viewpoint = viewpoints.find(v => v.id === id);
+  if (!viewpoint) throw new Error(`Benchmark viewpoint "${id}" is missing`);
+  return viewpoint;
+};
+
+export const BENCHMARK_START = byId('overview');
+
+export const BENCHMARK_PATH: PathLeg[] = [
+  { pose: byId('walkway'), duration_ms: 3000 },
+  { pose: byId('engines'), duration_ms: 3000 },
+  { pose: byId('overview'), duration_ms: 3000 }
+];
+
+export const BENCHMARK_FILES = ['/splats/export_10000.ply', '/splats/export_30000.ply'];
+
+export interface FrameStats {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean_fps: number;
+}
+
+export interface BenchmarkResult {
+  file: string;
+  renderer: SplatRenderer;
+  started_at: string;
+  /** Load start to the renderer reporting the splat ready */
+  load_ms: number | null;
+  /** Load start to the first frame drawn after that */
+  first_frame_ms: number | null;
+  frames: number;
+  frame_ms: FrameStats | null;
+  /** Chrome only (performance.memory); null elsewhere */
+  heap_after_load_mb: number | null;
+  heap_peak_mb: number | null;
+  viewport: string;
+  user_agent: string;
+  error: string | null;
+}
+
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals));
+
+/** Nearest-rank percentile of an ascending list */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export function frameStats(frameTimes: number[]): FrameStats | null {
+  if (frameTimes.length === 0) return null;
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, t) => sum + t, 0);
+  return {
+    p50: round(percentile(sorted, 50)),
+    p90: round(percentile(sorted, 90)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+    max: round(sorted[sorted.length - 1]),
+    mean_fps: round((1000 * sorted.length) / total, 1)
+  };
+}
+
+/** Used JS heap in MB, where the browser exposes it */
+export function heapMb(): number | null {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? round(memory.usedJSHeapSize / (1024 * 1024), 1) : null;
+}
+
+const CSV_COLUMNS = [
+  'file', 'renderer', 'started_at', 'load_ms', 'first_frame_ms', 'frames',
+  'frame_p50_ms', 'frame_p90_ms', 'frame_p95_ms', 'frame_p99_ms', 'frame_max_ms', 'mean_fps',
+  'heap_after_load_mb', 'heap_peak_mb', 'viewport', 'user_agent', 'error'
+];
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function resultsToCsv(results: BenchmarkResult[]): string {
+  const rows = results.map(r => [
+    r.file, r.renderer, r.started_at, r.load_ms, r.first_frame_ms, r.frames,
+    r.frame_ms?.p50 ?? null, r.frame_ms?.p90 ?? null, r.frame_ms?.p95 ?? null,
+    r.frame_ms?.p99 ?? null, r.frame_ms?.max ?? null, r.frame_ms?.mean_fps ?? null,
+    r.heap_after_load_mb, r.heap_peak_mb, r.viewport, r.user_agent, r.error
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function downloadReport(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import { useContent } from '../../hooks/useContent'
+import { ui } from '../../i18n/strings'
+import { PumpRoomImage } from '../shared/PumpRoomImage'
+
+// How long each equipment highlight stays up
+const HIGHLIGHT_MS = 4000
+
+/**
+ * Full-screen loop shown while nobody is using the kiosk:
+ * cycles through the equipment hotspots with both languages on screen
+ */
+export function AttractLoop() {
+  const { equipment, master_image_url } = useContent()
+  const [index, setIndex] = useState(0)
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setIndex(i => i + 1), HIGHLIGHT_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const current = equipment.length > 0 ? equipment[index % equipment.length] : undefined
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-museum-dark flex flex-col">
+      <div className="flex-1 relative m-8">
+        <PumpRoomImage
+          imageUrl={master_image_url}
+          equipment={current ? [current] : []}
+          highlightedIds={current ? [current.id] : []}
+          showLabels={false}
+        />
+      </div>
+
+      <div className="text-center pb-10 text-museum-stone">
+        {current && (
+          <p className="text-kiosk-xl font-display mb-2">
+            {current.name.en} · {current.name.fr}
+          </p>
+        )}
+        <p className="text-kiosk-lg text-museum-highlight hotspot-pulse">
+          {ui.touchToBegin.en} · {ui.touchToBegin.fr}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { useIdleTimer } from '../../hooks/useIdleTimer'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { useKioskStore } from '../../stores/kioskStore'
+import { AttractLoop } from './AttractLoop'
+
+const WARNING_MS = 15_000
+
+/**
+ * Watches for inactivity, asks "Still there?", then resets the session
+ * and runs the attract loop until the next touch
+ */
+export function IdleManager() {
+  const { t } = useLanguage()
+  const idleTimeoutMs = useKioskStore(state => state.idle_timeout_ms)
+  const recordInteraction = useKioskStore(state => state.recordInteraction)
+  const resetSession = useKioskStore(state => state.resetSession)
+
+  const { phase, secondsLeft, wake } = useIdleTimer({
+    idleTimeoutMs,
+    warningMs: WARNING_MS,
+    onTimeout: resetSession,
+    onInteraction: recordInteraction
+  })
+
+  if (phase === 'attract') {
+    return <AttractLoop />
+  }
+
+  if (phase === 'warning') {
+    return (
+      <div className="absolute inset-0 z-[60] bg-museum-dark/70 flex items-center justify-center">
+        <div className="bg-museum-stone rounded-lg px-16 py-12 text-center shadow-2xl">
+          <h2 className="text-kiosk-2xl font-display text-museum-dark mb-4">
+            {t(ui.stillThere)}
+          </h2>
+          <p className="text-kiosk-base text-museum-accent mb-8">
+            {t(ui.idleCountdown)} {secondsLeft}
+          </p>
+          <button
+            onClick={wake}
+            className="px-8 py-4 bg-museum-highlight text-museum-dark rounded-full text-kiosk-base font-semibold touch-target"
+          >
+            {t(ui.stillHere)}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -1,16 +1,40 @@
-import { ReactNode } from 'react'
+import { ReactNode, useEffect, useRef, useState } from 'react'
 import { LanguageToggle } from '../shared/LanguageToggle'
+import { UnitToggle } from '../shared/UnitToggle'
+import { AdminPanel } from '../staff/AdminPanel'
+import { useCornerLongPress } from '../../hooks/useCornerLongPress'
+import { useKioskStore } from '../../stores/kioskStore'
+
+// Hold this long in the bottom-left corner to open the staff admin panel
+const ADMIN_PRESS_MS = 3_000
+const ADMIN_CORNER_PX = 80
 
 interface KioskShellProps {
   children: ReactNode
 }
 
 export function KioskShell({ children }: KioskShellProps) {
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [adminOpen, setAdminOpen] = useState(false)
+  const sessionId = useKioskStore(state => state.session_id)
+
+  useCornerLongPress(frameRef, {
+    size: ADMIN_CORNER_PX,
+    durationMs: ADMIN_PRESS_MS,
+    onLongPress: () => setAdminOpen(true)
+  })
+
+  // An idle reset locks the panel again
+  useEffect(() => {
+    setAdminOpen(false)
+  }, [sessionId])
+
   return (
     <div className="w-screen h-screen bg-museum-stone overflow-hidden">
       {/* Fixed aspect ratio container for 4:3 iPad display */}
       <div className="w-full h-full flex items-center justify-center bg-museum-dark">
         <div 
+          ref={frameRef}
           className="relative bg-museum-stone overflow-hidden"
           style={{
             aspectRatio: '4 / 3',
@@ -20,8 +44,9 @@ export function KioskShell({ children }: KioskShellProps) {
             height: '100%'
           }}
         >
-          {/* Language toggle - always visible */}
-          <div className="absolute top-4 right-4 z-50">
+          {/* Language and unit toggles - always visible */}
+          <div className="absolute top-4 right-4 z-50 flex gap-2">
+            <UnitToggle />
             <LanguageToggle />
           </div>
           
@@ -29,6 +54,8 @@ export function KioskShell({ children }: KioskShellProps) {
           <div className="w-full h-full">
             {children}
           </div>
+
+          {adminOpen && <AdminPanel onClose={() => setAdminOpen(false)} />}
         </div>
       </div>
     </div>
@@ -0,0 +1,124 @@
+import { useMemo } from 'react'
+import { Equipment } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { useUnits } from '../../i18n/units'
+import { useContent } from '../../hooks/useContent'
+import { MediaCarousel } from './MediaCarousel'
+import { CATEGORY_COLORS } from './HotspotOverlay'
+
+interface EquipmentDetailPanelProps {
+  equipment: Equipment
+  onClose: () => void
+  onSelectEquipment: (id: string) => void
+}
+
+export function EquipmentDetailPanel({ equipment, onClose, onSelectEquipment }: EquipmentDetailPanelProps) {
+  const { t } = useLanguage()
+  const { format } = useUnits()
+  const content = useContent()
+
+  const media = useMemo(
+    () => [...(equipment.images ?? []), ...(equipment.engineering_drawings ?? [])],
+    [equipment]
+  )
+
+  // Skip ids that no longer resolve (e.g. equipment removed from Supabase)
+  const related = (equipment.related_equipment_ids ?? [])
+    .map(id => content.equipment.find(e => e.id === id))
+    .filter((e): e is Equipment => e !== undefined)
+
+  const specifications = (equipment.specifications ?? []).map(spec =>
+    `${t(spec.label)}: ${'quantity' in spec ? format(spec.quantity) : t(spec.text)}`
+  )
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-1/2 bg-museum-stone shadow-2xl flex flex-col z-40">
+      {/* Header */}
+      <div
+        className="flex items-start justify-between gap-4 px-8 py-6 border-l-8"
+        style={{ borderColor: CATEGORY_COLORS[equipment.color_category] }}
+      >
+        <h2 className="text-kiosk-xl font-display text-museum-dark">
+          {t(equipment.name)}
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-6 py-3 bg-museum-dark/80 text-museum-stone rounded-full text-kiosk-base font-semibold hover:bg-museum-dark transition-colors touch-target flex-shrink-0"
+        >
+          {t(ui.close)}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-6">
+        <p className="text-kiosk-base text-museum-dark">
+          {t(equipment.description)}
+        </p>
+
+        {media.length > 0 && <MediaCarousel items={media} />}
+
+        <section>
+          <h3 className="text-kiosk-lg font-display text-museum-accent mb-2">
+            {t(ui.function)}
+          </h3>
+          <p className="text-kiosk-base text-museum-dark">
+            {t(equipment.function)}
+          </p>
+        </section>
+
+        {specifications.length > 0 && (
+          <section>
+            <h3 className="text-kiosk-lg font-display text-museum-accent mb-2">
+              {t(ui.specifications)}
+            </h3>
+            <ul className="space-y-1 text-kiosk-base text-museum-dark">
+              {specifications.map((spec) => (
+                <li key={spec}>{spec}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {(equipment.year_installed || equipment.manufacturer) && (
+          <dl className="grid grid-cols-2 gap-4">
+            {equipment.year_installed && (
+              <div>
+                <dt className="text-kiosk-sm text-museum-accent">{t(ui.yearInstalled)}</dt>
+                <dd className="text-kiosk-lg text-museum-dark">{equipment.year_installed}</dd>
+              </div>
+            )}
+            {equipment.manufacturer && (
+              <div>
+                <dt className="text-kiosk-sm text-museum-accent">{t(ui.manufacturer)}</dt>
+                <dd className="text-kiosk-lg text-museum-dark">{equipment.manufacturer}</dd>
+              </div>
+            )}
+          </dl>
+        )}
+
+        {related.length > 0 && (
+          <section>
+            <h3 className="text-kiosk-lg font-display text-museum-accent mb-2">
+              {t(ui.relatedEquipment)}
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {related.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => onSelectEquipment(item.id)}
+                  className="flex items-center gap-2 px-4 py-2 bg-museum-warm hover:bg-museum-highlight rounded-full text-kiosk-sm text-museum-dark transition-colors touch-target"
+                >
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: CATEGORY_COLORS[item.color_category] }}
+                  />
+                  {t(item.name)}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import { MouseEvent } from 'react'
+import { Equipment } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { MASTER_IMAGE_ASPECT, findHotspotAt, hotspotCenter } from './hotspotGeometry'
+
+// Mirrors the `equipment` colours in tailwind.config.js
+export const CATEGORY_COLORS: Record<Equipment['color_category'], string> = {
+  pump: '#2d5a3d',
+  steam: '#c44536',
+  discharge: '#d4a84b',
+  water: '#4a7c9b',
+  auxiliary: '#8b7355'
+}
+
+interface HotspotOverlayProps {
+  equipment: Equipment[]
+  onSelect?: (item: Equipment) => void
+  selectedId?: string | null
+  highlightedIds?: string[]
+  showLabels?: boolean
+}
+
+/**
+ * Draws equipment hotspots over the master image and hit-tests taps.
+ * Fills its positioned parent, which must have the master image's aspect ratio.
+ */
+export function HotspotOverlay({
+  equipment,
+  onSelect,
+  selectedId = null,
+  highlightedIds = [],
+  showLabels = true
+}: HotspotOverlayProps) {
+  const { t } = useLanguage()
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (!onSelect) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const point = {
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
+    }
+    const hit = findHotspotAt(equipment, point, rect.width / rect.height)
+    if (hit) onSelect(hit)
+  }
+
+  return (
+    <div className="absolute inset-0" onClick={handleClick}>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {equipment.map((item) => {
+          const { coordinates, pulse_animation } = item.hotspot
+          const active = item.id === selectedId || highlightedIds.includes(item.id)
+          const color = CATEGORY_COLORS[item.color_category]
+          const shapeProps = {
+            fill: color,
+            fillOpacity: active ? 0.5 : 0.2,
+            stroke: active ? '#c4a574' : color,
+            strokeWidth: active ? 4 : 2,
+            vectorEffect: 'non-scaling-stroke' as const,
+            className: pulse_animation && !active ? 'hotspot-pulse' : undefined
+          }
+
+          switch (coordinates.type) {
+            case 'circle':
+              return (
+                <ellipse
+                  key={item.id}
+                  cx={coordinates.center_x}
+                  cy={coordinates.center_y}
+                  rx={coordinates.radius}
+                  ry={coordinates.radius * MASTER_IMAGE_ASPECT}
+                  {...shapeProps}
+                />
+              )
+            case 'rectangle':
+              return (
+                <rect
+                  key={item.id}
+                  x={coordinates.x}
+                  y={coordinates.y}
+                  width={coordinates.width}
+                  height={coordinates.height}
+                  {...shapeProps}
+                />
+              )
+            case 'polygon':
+              return (
+                <polygon
+                  key={item.id}
+                  points={coordinates.points.map(p => `${p.x},${p.y}`).join(' ')}
+                  {...shapeProps}
+                />
+              )
+          }
+        })}
+      </svg>
+
+      {/* Labels are HTML so text isn't stretched by the SVG's non-uniform scale */}
+      {showLabels && equipment.map((item) => {
+        if (!item.hotspot.label) return null
+        const center = hotspotCenter(item.hotspot.coordinates)
+        return (
+          <div
+            key={item.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 px-3 py-1 bg-museum-dark/80 text-museum-stone rounded-full text-kiosk-sm whitespace-nowrap pointer-events-none"
+            style={{ left: `${center.x}%`, top: `${center.y}%` }}
+          >
+            {t(item.hotspot.label)}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
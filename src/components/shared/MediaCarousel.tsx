@@ -0,0 +1,108 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react'
+import { MediaItem } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+
+interface MediaCarouselProps {
+  items: MediaItem[]
+}
+
+// Horizontal drag distance (px) that counts as a swipe
+const SWIPE_THRESHOLD = 50
+
+export function MediaCarousel({ items }: MediaCarouselProps) {
+  const { t } = useLanguage()
+  const [index, setIndex] = useState(0)
+  const [dragX, setDragX] = useState(0)
+  const dragStart = useRef<number | null>(null)
+
+  // Start from the first slide when the item set changes
+  useEffect(() => {
+    setIndex(0)
+  }, [items])
+
+  if (items.length === 0) return null
+
+  const current = items[Math.min(index, items.length - 1)]
+  const goTo = (i: number) => setIndex((i + items.length) % items.length)
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    dragStart.current = e.clientX
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragStart.current !== null) {
+      setDragX(e.clientX - dragStart.current)
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (dragX <= -SWIPE_THRESHOLD) goTo(index + 1)
+    else if (dragX >= SWIPE_THRESHOLD) goTo(index - 1)
+    dragStart.current = null
+    setDragX(0)
+  }
+
+  const credits = [current.year, current.source && `${t(ui.source)}: ${current.source}`]
+    .filter(Boolean)
+    .join(' · ')
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        className="relative aspect-kiosk bg-museum-warm rounded-lg overflow-hidden touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img
+          key={current.id}
+          src={current.url}
+          alt={t(current.caption)}
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{
+            transform: `translateX(${dragX}px)`,
+            transition: dragStart.current === null ? 'transform 200ms' : undefined
+          }}
+        />
+      </div>
+
+      <div>
+        <p className="text-kiosk-base text-museum-dark">{t(current.caption)}</p>
+        {credits && (
+          <p className="text-kiosk-sm text-museum-accent">{credits}</p>
+        )}
+      </div>
+
+      {items.length > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => goTo(index - 1)}
+            className="px-4 py-2 bg-museum-warm rounded-full text-kiosk-sm text-museum-dark touch-target"
+          >
+            {t(ui.previous)}
+          </button>
+          <div className="flex gap-2">
+            {items.map((item, i) => (
+              <button
+                key={item.id}
+                onClick={() => goTo(i)}
+                aria-label={t(item.caption)}
+                className={`w-3 h-3 rounded-full ${i === index ? 'bg-museum-dark' : 'bg-museum-accent/40'}`}
+              />
+            ))}
+          </div>
+          <button
+            onClick={() => goTo(index + 1)}
+            className="px-4 py-2 bg-museum-warm rounded-full text-kiosk-sm text-museum-dark touch-target"
+          >
+            {t(ui.next)}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { ReactNode, useEffect, useRef, useState } from 'react'
+import { Equipment } from '../../data/types'
+import { useContainedSize } from '../../hooks/useContainedSize'
+import { HotspotOverlay } from './HotspotOverlay'
+import { MASTER_IMAGE_ASPECT } from './hotspotGeometry'
+
+interface PumpRoomImageProps {
+  imageUrl: string
+  equipment: Equipment[]
+  onSelectEquipment?: (item: Equipment) => void
+  selectedId?: string | null
+  highlightedIds?: string[]
+  showLabels?: boolean
+  /** Extra layers drawn between the image and the hotspots */
+  children?: ReactNode
+}
+
+/**
+ * The pump room master image letterboxed to its native aspect ratio,
+ * with the hotspot overlay on top
+ */
+export function PumpRoomImage({
+  imageUrl,
+  equipment,
+  onSelectEquipment,
+  selectedId,
+  highlightedIds,
+  showLabels,
+  children
+}: PumpRoomImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { width, height } = useContainedSize(containerRef, MASTER_IMAGE_ASPECT)
+  const [imageFailed, setImageFailed] = useState(false)
+
+  useEffect(() => {
+    setImageFailed(false)
+  }, [imageUrl])
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 flex items-center justify-center">
+      <div className="relative rounded-lg overflow-hidden bg-museum-warm" style={{ width, height }}>
+        {imageFailed ? (
+          <div className="absolute inset-0 flex items-center justify-center text-museum-accent text-kiosk-lg">
+            [Pump Room Image - 2732x2048]
+          </div>
+        ) : (
+          <img
+            src={imageUrl}
+            alt=""
+            draggable={false}
+            onError={() => setImageFailed(true)}
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        )}
+
+        {children}
+
+        <HotspotOverlay
+          equipment={equipment}
+          onSelect={onSelectEquipment}
+          selectedId={selectedId}
+          highlightedIds={highlightedIds}
+          showLabels={showLabels}
+        />
+      </div>
+    </div>
+  )
+}
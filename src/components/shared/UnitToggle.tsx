@@ -0,0 +1,33 @@
+import { BilingualText, UnitSystem } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { useUnits } from '../../i18n/units'
+
+const OPTIONS: Array<{ units: UnitSystem; label: BilingualText }> = [
+  { units: 'imperial', label: ui.unitsImperial },
+  { units: 'metric', label: ui.unitsMetric },
+  { units: 'both', label: ui.unitsBoth }
+]
+
+export function UnitToggle() {
+  const { t } = useLanguage()
+  const { units, setUnits } = useUnits()
+
+  return (
+    <div className="flex bg-museum-dark/80 rounded-full p-1">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.units}
+          onClick={() => setUnits(option.units)}
+          className={`px-4 py-2 rounded-full text-kiosk-sm font-semibold transition-colors touch-target ${
+            units === option.units
+              ? 'bg-museum-highlight text-museum-dark'
+              : 'text-museum-stone hover:text-museum-highlight'
+          }`}
+        >
+          {t(option.label)}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { Equipment, HotspotCoordinates } from '../../data/types'
+import { findHotspotAt, hitTestHotspot, hotspotArea, pointInPolygon } from './hotspotGeometry'
+
+const square = [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }, { x: 10, y: 20 }]
+
+// An L: the top-right quarter of the 10..30 square is cut away
+const ell = [
+  { x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 },
+  { x: 30, y: 20 }, { x: 30, y: 30 }, { x: 10, y: 30 }
+]
+
+function makeEquipment(id: string, coordinates: HotspotCoordinates): Equipment {
+  return {
+    id,
+    name: { en: id, fr: id },
+    description: { en: '', fr: '' },
+    function: { en: '', fr: '' },
+    color_category: 'pump',
+    hotspot: { id: `hs-${id}`, shape: coordinates.type, coordinates }
+  }
+}
+
+describe('pointInPolygon', () => {
+  it('finds points inside and outside', () => {
+    expect(pointInPolygon({ x: 15, y: 15 }, square)).toBe(true)
+    expect(pointInPolygon({ x: 25, y: 15 }, square)).toBe(false)
+    expect(pointInPolygon({ x: 15, y: 5 }, square)).toBe(false)
+  })
+
+  it('counts edges and corners as inside', () => {
+    expect(pointInPolygon({ x: 20, y: 15 }, square)).toBe(true)
+    expect(pointInPolygon({ x: 15, y: 10 }, square)).toBe(true)
+    expect(pointInPolygon({ x: 10, y: 10 }, square)).toBe(true)
+  })
+
+  it('leaves out the notch of a concave shape', () => {
+    expect(pointInPolygon({ x: 25, y: 15 }, ell)).toBe(false)
+    expect(pointInPolygon({ x: 25, y: 25 }, ell)).toBe(true)
+    expect(pointInPolygon({ x: 15, y: 25 }, ell)).toBe(true)
+  })
+})
+
+describe('hitTestHotspot', () => {
+  it('tests circles in width percent, stretched vertically by the aspect', () => {
+    const circle: HotspotCoordinates = { type: 'circle', center_x: 50, center_y: 50, radius: 5 }
+    expect(hitTestHotspot(circle, { x: 50, y: 50 }, 2)).toBe(true)
+    expect(hitTestHotspot(circle, { x: 55, y: 50 }, 2)).toBe(true)
+    expect(hitTestHotspot(circle, { x: 56, y: 50 }, 2)).toBe(false)
+    // 10% of the height is 5% of the width at aspect 2
+    expect(hitTestHotspot(circle, { x: 50, y: 60 }, 2)).toBe(true)
+    expect(hitTestHotspot(circle, { x: 50, y: 61 }, 2)).toBe(false)
+  })
+
+  it('tests rectangles including their edges', () => {
+    const rectangle: HotspotCoordinates = { type: 'rectangle', x: 10, y: 10, width: 10, height: 5 }
+    expect(hitTestHotspot(rectangle, { x: 15, y: 12 })).toBe(true)
+    expect(hitTestHotspot(rectangle, { x: 20, y: 15 })).toBe(true)
+    expect(hitTestHotspot(rectangle, { x: 15, y: 16 })).toBe(false)
+    expect(hitTestHotspot(rectangle, { x: 9, y: 12 })).toBe(false)
+  })
+
+  it('tests polygons and ignores ones with fewer than three points', () => {
+    expect(hitTestHotspot({ type: 'polygon', points: square }, { x: 15, y: 15 })).toBe(true)
+    expect(hitTestHotspot({ type: 'polygon', points: square }, { x: 10, y: 15 })).toBe(true)
+    expect(hitTestHotspot({ type: 'polygon', points: square }, { x: 21, y: 15 })).toBe(false)
+    expect(hitTestHotspot({ type: 'polygon', points: square.slice(0, 2) }, { x: 15, y: 10 })).toBe(false)
+  })
+})
+
+describe('hotspotArea', () => {
+  it('measures each shape in percent squared', () => {
+    expect(hotspotArea({ type: 'rectangle', x: 0, y: 0, width: 10, height: 5 })).toBe(50)
+    expect(hotspotArea({ type: 'polygon', points: ell })).toBe(300)
+    expect(hotspotArea({ type: 'circle', center_x: 50, center_y: 50, radius: 2 }, 2)).toBeCloseTo(8 * Math.PI)
+  })
+})
+
+describe('findHotspotAt', () => {
+  const room = makeEquipment('room', { type: 'rectangle', x: 0, y: 0, width: 50, height: 50 })
+  const valve = makeEquipment('valve', { type: 'circle', center_x: 20, center_y: 20, radius: 2 })
+  const pipe = makeEquipment('pipe', { type: 'polygon', points: square })
+
+  it('returns the only hotspot under the point', () => {
+    expect(findHotspotAt([room, valve, pipe], { x: 40, y: 40 })?.id).toBe('room')
+  })
+
+  it('prefers the smallest of overlapping hotspots, whatever the order', () => {
+    expect(findHotspotAt([room, pipe], { x: 15, y: 15 })?.id).toBe('pipe')
+    expect(findHotspotAt([room, valve, pipe], { x: 20, y: 20 })?.id).toBe('valve')
+    expect(findHotspotAt([valve, pipe, room], { x: 20, y: 20 })?.id).toBe('valve')
+  })
+
+  it('keeps the first of equally sized hotspots', () => {
+    const twin = makeEquipment('twin', { type: 'polygon', points: square })
+    expect(findHotspotAt([pipe, twin], { x: 15, y: 15 })?.id).toBe('pipe')
+  })
+
+  it('returns undefined off every hotspot', () => {
+    expect(findHotspotAt([room, valve, pipe], { x: 80, y: 80 })).toBeUndefined()
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Hit-testing and layout helpers for hotspot shapes
+ *
+ * All coordinates are percentages of the master image: x of its width,
+ * y of its height. Circle radii are a percentage of the width, so on a
+ * non-square image they stay round.
+ */
+
+import { Equipment, HotspotCoordinates } from '../../data/types'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Pump room master image is 2732×2048
+export const MASTER_IMAGE_ASPECT = 2732 / 2048
+
+/** Ray casting; points on an edge count as inside */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+
+    if (onSegment(point, a, b)) return true
+
+    if ((a.y > point.y) !== (b.y > point.y)) {
+      const crossX = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x)
+      if (point.x < crossX) inside = !inside
+    }
+  }
+
+  return inside
+}
+
+function onSegment(p: Point, a: Point, b: Point): boolean {
+  const cross = (p.y - a.y) * (b.x - a.x) - (p.x - a.x) * (b.y - a.y)
+  if (Math.abs(cross) > 1e-9) return false
+  return (
+    p.x >= Math.min(a.x, b.x) && p.x <= Math.max(a.x, b.x) &&
+    p.y >= Math.min(a.y, b.y) && p.y <= Math.max(a.y, b.y)
+  )
+}
+
+export function hitTestHotspot(
+  coords: HotspotCoordinates,
+  point: Point,
+  aspect = MASTER_IMAGE_ASPECT
+): boolean {
+  switch (coords.type) {
+    case 'circle': {
+      // Convert the vertical offset into width-percent units
+      const dx = point.x - coords.center_x
+      const dy = (point.y - coords.center_y) / aspect
+      return dx * dx + dy * dy <= coords.radius * coords.radius
+    }
+    case 'rectangle':
+      return (
+        point.x >= coords.x && point.x <= coords.x + coords.width &&
+        point.y >= coords.y && point.y <= coords.y + coords.height
+      )
+    case 'polygon':
+      return coords.points.length >= 3 && pointInPolygon(point, coords.points)
+  }
+}
+
+/** Area in percent² of the image (shoelace formula for polygons) */
+export function hotspotArea(coords: HotspotCoordinates, aspect = MASTER_IMAGE_ASPECT): number {
+  switch (coords.type) {
+    case 'circle':
+      return Math.PI * coords.radius * coords.radius * aspect
+    case 'rectangle':
+      return coords.width * coords.height
+    case 'polygon': {
+      let sum = 0
+      const pts = coords.points
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        sum += (pts[j].x + pts[i].x) * (pts[j].y - pts[i].y)
+      }
+      return Math.abs(sum) / 2
+    }
+  }
+}
+
+/** Axis-aligned bounds in percent units */
+export function hotspotBounds(
+  coords: HotspotCoordinates,
+  aspect = MASTER_IMAGE_ASPECT
+): { x: number; y: number; width: number; height: number } {
+  switch (coords.type) {
+    case 'circle': {
+      const ry = coords.radius * aspect
+      return {
+        x: coords.center_x - coords.radius,
+        y: coords.center_y - ry,
+        width: coords.radius * 2,
+        height: ry * 2
+      }
+    }
+    case 'rectangle':
+      return { x: coords.x, y: coords.y, width: coords.width, height: coords.height }
+    case 'polygon': {
+      const xs = coords.points.map(p => p.x)
+      const ys = coords.points.map(p => p.y)
+      const minX = Math.min(...xs)
+      const minY = Math.min(...ys)
+      return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY }
+    }
+  }
+}
+
+/** Where to anchor a label: centre of the shape's bounds */
+export function hotspotCenter(coords: HotspotCoordinates, aspect = MASTER_IMAGE_ASPECT): Point {
+  const b = hotspotBounds(coords, aspect)
+  return { x: b.x + b.width / 2, y: b.y + b.height / 2 }
+}
+
+/**
+ * Equipment under a point. Where hotspots overlap, the smallest shape wins
+ * so small items drawn on top of large ones stay reachable.
+ */
+export function findHotspotAt(
+  items: Equipment[],
+  point: Point,
+  aspect = MASTER_IMAGE_ASPECT
+): Equipment | undefined {
+  let best: Equipment | undefined
+  let bestArea = Infinity
+
+  for (const item of items) {
+    if (!hitTestHotspot(item.hotspot.coordinates, point, aspect)) continue
+    const area = hotspotArea(item.hotspot.coordinates, aspect)
+    if (area < bestArea) {
+      best = item
+      bestArea = area
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,97 @@
+import { PointerEvent, ReactNode, useEffect, useRef, useState } from 'react'
+import { Equipment } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { CATEGORY_COLORS } from '../shared/HotspotOverlay'
+import { ANCHORS_PROJECTED_EVENT, ProjectedAnchor, pickAnchor } from './anchorProjection'
+
+interface AnchorLayerProps {
+  equipment: Equipment[]
+  onSelect: (item: Equipment) => void
+  selectedId?: string | null
+  showLabels?: boolean
+  /** The renderer; its canvas must fill this layer */
+  children: ReactNode
+}
+
+// Pointer travel (px) and duration (ms) under which a press is a tap, not an orbit
+const TAP_SLOP_PX = 8
+const TAP_MAX_MS = 400
+
+/**
+ * Screen-space markers that follow equipment anchors in the splat scene.
+ * Taps near a marker select its equipment; drags pass through to the camera controls.
+ */
+export function AnchorLayer({
+  equipment,
+  onSelect,
+  selectedId = null,
+  showLabels = true,
+  children
+}: AnchorLayerProps) {
+  const { t } = useLanguage()
+  const [anchors, setAnchors] = useState<ProjectedAnchor[]>([])
+  const layerRef = useRef<HTMLDivElement>(null)
+  const press = useRef<{ x: number; y: number; at: number } | null>(null)
+
+  useEffect(() => {
+    const handler = (e: CustomEvent<ProjectedAnchor[]>) => setAnchors(e.detail)
+    window.addEventListener(ANCHORS_PROJECTED_EVENT, handler as EventListener)
+    return () => window.removeEventListener(ANCHORS_PROJECTED_EVENT, handler as EventListener)
+  }, [])
+
+  // Capture phase: watch presses without taking them from the canvas
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    press.current = { x: e.clientX, y: e.clientY, at: e.timeStamp }
+  }
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    const start = press.current
+    press.current = null
+    if (!start || !layerRef.current) return
+    if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > TAP_SLOP_PX) return
+    if (e.timeStamp - start.at > TAP_MAX_MS) return
+
+    const rect = layerRef.current.getBoundingClientRect()
+    const hit = pickAnchor(anchors, e.clientX - rect.left, e.clientY - rect.top)
+    const item = hit && equipment.find(eq => eq.id === hit.equipment_id)
+    if (item) onSelect(item)
+  }
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0"
+      onPointerDownCapture={handlePointerDown}
+      onPointerUpCapture={handlePointerUp}
+    >
+      {children}
+
+      <div className="absolute inset-0 pointer-events-none overflow-hidden">
+        {anchors.filter(a => a.visible).map((anchor) => {
+          const item = equipment.find(eq => eq.id === anchor.equipment_id)
+          if (!item) return null
+          const selected = item.id === selectedId
+          return (
+            <div
+              key={anchor.equipment_id}
+              className="absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center gap-1"
+              style={{ left: anchor.x, top: anchor.y }}
+            >
+              <span
+                className={`block rounded-full border-2 ${
+                  selected ? 'w-6 h-6 border-museum-highlight' : 'w-4 h-4 border-white hotspot-pulse'
+                }`}
+                style={{ backgroundColor: CATEGORY_COLORS[item.color_category] }}
+              />
+              {(showLabels || selected) && (
+                <span className="px-3 py-1 bg-museum-dark/80 text-museum-stone rounded-full text-kiosk-sm whitespace-nowrap">
+                  {t(item.name)}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { Entity, Vec3 } from 'playcanvas'
+import { useApp, useAppEvent } from '@playcanvas/react/hooks'
+import { Equipment } from '../../data/types'
+import { dispatchAnchors, focalLength, projectAnchors } from './anchorProjection'
+
+interface AnchorProjectorProps {
+  equipment: Equipment[]
+  /** Name of the entity carrying the Camera component */
+  cameraName?: string
+}
+
+// Scratch vectors, reused every frame
+const world = new Vec3()
+const offset = new Vec3()
+const screen = new Vec3()
+
+/**
+ * Projects equipment anchors to canvas pixels after the camera has moved
+ * and dispatches them as ANCHORS_PROJECTED_EVENT. Must render inside <Application>.
+ */
+export function AnchorProjector({ equipment, cameraName = 'camera' }: AnchorProjectorProps) {
+  const app = useApp()
+
+  useAppEvent('prerender', () => {
+    const entity = app.root.findByName(cameraName) as Entity | null
+    const camera = entity?.camera
+    if (!entity || !camera) return
+
+    const { width, height } = app.graphicsDevice.clientRect
+    const cameraPos = entity.getPosition()
+    const forward = entity.forward
+
+    dispatchAnchors(projectAnchors(equipment, {
+      width,
+      height,
+      focal: focalLength(height, camera.fov),
+      nearClip: camera.nearClip,
+      depthOf: (point) => offset.sub2(world.set(...point), cameraPos).dot(forward),
+      toScreen: (point) => {
+        camera.worldToScreen(world.set(...point), screen)
+        return { x: screen.x, y: screen.y }
+      }
+    }))
+  })
+
+  return null
+}
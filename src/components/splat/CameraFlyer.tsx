@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react'
+import { Entity, Pose, Vec3 } from 'playcanvas'
+import { useApp, useAppEvent } from '@playcanvas/react/hooks'
+import { getCameraControls } from './cameraControls'
+import { CameraPose, easeInOutCubic } from './viewerTypes'
+
+export interface Flight {
+  pose: CameraPose
+  /** 0 jumps straight to the viewpoint */
+  duration_ms: number
+}
+
+interface CameraFlyerProps {
+  /** Each new Flight object starts a flight from wherever the camera is */
+  flight: Flight | null
+  /** Name of the entity carrying the Camera component and CameraControls */
+  cameraName?: string
+}
+
+interface ActiveFlight {
+  fromPosition: Vec3
+  fromTarget: Vec3
+  toPosition: Vec3
+  toTarget: Vec3
+  elapsed: number
+  duration: number
+}
+
+// Scratch objects, reused every frame
+const position = new Vec3()
+const target = new Vec3()
+const pose = new Pose()
+
+/**
+ * Eased camera transitions between poses. Camera controls are paused
+ * for the flight and handed the final pose, so orbiting resumes from there.
+ * Must render inside <Application>.
+ */
+export function CameraFlyer({ flight, cameraName = 'camera' }: CameraFlyerProps) {
+  const app = useApp()
+  const pending = useRef<Flight | null>(null)
+  const active = useRef<ActiveFlight | null>(null)
+
+  // Started from the update loop, since the controls script may not exist yet
+  useEffect(() => {
+    pending.current = flight
+  }, [flight])
+
+  useAppEvent('update', (dt) => {
+    const entity = app.root.findByName(cameraName) as Entity | null
+    const controls = entity && getCameraControls(entity)
+    if (!entity || !controls) return
+
+    if (pending.current) {
+      const { pose: to, duration_ms } = pending.current
+      pending.current = null
+      const toPosition = new Vec3(...to.position)
+      const toTarget = new Vec3(...to.target)
+
+      if (duration_ms <= 0) {
+        active.current = null
+        controls.skipUpdate = false
+        controls.reset(toTarget, toPosition)
+        return
+      }
+
+      active.current = {
+        fromPosition: entity.getPosition().clone(),
+        fromTarget: controls.focusPoint.clone(),
+        toPosition,
+        toTarget,
+        elapsed: 0,
+        duration: duration_ms / 1000
+      }
+      controls.skipUpdate = true
+    }
+
+    const f = active.current
+    if (!f) return
+
+    f.elapsed += dt
+    const t = Math.min(f.elapsed / f.duration, 1)
+    const k = easeInOutCubic(t)
+    position.lerp(f.fromPosition, f.toPosition, k)
+    target.lerp(f.fromTarget, f.toTarget, k)
+
+    // Same angle convention as the controls, so the hand-over doesn't jump
+    pose.look(position, target)
+    entity.setPosition(pose.position)
+    entity.setEulerAngles(pose.angles)
+
+    if (t >= 1) {
+      active.current = null
+      controls.skipUpdate = false
+      controls.reset(f.toTarget, f.toPosition)
+    }
+  })
+
+  return null
+}
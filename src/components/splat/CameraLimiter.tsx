@@ -0,0 +1,131 @@
+import { useEffect, useRef } from 'react'
+import { Entity, Pose, Quat, Vec2, Vec3, math } from 'playcanvas'
+import { useApp, useAppEvent } from '@playcanvas/react/hooks'
+import { CameraLimits } from '../../data/types'
+import { CameraControlsScript, getCameraControls } from './cameraControls'
+
+interface CameraLimiterProps {
+  /** null lifts every limit (staff debug mode) */
+  limits: CameraLimits | null
+  /** Name of the entity carrying the Camera component and CameraControls */
+  cameraName?: string
+}
+
+// Wait for wheel zooms and orbit damping to settle before springing back
+const SETTLE_DELAY_MS = 250
+// Corrections smaller than this (scene units) are ignored
+const EPSILON = 0.01
+
+// Scratch objects
+const pose = new Pose()
+const rotation = new Quat()
+const direction = new Vec3()
+const clamped = new Vec3()
+
+const wrapDegrees = (angle: number) => ((((angle + 180) % 360) + 360) % 360) - 180
+
+/** Nearest camera position inside the limits, or null when already inside */
+function clampPosition(position: Vec3, focus: Vec3, limits: CameraLimits): Vec3 | null {
+  pose.look(position, focus)
+  const pitch = math.clamp(pose.angles.x, limits.pitch[0], limits.pitch[1])
+  const yaw = math.clamp(wrapDegrees(pose.angles.y), limits.yaw[0], limits.yaw[1])
+  const distance = math.clamp(pose.distance, limits.zoom[0], limits.zoom[1])
+
+  rotation.setFromEulerAngles(pitch, yaw, 0)
+  rotation.transformVector(Vec3.FORWARD, direction)
+  clamped.copy(direction).mulScalar(-distance).add(focus)
+
+  const { min, max } = limits.bounds
+  clamped.set(
+    math.clamp(clamped.x, min[0], max[0]),
+    math.clamp(clamped.y, min[1], max[1]),
+    math.clamp(clamped.z, min[2], max[2])
+  )
+
+  return clamped.distance(position) > EPSILON ? clamped : null
+}
+
+/** Hard stops sit `overshoot` beyond the soft limits so drags can stretch past them */
+function applyLimits(controls: CameraControlsScript, limits: CameraLimits | null) {
+  if (!limits) {
+    controls.pitchRange = new Vec2(-360, 360)
+    controls.yawRange = new Vec2(-360, 360)
+    controls.zoomRange = new Vec2(0.01, 0)
+    controls.enablePan = true
+    controls.enableFly = true
+    return
+  }
+
+  const widen = ([min, max]: [number, number], floor: number, ceiling: number) => {
+    const margin = (max - min) * limits.overshoot
+    return new Vec2(Math.max(min - margin, floor), Math.min(max + margin, ceiling))
+  }
+  controls.pitchRange = widen(limits.pitch, -90, 90)
+  controls.yawRange = widen(limits.yaw, -360, 360)
+  controls.zoomRange = widen(limits.zoom, 0.01, Infinity)
+  controls.enablePan = false
+  controls.enableFly = false
+}
+
+/**
+ * Keeps the visitor camera around the walkway sightline: pitch, yaw and zoom
+ * limits, a bounding box for the position, and a gentle spring back when a
+ * drag ends past a limit.
+ * Must render inside <Application>.
+ */
+export function CameraLimiter({ limits, cameraName = 'camera' }: CameraLimiterProps) {
+  const app = useApp()
+  const applied = useRef<CameraLimits | null | undefined>(undefined)
+  const pointers = useRef(new Set<number>())
+  const settleAt = useRef<number | null>(null)
+
+  useEffect(() => {
+    const canvas = app.graphicsDevice.canvas
+
+    const handleDown = (e: PointerEvent) => {
+      pointers.current.add(e.pointerId)
+    }
+    const handleUp = (e: PointerEvent) => {
+      pointers.current.delete(e.pointerId)
+      settleAt.current = performance.now() + SETTLE_DELAY_MS
+    }
+    const handleWheel = () => {
+      settleAt.current = performance.now() + SETTLE_DELAY_MS
+    }
+
+    canvas.addEventListener('pointerdown', handleDown)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleUp)
+    canvas.addEventListener('wheel', handleWheel, { passive: true })
+    return () => {
+      canvas.removeEventListener('pointerdown', handleDown)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleUp)
+      canvas.removeEventListener('wheel', handleWheel)
+    }
+  }, [app])
+
+  useAppEvent('update', () => {
+    const entity = app.root.findByName(cameraName) as Entity | null
+    const controls = entity && getCameraControls(entity)
+    if (!entity || !controls) return
+
+    // Applied from the loop, since the controls script may not exist on mount
+    if (applied.current !== limits) {
+      applyLimits(controls, limits)
+      applied.current = limits
+    }
+    if (!limits) return
+
+    // Only correct once the visitor has let go and no fly-to is running
+    if (settleAt.current === null || performance.now() < settleAt.current) return
+    if (pointers.current.size > 0 || controls.skipUpdate) return
+    settleAt.current = null
+
+    const focus = controls.focusPoint.clone()
+    const inside = clampPosition(entity.getPosition(), focus, limits)
+    if (inside) controls.reset(focus, inside.clone())
+  })
+
+  return null
+}
@@ -0,0 +1,59 @@
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { SplatLoadState } from '../../hooks/useSplatLoad'
+
+interface SplatLoadingScreenProps {
+  state: SplatLoadState
+  /** Small banner over a scene already on screen, e.g. while a lighter tier loads */
+  compact?: boolean
+}
+
+// Share of the bar given to the download; decoding fills the rest
+const DOWNLOAD_SHARE = 0.8
+
+/** Visitor-facing cover shown while the splat downloads, decodes or waits to retry */
+export function SplatLoadingScreen({ state, compact = false }: SplatLoadingScreenProps) {
+  const { t } = useLanguage()
+  const overall = state.stage === 'download'
+    ? state.progress * DOWNLOAD_SHARE
+    : DOWNLOAD_SHARE + state.progress * (1 - DOWNLOAD_SHARE)
+
+  if (compact) {
+    return (
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-4 px-6 py-3 bg-museum-dark/90 rounded-full pointer-events-none">
+        <p className="text-kiosk-sm text-museum-stone whitespace-nowrap">{t(ui.splatSwitchingQuality)}</p>
+        <div className="w-32 h-2 bg-museum-stone/20 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-museum-highlight transition-[width] duration-300"
+            style={{ width: `${Math.round(overall * 100)}%` }}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="absolute inset-0 z-20 bg-museum-dark flex items-center justify-center">
+      <div className="w-full max-w-xl px-8 text-center">
+        <h2 className="text-kiosk-xl font-display text-museum-stone mb-8">
+          {t(ui.splatLoading)}
+        </h2>
+
+        <div className="h-3 bg-museum-stone/20 rounded-full overflow-hidden mb-4">
+          <div
+            className="h-full bg-museum-highlight transition-[width] duration-300"
+            style={{ width: `${Math.round(overall * 100)}%` }}
+          />
+        </div>
+
+        <p className="text-kiosk-base text-museum-warm">
+          {state.status === 'retrying'
+            ? t(ui.splatRetrying)
+            : state.stage === 'download'
+              ? `${t(ui.splatDownloading)} ${Math.round(state.progress * 100)}%`
+              : t(ui.splatPreparing)}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react'
+import { useLanguage } from '../../i18n/LanguageContext'
+import { ui } from '../../i18n/strings'
+import { SplatLoadOptions, SplatLoadStatus, useSplatLoad } from '../../hooks/useSplatLoad'
+import { PumpRoomImage } from '../shared/PumpRoomImage'
+import { SplatLoadingScreen } from './SplatLoadingScreen'
+import { SplatViewer, SplatViewerProps } from './SplatViewer'
+import { DEFAULT_SPLAT_RENDERER } from './viewerTypes'
+
+interface SplatSceneProps extends Omit<SplatViewerProps, 'onLoadStart' | 'onProgress' | 'onLoad' | 'onError'> {
+  /** Photo of the room, shown with its hotspots when the splat cannot load */
+  fallbackImageUrl: string
+  loadOptions?: SplatLoadOptions
+  onStatusChange?: (status: SplatLoadStatus) => void
+}
+
+/**
+ * SplatViewer for visitors: a loading screen with progress, retries with
+ * backoff, and the hotspot photo of the room when every attempt has failed.
+ * Failed attempts are recorded in splatDiagnostics. Changing src once the
+ * scene is showing swaps it in place, under a small banner.
+ */
+export function SplatScene({ fallbackImageUrl, loadOptions, onStatusChange, ...viewerProps }: SplatSceneProps) {
+  const { t } = useLanguage()
+  const renderer = viewerProps.renderer ?? DEFAULT_SPLAT_RENDERER
+  const { state, handlers, retry } = useSplatLoad(viewerProps.src, renderer, loadOptions)
+  const [shown, setShown] = useState(false)
+
+  useEffect(() => {
+    if (state.status === 'loaded') setShown(true)
+    onStatusChange?.(state.status)
+  }, [state.status, onStatusChange])
+
+  if (state.status === 'failed') {
+    return (
+      <div className="absolute inset-0 bg-museum-dark">
+        <PumpRoomImage
+          imageUrl={fallbackImageUrl}
+          equipment={viewerProps.equipment ?? []}
+          onSelectEquipment={viewerProps.onPick}
+          selectedId={viewerProps.selectedId}
+        />
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-4 px-6 py-3 bg-museum-dark/90 rounded-full">
+          <p className="text-kiosk-sm text-museum-stone">{t(ui.splatUnavailable)}</p>
+          <button
+            onClick={retry}
+            className="px-4 py-2 bg-museum-highlight text-museum-dark rounded-full text-kiosk-sm font-semibold touch-target whitespace-nowrap"
+          >
+            {t(ui.tryAgain)}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* Unmounted between retries so a stalled attempt is abandoned */}
+      {state.status !== 'retrying' && (
+        <SplatViewer key={state.attempt} {...viewerProps} renderer={renderer} {...handlers} />
+      )}
+      {state.status !== 'loaded' && (
+        <SplatLoadingScreen state={state} compact={shown && state.status === 'loading'} />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,113 @@
+import { ComponentType, Suspense, lazy, useEffect, useRef, useState } from 'react'
+import { Equipment } from '../../data/types'
+import { useIdleCallback } from '../../hooks/useIdleCallback'
+import { AnchorLayer } from './AnchorLayer'
+import { PlayCanvasAdapter } from './adapters/PlayCanvasAdapter'
+import { SplatInspection, inspectSplat, inspectionError } from './splatInspector'
+import { getDirectDownloadUrl } from './urlUtils'
+import { DEFAULT_SPLAT_RENDERER, SplatAdapterProps, SplatFormat, SplatRenderer, formatFromUrl } from './viewerTypes'
+
+// The three.js renderers are only downloaded when selected
+const ADAPTERS: Record<SplatRenderer, ComponentType<SplatAdapterProps>> = {
+  'playcanvas': PlayCanvasAdapter,
+  'spark': lazy(() => import('./adapters/SparkAdapter').then(m => ({ default: m.SparkAdapter }))),
+  'gaussian-splats-3d': lazy(() =>
+    import('./adapters/GaussianSplats3DAdapter').then(m => ({ default: m.GaussianSplats3DAdapter }))
+  )
+}
+
+export interface SplatViewerProps extends SplatAdapterProps {
+  /** Defaults to VITE_SPLAT_RENDERER */
+  renderer?: SplatRenderer
+  /** Tap on an equipment anchor */
+  onPick?: (item: Equipment) => void
+  selectedId?: string | null
+  showLabels?: boolean
+  /** Called once after this long without input on the viewer */
+  idleMs?: number
+  onIdle?: () => void
+  /** What the file header says, before the renderer gets it */
+  onInspect?: (inspection: SplatInspection) => void
+}
+
+/**
+ * Gaussian splat scene with equipment markers, whichever renderer draws it.
+ * Fills its positioned parent; the camera is driven through the ref handle.
+ * The file header is inspected first, so the renderer gets the real format
+ * (a format prop still wins) and files no renderer can show fail early.
+ */
+export function SplatViewer({
+  renderer = DEFAULT_SPLAT_RENDERER,
+  src,
+  equipment = [],
+  onPick,
+  selectedId = null,
+  showLabels = true,
+  idleMs,
+  onIdle,
+  onInspect,
+  ...adapterProps
+}: SplatViewerProps) {
+  const Adapter = ADAPTERS[renderer]
+  const directSrc = getDirectDownloadUrl(src)
+  const [inspected, setInspected] = useState<{ src: string; format: SplatFormat } | null>(null)
+  const restartIdle = useIdleCallback(idleMs, onIdle)
+  const events = useRef({ onInspect, onLoadStart: adapterProps.onLoadStart, onError: adapterProps.onError })
+
+  useEffect(() => {
+    events.current = { onInspect, onLoadStart: adapterProps.onLoadStart, onError: adapterProps.onError }
+  })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    events.current.onLoadStart?.()
+
+    inspectSplat(directSrc, controller.signal)
+      .then((inspection) => {
+        events.current.onInspect?.(inspection)
+        inspection.warnings.forEach(warning => console.warn(`Splat ${directSrc}: ${warning}`))
+        const error = inspectionError(inspection)
+        if (error) {
+          events.current.onError?.(error)
+        } else if (inspection.format) {
+          setInspected({ src: directSrc, format: inspection.format })
+        }
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        // The renderer may still manage, so let it try
+        console.warn(`Could not inspect splat ${directSrc}, going by its extension:`, err)
+        setInspected({ src: directSrc, format: formatFromUrl(directSrc) })
+      })
+
+    return () => controller.abort()
+  }, [directSrc])
+
+  return (
+    <div
+      className="absolute inset-0"
+      onPointerDownCapture={restartIdle}
+      onWheelCapture={restartIdle}
+    >
+      <AnchorLayer
+        equipment={equipment}
+        onSelect={(item) => onPick?.(item)}
+        selectedId={selectedId}
+        showLabels={showLabels}
+      >
+        {/* A new source swaps in once inspected; adapters keep the camera across it */}
+        {inspected && (
+          <Suspense fallback={null}>
+            <Adapter
+              key={renderer}
+              src={inspected.src}
+              equipment={equipment}
+              {...adapterProps}
+              format={adapterProps.format ?? inspected.format}
+            />
+          </Suspense>
+        )}
+      </AnchorLayer>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { CameraViewpoint } from '../../data/types'
+import { useLanguage } from '../../i18n/LanguageContext'
+
+interface ViewpointBarProps {
+  viewpoints: CameraViewpoint[]
+  activeId?: string | null
+  onSelect: (viewpoint: CameraViewpoint) => void
+}
+
+/**
+ * Row of named views for visitors; equipment viewpoints are reached
+ * by selecting the equipment instead
+ */
+export function ViewpointBar({ viewpoints, activeId = null, onSelect }: ViewpointBarProps) {
+  const { t } = useLanguage()
+  const general = viewpoints.filter(v => !v.equipment_id)
+
+  if (general.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {general.map((viewpoint) => (
+        <button
+          key={viewpoint.id}
+          onClick={() => onSelect(viewpoint)}
+          className={`px-4 py-2 rounded-full text-kiosk-sm transition-colors touch-target ${
+            viewpoint.id === activeId
+              ? 'bg-museum-highlight text-museum-dark'
+              : 'bg-museum-dark/80 text-museum-stone hover:bg-museum-dark'
+          }`}
+        >
+          {t(viewpoint.label)}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { useEffect, useImperativeHandle, useRef } from 'react'
+import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { dispatchAnchors, projectAnchors } from '../anchorProjection'
+import { CameraPose, SplatAdapterProps, SplatFormat, formatFromUrl } from '../viewerTypes'
+import { OrbitRig, createOrbitRig } from './orbitRig'
+
+// GaussianSplats3D's LoaderStatus, which the package does not export
+const LOADER_STATUS_DOWNLOADING = 0
+
+const SCENE_FORMATS: Record<SplatFormat, number | undefined> = {
+  ply: GaussianSplats3D.SceneFormat.Ply,
+  splat: GaussianSplats3D.SceneFormat.Splat,
+  sog: undefined
+}
+
+/**
+ * GaussianSplats3D renderer, driven from our own frame loop so the shared
+ * orbit rig owns the controls. Rebuilt when the source changes, keeping the
+ * camera where it was.
+ */
+export function GaussianSplats3DAdapter(props: SplatAdapterProps) {
+  const { src, format = formatFromUrl(src), initialCamera, limits = null, ref } = props
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rigRef = useRef<OrbitRig | null>(null)
+  const lastPose = useRef<CameraPose>(initialCamera)
+  const events = useRef(props)
+
+  useEffect(() => {
+    events.current = props
+  })
+
+  useImperativeHandle(ref, () => ({
+    getCamera: () => rigRef.current?.getCamera() ?? null,
+    setCamera: (pose, duration_ms) => rigRef.current?.setCamera(pose, duration_ms)
+  }), [])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    events.current.onLoadStart?.()
+    const sceneFormat = SCENE_FORMATS[format]
+    if (sceneFormat === undefined) {
+      events.current.onError?.('GaussianSplats3D cannot load .sog files; use .ply or .splat')
+      return
+    }
+
+    const viewer = new GaussianSplats3D.Viewer({
+      cameraUp: [0, 1, 0],
+      initialCameraPosition: lastPose.current.position,
+      initialCameraLookAt: lastPose.current.target,
+      useBuiltInControls: false,
+      selfDrivenMode: false,
+      sharedMemoryForWorkers: false
+    })
+    // The viewer mounts itself on document.body; borrow its root element
+    const root: HTMLElement = viewer.rootElement
+    container.appendChild(root)
+
+    const controls = new OrbitControls(viewer.camera, viewer.renderer.domElement)
+    controls.enableDamping = true
+    controls.dampingFactor = 0.05
+
+    const rig = createOrbitRig(viewer.camera, controls)
+    rig.setLimits(events.current.limits ?? null)
+    rig.setCamera(lastPose.current, 0)
+    rigRef.current = rig
+
+    let disposed = false
+    viewer.addSplatScene(src, {
+      format: sceneFormat,
+      splatAlphaRemovalThreshold: 5,
+      showLoadingUI: false,
+      progressiveLoad: true,
+      onProgress: (percent: number, _label: string, status: number) => {
+        events.current.onProgress?.(percent / 100, status === LOADER_STATUS_DOWNLOADING ? 'download' : 'parse')
+      }
+    })
+      .then(() => {
+        if (!disposed) events.current.onLoad?.()
+      })
+      .catch((err: Error) => {
+        if (disposed) return
+        console.error('GaussianSplats3D: failed to load splat:', err)
+        events.current.onError?.(err.message || 'Failed to load splat')
+      })
+
+    let frame = requestAnimationFrame(function animate(now) {
+      frame = requestAnimationFrame(animate)
+      const moved = rig.update(now)
+      if (moved) {
+        lastPose.current = moved
+        events.current.onCameraChange?.(moved)
+      }
+      const equipment = events.current.equipment
+      if (equipment?.length) {
+        dispatchAnchors(projectAnchors(equipment, rig.anchorCamera(container.clientWidth, container.clientHeight)))
+      }
+      viewer.update()
+      viewer.render()
+    })
+
+    return () => {
+      disposed = true
+      rigRef.current = null
+      cancelAnimationFrame(frame)
+      controls.dispose()
+      // dispose() removes the root element from document.body
+      document.body.appendChild(root)
+      viewer.dispose()
+    }
+  }, [src, format])
+
+  useEffect(() => {
+    rigRef.current?.setLimits(limits)
+  }, [limits])
+
+  return <div ref={containerRef} className="w-full h-full relative" />
+}
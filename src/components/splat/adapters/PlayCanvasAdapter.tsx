@@ -0,0 +1,125 @@
+import { Ref, RefObject, useEffect, useImperativeHandle, useRef, useState } from 'react'
+import { Application as PcApplication, Entity as PcEntity } from 'playcanvas'
+import { Application, Entity } from '@playcanvas/react'
+import { Camera, GSplat, Script } from '@playcanvas/react/components'
+import { useApp, useAppEvent, useSplat } from '@playcanvas/react/hooks'
+import { CameraControls } from 'playcanvas/scripts/esm/camera-controls.mjs'
+import { AnchorProjector } from '../AnchorProjector'
+import { CameraFlyer, Flight } from '../CameraFlyer'
+import { CameraLimiter } from '../CameraLimiter'
+import { getCameraControls } from '../cameraControls'
+import {
+  CameraPose,
+  DEFAULT_FLIGHT_MS,
+  SplatAdapterProps,
+  SplatViewerHandle,
+  formatFromUrl,
+  posesDiffer
+} from '../viewerTypes'
+
+const CAMERA_NAME = 'camera'
+
+function readPose(app: PcApplication): CameraPose | null {
+  const entity = app.root.findByName(CAMERA_NAME) as PcEntity | null
+  const controls = entity && getCameraControls(entity)
+  if (!entity || !controls) return null
+  const p = entity.getPosition()
+  const t = controls.focusPoint
+  return { position: [p.x, p.y, p.z], target: [t.x, t.y, t.z] }
+}
+
+function SplatAsset({ src, events }: { src: string; events: RefObject<SplatAdapterProps> }) {
+  const { asset, loading, error, subscribe } = useSplat(src)
+
+  useEffect(() => {
+    events.current.onLoadStart?.()
+    // The asset only reports download progress; decoding follows it
+    return subscribe((meta) => {
+      events.current.onProgress?.(meta.progress, meta.progress < 1 ? 'download' : 'parse')
+    })
+  }, [src, subscribe, events])
+
+  useEffect(() => {
+    if (error) events.current.onError?.(error)
+    else if (asset && !loading) events.current.onLoad?.()
+  }, [asset, loading, error, events])
+
+  if (!asset) return null
+
+  return (
+    <Entity position={[0, 0, 0]} rotation={[0, 0, 0]}>
+      <GSplat asset={asset} />
+    </Entity>
+  )
+}
+
+/** Exposes the camera through the viewer handle and reports moves. Must render inside <Application>. */
+function CameraBridge({ handleRef, initialCamera, events }: {
+  handleRef?: Ref<SplatViewerHandle>
+  initialCamera: CameraPose
+  events: RefObject<SplatAdapterProps>
+}) {
+  const app = useApp()
+  const [flight, setFlight] = useState<Flight>({ pose: initialCamera, duration_ms: 0 })
+  const reported = useRef<CameraPose | null>(null)
+
+  useImperativeHandle(handleRef, () => ({
+    getCamera: () => readPose(app),
+    setCamera: (pose, duration_ms = DEFAULT_FLIGHT_MS) => setFlight({ pose, duration_ms })
+  }), [app])
+
+  useAppEvent('postrender', () => {
+    const pose = readPose(app)
+    if (!pose || !posesDiffer(reported.current, pose)) return
+    reported.current = pose
+    events.current.onCameraChange?.(pose)
+  })
+
+  return <CameraFlyer flight={flight} cameraName={CAMERA_NAME} />
+}
+
+/**
+ * PlayCanvas renderer: GSplat asset, CameraControls script, eased flights,
+ * visitor limits with spring-back and projected equipment anchors
+ */
+export function PlayCanvasAdapter(props: SplatAdapterProps) {
+  const {
+    src,
+    format = formatFromUrl(src),
+    initialCamera,
+    limits = null,
+    equipment = [],
+    clearColor = '#1a1a2e',
+    ref
+  } = props
+  const events = useRef(props)
+
+  useEffect(() => {
+    events.current = props
+  })
+
+  const unsupported = format === 'splat'
+
+  useEffect(() => {
+    if (unsupported) events.current.onError?.('PlayCanvas cannot load .splat files; use .ply or .sog')
+  }, [unsupported, src])
+
+  return (
+    <Application graphicsDeviceOptions={{ antialias: false }}>
+      <Entity name={CAMERA_NAME} position={initialCamera.position}>
+        <Camera
+          clearColor={clearColor}
+          fov={60}
+          farClip={1000}
+          nearClip={0.01}
+        />
+        <Script script={CameraControls} />
+      </Entity>
+
+      {!unsupported && <SplatAsset src={src} events={events} />}
+      <CameraBridge handleRef={ref} initialCamera={initialCamera} events={events} />
+      <CameraLimiter limits={limits} cameraName={CAMERA_NAME} />
+      {equipment.length > 0 && <AnchorProjector equipment={equipment} cameraName={CAMERA_NAME} />}
+    </Application>
+  )
+}
@@ -0,0 +1,116 @@
+import { useEffect, useImperativeHandle, useRef } from 'react'
+import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { SplatFileType, SplatLoader, SplatMesh } from '@sparkjsdev/spark'
+import { dispatchAnchors, projectAnchors } from '../anchorProjection'
+import { CameraPose, SplatAdapterProps, formatFromUrl } from '../viewerTypes'
+import { OrbitRig, createOrbitRig } from './orbitRig'
+
+/**
+ * Spark renderer: its own three.js scene, OrbitControls and render loop.
+ * Rebuilt when the source changes, keeping the camera where it was.
+ */
+export function SparkAdapter(props: SplatAdapterProps) {
+  const { src, format = formatFromUrl(src), initialCamera, limits = null, clearColor = '#1f1c1a', ref } = props
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rigRef = useRef<OrbitRig | null>(null)
+  const lastPose = useRef<CameraPose>(initialCamera)
+  const events = useRef(props)
+
+  useEffect(() => {
+    events.current = props
+  })
+
+  useImperativeHandle(ref, () => ({
+    getCamera: () => rigRef.current?.getCamera() ?? null,
+    setCamera: (pose, duration_ms) => rigRef.current?.setCamera(pose, duration_ms)
+  }), [])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const scene = new THREE.Scene()
+    scene.background = new THREE.Color(clearColor)
+
+    const camera = new THREE.PerspectiveCamera(60, container.clientWidth / container.clientHeight, 0.01, 1000)
+    const renderer = new THREE.WebGLRenderer({ antialias: false })
+    renderer.setSize(container.clientWidth, container.clientHeight)
+    renderer.setPixelRatio(window.devicePixelRatio)
+    container.appendChild(renderer.domElement)
+
+    const controls = new OrbitControls(camera, renderer.domElement)
+    controls.enableDamping = true
+    controls.dampingFactor = 0.05
+
+    const rig = createOrbitRig(camera, controls)
+    rig.setLimits(events.current.limits ?? null)
+    rig.setCamera(lastPose.current, 0)
+    rigRef.current = rig
+
+    let disposed = false
+    let mesh: SplatMesh | null = null
+    const loader = new SplatLoader()
+    // .splat has no header to sniff; Spark detects the other formats itself
+    if (format === 'splat') loader.fileType = SplatFileType.SPLAT
+
+    events.current.onLoadStart?.()
+    loader.loadAsync(src, (e) => {
+      if (e.lengthComputable) events.current.onProgress?.(e.loaded / e.total, 'download')
+    })
+      .then(async (packedSplats) => {
+        if (disposed) return
+        events.current.onProgress?.(1, 'parse')
+        mesh = new SplatMesh({ packedSplats })
+        scene.add(mesh)
+        await mesh.initialized
+        if (!disposed) events.current.onLoad?.()
+      })
+      .catch((err: unknown) => {
+        if (disposed) return
+        console.error('Spark: failed to load splat:', err)
+        events.current.onError?.(err instanceof Error ? err.message : 'Failed to load splat')
+      })
+
+    let frame = requestAnimationFrame(function animate(now) {
+      frame = requestAnimationFrame(animate)
+      const moved = rig.update(now)
+      if (moved) {
+        lastPose.current = moved
+        events.current.onCameraChange?.(moved)
+      }
+      const equipment = events.current.equipment
+      if (equipment?.length) {
+        dispatchAnchors(projectAnchors(equipment, rig.anchorCamera(container.clientWidth, container.clientHeight)))
+      }
+      renderer.render(scene, camera)
+    })
+
+    const handleResize = () => {
+      camera.aspect = container.clientWidth / container.clientHeight
+      camera.updateProjectionMatrix()
+      renderer.setSize(container.clientWidth, container.clientHeight)
+    }
+    window.addEventListener('resize', handleResize)
+
+    return () => {
+      disposed = true
+      rigRef.current = null
+      cancelAnimationFrame(frame)
+      window.removeEventListener('resize', handleResize)
+      controls.dispose()
+      if (mesh) {
+        scene.remove(mesh)
+        mesh.dispose()
+      }
+      renderer.dispose()
+      renderer.domElement.remove()
+    }
+  }, [src, format, clearColor])
+
+  useEffect(() => {
+    rigRef.current?.setLimits(limits)
+  }, [limits])
+
+  return <div ref={containerRef} className="w-full h-full" />
+}
@@ -0,0 +1,127 @@
+/**
+ * Camera handling shared by the three.js adapters (Spark, GaussianSplats3D):
+ * eased flights, visitor limits and anchor projection on top of OrbitControls.
+ * Both use a Y-up camera like PlayCanvas, so viewpoints carry over unchanged.
+ */
+
+import { PerspectiveCamera, Vector3 } from 'three'
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { CameraLimits, Vec3Tuple } from '../../../data/types'
+import { AnchorCamera, focalLength } from '../anchorProjection'
+import { CameraPose, DEFAULT_FLIGHT_MS, easeInOutCubic, posesDiffer } from '../viewerTypes'
+
+export interface OrbitRig {
+  getCamera: () => CameraPose
+  setCamera: (pose: CameraPose, duration_ms?: number) => void
+  /**
+   * Zoom range and position bounds only; pitch and yaw ranges follow the
+   * PlayCanvas angle convention and are not mapped onto OrbitControls
+   */
+  setLimits: (limits: CameraLimits | null) => void
+  /** Call once per frame before rendering; returns the pose when the camera moved */
+  update: (now: number) => CameraPose | null
+  anchorCamera: (width: number, height: number) => AnchorCamera
+}
+
+interface ActiveFlight {
+  from: CameraPose
+  to: CameraPose
+  startedAt: number | null
+  duration: number
+}
+
+const toTuple = (v: Vector3): Vec3Tuple => [v.x, v.y, v.z]
+
+const lerpTuple = (a: Vec3Tuple, b: Vec3Tuple, k: number): Vec3Tuple =>
+  [a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k]
+
+export function createOrbitRig(camera: PerspectiveCamera, controls: OrbitControls): OrbitRig {
+  let flight: ActiveFlight | null = null
+  let limits: CameraLimits | null = null
+  let reported: CameraPose | null = null
+  const scratch = new Vector3()
+  const forward = new Vector3()
+
+  const getCamera = (): CameraPose => ({
+    position: toTuple(camera.position),
+    target: toTuple(controls.target)
+  })
+
+  const place = (pose: CameraPose) => {
+    camera.position.set(...pose.position)
+    controls.target.set(...pose.target)
+    camera.lookAt(controls.target)
+  }
+
+  const clampToBounds = () => {
+    if (!limits) return
+    const { min, max } = limits.bounds
+    camera.position.set(
+      Math.min(Math.max(camera.position.x, min[0]), max[0]),
+      Math.min(Math.max(camera.position.y, min[1]), max[1]),
+      Math.min(Math.max(camera.position.z, min[2]), max[2])
+    )
+  }
+
+  return {
+    getCamera,
+
+    setCamera: (pose, duration_ms = DEFAULT_FLIGHT_MS) => {
+      if (duration_ms <= 0) {
+        flight = null
+        controls.enabled = true
+        place(pose)
+        controls.update()
+        return
+      }
+      flight = { from: getCamera(), to: pose, startedAt: null, duration: duration_ms }
+      controls.enabled = false
+    },
+
+    setLimits: (next) => {
+      limits = next
+      controls.enablePan = !next
+      controls.minDistance = next ? next.zoom[0] : 0
+      controls.maxDistance = next ? next.zoom[1] : Infinity
+    },
+
+    update: (now) => {
+      if (flight) {
+        flight.startedAt ??= now
+        const t = Math.min((now - flight.startedAt) / flight.duration, 1)
+        const k = easeInOutCubic(t)
+        place({
+          position: lerpTuple(flight.from.position, flight.to.position, k),
+          target: lerpTuple(flight.from.target, flight.to.target, k)
+        })
+        if (t >= 1) {
+          flight = null
+          controls.enabled = true
+        }
+      } else {
+        controls.update()
+        clampToBounds()
+      }
+
+      const pose = getCamera()
+      if (!posesDiffer(reported, pose)) return null
+      reported = pose
+      return pose
+    },
+
+    anchorCamera: (width, height) => {
+      camera.getWorldDirection(forward)
+      return {
+        width,
+        height,
+        focal: focalLength(height, camera.fov),
+        nearClip: camera.near,
+        depthOf: (point) => scratch.set(...point).sub(camera.position).dot(forward),
+        toScreen: (point) => {
+          scratch.set(...point).project(camera)
+          return { x: ((scratch.x + 1) / 2) * width, y: ((1 - scratch.y) / 2) * height }
+        }
+      }
+    }
+  }
+}
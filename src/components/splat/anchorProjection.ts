@@ -0,0 +1,124 @@
+/**
+ * Screen-space equipment anchors for the splat scene
+ *
+ * Each renderer adapter projects every Equipment.anchor_3d once a frame
+ * through projectAnchors and broadcasts the result on window, the same way
+ * the camera panel receives 'camera-update'. UI outside the canvas listens
+ * for it to draw markers and pick taps.
+ */
+
+import { Equipment, Vec3Tuple } from '../../data/types'
+
+export const ANCHORS_PROJECTED_EVENT = 'anchors-projected'
+
+// Fingers need a usable target even when an anchor is small or far away
+export const MIN_PICK_RADIUS_PX = 28
+
+// Scene units, for anchors without a pick_radius or bounds
+export const DEFAULT_PICK_RADIUS = 0.3
+
+export interface ScreenRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+export interface ProjectedAnchor {
+  equipment_id: string
+  /** Canvas CSS pixels */
+  x: number
+  y: number
+  /** Distance in front of the camera, in scene units */
+  depth: number
+  /** Pick radius in pixels at the current distance */
+  radius: number
+  /** Screen bounds of Anchor3D.bounds, when set and fully in front of the camera */
+  rect: ScreenRect | null
+  /** In front of the camera and inside the canvas */
+  visible: boolean
+}
+
+/** What projectAnchors needs from a renderer's camera */
+export interface AnchorCamera {
+  /** Canvas size in CSS pixels */
+  width: number
+  height: number
+  /** Pixels per scene unit at distance 1 (vertical fov) */
+  focal: number
+  nearClip: number
+  /** Distance of a point in front of the camera, along its view direction */
+  depthOf: (point: Vec3Tuple) => number
+  /** Canvas CSS pixels of a point */
+  toScreen: (point: Vec3Tuple) => { x: number; y: number }
+}
+
+export function focalLength(height: number, fovDegrees: number): number {
+  return height / 2 / Math.tan((fovDegrees * Math.PI) / 360)
+}
+
+function projectBounds(camera: AnchorCamera, min: Vec3Tuple, max: Vec3Tuple): ScreenRect | null {
+  const rect = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity }
+  for (let i = 0; i < 8; i++) {
+    const corner: Vec3Tuple = [i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]]
+    // A corner behind the camera would project mirrored; fall back to the radius
+    if (camera.depthOf(corner) <= camera.nearClip) return null
+    const { x, y } = camera.toScreen(corner)
+    rect.left = Math.min(rect.left, x)
+    rect.right = Math.max(rect.right, x)
+    rect.top = Math.min(rect.top, y)
+    rect.bottom = Math.max(rect.bottom, y)
+  }
+  return rect
+}
+
+export function projectAnchors(equipment: Equipment[], camera: AnchorCamera): ProjectedAnchor[] {
+  const projected: ProjectedAnchor[] = []
+
+  for (const item of equipment) {
+    const anchor = item.anchor_3d
+    if (!anchor) continue
+
+    const rect = anchor.bounds ? projectBounds(camera, anchor.bounds.min, anchor.bounds.max) : null
+    const depth = camera.depthOf(anchor.position)
+    const { x, y } = camera.toScreen(anchor.position)
+
+    projected.push({
+      equipment_id: item.id,
+      x,
+      y,
+      depth,
+      radius: depth > 0 ? ((anchor.pick_radius ?? DEFAULT_PICK_RADIUS) * camera.focal) / depth : 0,
+      rect,
+      visible: depth > camera.nearClip &&
+        x >= 0 && x <= camera.width &&
+        y >= 0 && y <= camera.height
+    })
+  }
+
+  return projected
+}
+
+export function dispatchAnchors(projected: ProjectedAnchor[]) {
+  window.dispatchEvent(new CustomEvent(ANCHORS_PROJECTED_EVENT, { detail: projected }))
+}
+
+function hits(anchor: ProjectedAnchor, x: number, y: number): boolean {
+  if (Math.hypot(x - anchor.x, y - anchor.y) <= Math.max(anchor.radius, MIN_PICK_RADIUS_PX)) {
+    return true
+  }
+  const { rect } = anchor
+  return rect !== null && x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+}
+
+/** Anchor under a tap at canvas pixel (x, y); the one nearest the camera wins */
+export function pickAnchor(anchors: ProjectedAnchor[], x: number, y: number): ProjectedAnchor | undefined {
+  let best: ProjectedAnchor | undefined
+
+  for (const anchor of anchors) {
+    if (!anchor.visible || !hits(anchor, x, y)) continue
+    if (!best || anchor.depth < best.depth) best = anchor
+  }
+
+  return best
+}
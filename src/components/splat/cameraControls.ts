@@ -0,0 +1,27 @@
+/**
+ * Typed access to the CameraControls script instance
+ * (playcanvas/scripts/esm/camera-controls.mjs ships without type declarations;
+ * src/playcanvas__camera-controls.d.ts declares just the class for imports)
+ */
+
+import { Entity, Vec2, Vec3 } from 'playcanvas'
+
+export interface CameraControlsScript {
+  /** While true the script leaves the camera entity alone and discards input */
+  skipUpdate: boolean
+  /** Point the camera currently orbits around */
+  readonly focusPoint: Vec3
+  /** Hard limits in degrees; [-360, 360] is unlimited */
+  pitchRange: Vec2
+  yawRange: Vec2
+  /** Orbit distance limits; a max <= min means unlimited */
+  zoomRange: Vec2
+  enablePan: boolean
+  enableFly: boolean
+  /** Hands the pose to the controls: look from `position` at `focus`, damped by focusDamping */
+  reset(focus: Vec3, position: Vec3): void
+}
+
+export function getCameraControls(entity: Entity): CameraControlsScript | null {
+  return (entity.script?.get('cameraControls') as unknown as CameraControlsScript | null) ?? null
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import { inspectionError, parsePlyHeader, sniffSplat, summarizePly } from './splatInspector'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+function plyHeader(elements: string[], encoding = 'binary_little_endian'): string {
+  return ['ply', `format ${encoding} 1.0`, ...elements, 'end_header', ''].join('\n')
+}
+
+const GAUSSIAN = ['x', 'y', 'z', 'f_dc_0', 'f_dc_1', 'f_dc_2', 'opacity',
+  'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3']
+
+/** A float-only vertex element with the Gaussian properties and shRest f_rest_* */
+function gaussianVertex(count: number, shRest = 0): string[] {
+  const names = [...GAUSSIAN, ...Array.from({ length: shRest }, (_, i) => `f_rest_${i}`)]
+  return [`element vertex ${count}`, ...names.map(name => `property float ${name}`)]
+}
+
+const pointCloud = plyHeader([
+  'element vertex 100',
+  'property float x', 'property float y', 'property float z',
+  'property uchar red', 'property uchar green', 'property uchar blue'
+])
+
+const compressed = plyHeader([
+  'element chunk 1',
+  'property float min_x', 'property float max_x',
+  'element vertex 256',
+  'property uint packed_position', 'property uint packed_rotation',
+  'property uint packed_scale', 'property uint packed_color',
+  'element sh 256',
+  ...Array.from({ length: 9 }, (_, i) => `property uchar f_rest_${i}`)
+])
+
+describe('parsePlyHeader', () => {
+  it('reads the encoding, elements and header length', () => {
+    const text = plyHeader([
+      'comment made by hand',
+      'element vertex 3', 'property float x', 'property double y',
+      'element face 1', 'property list uchar int vertex_indices'
+    ])
+    const header = parsePlyHeader(bytes(text + 'body'))
+    expect(header.encoding).toBe('binary_little_endian')
+    expect(header.header_bytes).toBe(text.length)
+    expect(header.elements).toEqual([
+      { name: 'vertex', count: 3, properties: [{ name: 'x', type: 'float' }, { name: 'y', type: 'double' }] },
+      { name: 'face', count: 1, properties: [{ name: 'vertex_indices', type: null }] }
+    ])
+  })
+
+  it('accepts CRLF line endings', () => {
+    const header = parsePlyHeader(bytes(plyHeader(gaussianVertex(1)).replace(/\n/g, '\r\n')))
+    expect(header.elements[0].properties).toHaveLength(GAUSSIAN.length)
+  })
+
+  it('throws without a header or with an unknown format', () => {
+    expect(() => parsePlyHeader(bytes('ply\nformat ascii 1.0\n'))).toThrow('No PLY header')
+    expect(() => parsePlyHeader(bytes('solid mesh\nend_header\n'))).toThrow('No PLY header')
+    expect(() => parsePlyHeader(bytes(plyHeader([], 'binary_middle_endian')))).toThrow('Unknown PLY format "binary_middle_endian"')
+    expect(() => parsePlyHeader(bytes(plyHeader(['property float x'])))).toThrow('PLY property before any element')
+  })
+})
+
+describe('summarizePly', () => {
+  const summarize = (text: string, size: number | null = null) => summarizePly(parsePlyHeader(bytes(text)), size)
+
+  it('recognises a Gaussian splat and its spherical harmonic degree', () => {
+    for (const [rest, degree] of [[0, 0], [9, 1], [24, 2], [45, 3]]) {
+      const { summary, warnings } = summarize(plyHeader(gaussianVertex(10, rest)))
+      expect(summary).toMatchObject({ is_gaussian: true, compressed: false, vertex_count: 10, sh_degree: degree })
+      expect(warnings).toEqual([])
+    }
+  })
+
+  it('flags an f_rest_* count that matches no degree', () => {
+    const { summary, warnings } = summarize(plyHeader(gaussianVertex(10, 10)))
+    expect(summary.sh_degree).toBeNull()
+    expect(warnings).toEqual(['10 f_rest_* properties match no spherical harmonic degree'])
+  })
+
+  it('tells a plain point cloud from a splat', () => {
+    const { summary, warnings } = summarize(pointCloud)
+    expect(summary.is_gaussian).toBe(false)
+    expect(warnings[0]).toMatch(/^Not a Gaussian splat PLY \(looks like a plain point cloud\): missing f_dc_0,/)
+  })
+
+  it('reports a PLY without vertices', () => {
+    expect(summarize(plyHeader(['element face 1', 'property float x'])).warnings[0])
+      .toBe('Not a Gaussian splat PLY: it has no vertex element')
+    expect(summarize(plyHeader(gaussianVertex(0))).warnings).toEqual(['PLY has no vertices'])
+  })
+
+  it('reads a PlayCanvas compressed PLY, with its harmonics in the sh element', () => {
+    const { summary, warnings } = summarize(compressed)
+    expect(summary).toMatchObject({ compressed: true, is_gaussian: true, vertex_count: 256, sh_degree: 1 })
+    expect(warnings).toEqual([])
+  })
+
+  it('warns about encodings renderers do not read', () => {
+    expect(summarize(plyHeader(gaussianVertex(1), 'ascii')).warnings)
+      .toEqual(['PLY is ascii; renderers expect binary_little_endian'])
+  })
+
+  it('compares the file size with the size the header describes', () => {
+    const text = plyHeader(gaussianVertex(10))
+    const expected = text.length + 10 * GAUSSIAN.length * 4
+    expect(summarize(text, expected).warnings).toEqual([])
+    expect(summarize(text, expected - 1).warnings[0]).toMatch(/describes \d+; it may be truncated$/)
+    expect(summarize(text, expected + 4).warnings[0]).toMatch(/describes \d+; it has trailing data$/)
+  })
+})
+
+describe('sniffSplat', () => {
+  it('reads a PLY from its header and counts its splats', () => {
+    const text = plyHeader(gaussianVertex(10))
+    const inspection = sniffSplat('https://example.org/room.ply?v=2', bytes(text), null)
+    expect(inspection).toMatchObject({ format: 'ply', detected_from: 'header', splat_count: 10, warnings: [] })
+    expect(inspectionError(inspection)).toBeNull()
+  })
+
+  it('refuses a point cloud with the reason first', () => {
+    const inspection = sniffSplat('cloud.ply', bytes(pointCloud), null)
+    expect(inspection.format).toBe('ply')
+    expect(inspectionError(inspection)).toMatch(/^Not a Gaussian splat PLY/)
+  })
+
+  it('notes a PLY behind the wrong extension', () => {
+    const inspection = sniffSplat('room.splat', bytes(plyHeader(gaussianVertex(1))), null)
+    expect(inspection.format).toBe('ply')
+    expect(inspection.warnings).toEqual(['File extension is .splat but the header is PLY'])
+  })
+
+  it('keeps a PLY whose header cannot be parsed, with the reason', () => {
+    const inspection = sniffSplat('room.ply', bytes('ply\nformat binary_little_endian 1.0\n'), null)
+    expect(inspection.format).toBe('ply')
+    expect(inspection.ply).toBeNull()
+    expect(inspection.warnings[0]).toMatch(/^No PLY header/)
+  })
+
+  it('recognises a SOG zip bundle and a SOG meta.json', () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0])
+    expect(sniffSplat('room.sog', zip, 6)).toMatchObject({ format: 'sog', warnings: [] })
+    expect(sniffSplat('bundle.zip', zip, 6).warnings).toEqual(['File extension is .zip but the header is SOG'])
+
+    const meta = sniffSplat('meta.json', bytes('  {"version": 2, "means": {}}'), null)
+    expect(meta).toMatchObject({ format: 'sog', detected_from: 'header' })
+  })
+
+  it('turns away gzip files and web pages', () => {
+    const gzip = sniffSplat('room.spz', new Uint8Array([0x1f, 0x8b, 8, 0]), 4)
+    expect(gzip.format).toBeNull()
+    expect(inspectionError(gzip)).toMatch(/^Gzip-compressed file/)
+
+    const page = sniffSplat('room.splat', bytes('<!DOCTYPE html><html></html>'), 64)
+    expect(page.format).toBeNull()
+    expect(inspectionError(page)).toMatch(/^Got a web page/)
+  })
+
+  it('takes raw .splat from a whole number of 32-byte records', () => {
+    const head = new Uint8Array(64).fill(7)
+    expect(sniffSplat('room.splat', head, 3200)).toMatchObject({
+      format: 'splat', detected_from: 'extension', splat_count: 100, warnings: []
+    })
+
+    const unnamed = sniffSplat('download', head, 3200)
+    expect(unnamed).toMatchObject({ format: 'splat', detected_from: 'size', splat_count: 100 })
+    expect(unnamed.warnings).toEqual(['No recognisable header; assuming raw .splat from the file size'])
+  })
+
+  it('falls back to the .splat extension when the size does not fit', () => {
+    const head = new Uint8Array(64).fill(7)
+    const odd = sniffSplat('room.splat', head, 3201)
+    expect(odd).toMatchObject({ format: 'splat', detected_from: 'extension', splat_count: null })
+    expect(odd.warnings[0]).toMatch(/may be truncated$/)
+
+    expect(sniffSplat('room.splat', head, null).warnings).toEqual([])
+  })
+
+  it('gives up on anything else', () => {
+    const unknown = sniffSplat('room.bin', new Uint8Array(64).fill(7), 3201)
+    expect(unknown.format).toBeNull()
+    expect(inspectionError(unknown)).toBe('Unrecognised file: not PLY, SOG or raw .splat')
+  })
+})
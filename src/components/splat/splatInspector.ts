@@ -0,0 +1,328 @@
+/**
+ * Splat file inspection
+ *
+ * Reads the first bytes of a splat file to tell its real format from the
+ * header rather than trusting the extension, and summarises PLY headers so
+ * a plain point cloud or a truncated upload is caught before a renderer
+ * fails on it.
+ */
+
+import { SplatFormat } from './viewerTypes'
+
+// Enough for any PLY header and every magic number we check
+const HEAD_BYTES = 64 * 1024
+
+// antimatter15 .splat: position, scale, color and rotation, no header
+const SPLAT_RECORD_BYTES = 32
+
+const PLY_TYPE_BYTES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8
+}
+
+// Properties every 3D Gaussian splatting PLY carries
+const GAUSSIAN_PROPERTIES = [
+  'x', 'y', 'z',
+  'f_dc_0', 'f_dc_1', 'f_dc_2',
+  'opacity',
+  'scale_0', 'scale_1', 'scale_2',
+  'rot_0', 'rot_1', 'rot_2', 'rot_3'
+]
+
+// PlayCanvas compressed PLY (.compressed.ply) packs them per chunk
+const COMPRESSED_PROPERTIES = ['packed_position', 'packed_rotation', 'packed_scale', 'packed_color']
+
+export type PlyEncoding = 'ascii' | 'binary_little_endian' | 'binary_big_endian'
+
+export interface PlyProperty {
+  name: string
+  /** Scalar type, or null for list properties */
+  type: string | null
+}
+
+export interface PlyElement {
+  name: string
+  count: number
+  properties: PlyProperty[]
+}
+
+export interface PlyHeader {
+  encoding: PlyEncoding
+  elements: PlyElement[]
+  /** Length of the header, up to and including end_header */
+  header_bytes: number
+}
+
+export interface PlySummary {
+  encoding: PlyEncoding
+  vertex_count: number
+  /** 0-3, or null when the f_rest_* count matches no degree */
+  sh_degree: number | null
+  /** Vertex properties, in file order */
+  properties: string[]
+  /** PlayCanvas compressed PLY */
+  compressed: boolean
+  is_gaussian: boolean
+}
+
+export interface SplatInspection {
+  url: string
+  /** null when the file is not a splat any renderer can load */
+  format: SplatFormat | null
+  detected_from: 'header' | 'extension' | 'size'
+  size_bytes: number | null
+  /** Gaussians in the file, where the format tells */
+  splat_count: number | null
+  ply: PlySummary | null
+  warnings: string[]
+}
+
+const startsWith = (bytes: Uint8Array, magic: number[]) =>
+  magic.every((byte, i) => bytes[i] === byte)
+
+const asciiHead = (bytes: Uint8Array, length: number) =>
+  new TextDecoder('ascii').decode(bytes.subarray(0, length))
+
+/** Extension of the URL path, lower case, ignoring any query string */
+function extensionOf(url: string): string | null {
+  const file = url.split(/[?#]/)[0].split('/').pop() ?? ''
+  const dot = file.lastIndexOf('.')
+  return dot > 0 ? file.slice(dot + 1).toLowerCase() : null
+}
+
+/** Parses the header of a PLY file; throws if there is none */
+export function parsePlyHeader(bytes: Uint8Array): PlyHeader {
+  const text = new TextDecoder('ascii').decode(bytes)
+  const end = text.indexOf('end_header')
+  if (!text.startsWith('ply') || end < 0) {
+    throw new Error(`No PLY header in the first ${Math.round(bytes.length / 1024)} KB`)
+  }
+  const newline = text.indexOf('\n', end)
+  const header_bytes = newline < 0 ? text.length : newline + 1
+
+  let encoding: PlyEncoding | null = null
+  const elements: PlyElement[] = []
+
+  for (const line of text.slice(0, end).split(/\r?\n/)) {
+    const [keyword, ...rest] = line.trim().split(/\s+/)
+    if (keyword === 'format') {
+      encoding = rest[0] as PlyEncoding
+    } else if (keyword === 'element') {
+      elements.push({ name: rest[0], count: Number(rest[1]), properties: [] })
+    } else if (keyword === 'property') {
+      const element = elements[elements.length - 1]
+      if (!element) throw new Error('PLY property before any element')
+      element.properties.push(rest[0] === 'list'
+        ? { name: rest[3], type: null }
+        : { name: rest[1], type: rest[0] })
+    }
+  }
+
+  if (encoding !== 'ascii' && encoding !== 'binary_little_endian' && encoding !== 'binary_big_endian') {
+    throw new Error(`Unknown PLY format "${encoding ?? ''}"`)
+  }
+  return { encoding, elements, header_bytes }
+}
+
+/** Degree whose (degree + 1)^2 - 1 coefficients per channel match the count */
+function shDegree(restCount: number): number | null {
+  for (let degree = 0; degree <= 3; degree++) {
+    if (restCount === 3 * ((degree + 1) ** 2 - 1)) return degree
+  }
+  return null
+}
+
+/** Byte size of the body, or null when a list property makes it variable */
+function bodyBytes(header: PlyHeader): number | null {
+  let total = 0
+  for (const element of header.elements) {
+    let stride = 0
+    for (const property of element.properties) {
+      const size = property.type ? PLY_TYPE_BYTES[property.type] : undefined
+      if (size === undefined) return null
+      stride += size
+    }
+    total += stride * element.count
+  }
+  return total
+}
+
+/** What a PLY header says about the splat, and anything that looks wrong */
+export function summarizePly(header: PlyHeader, sizeBytes: number | null): { summary: PlySummary; warnings: string[] } {
+  const warnings: string[] = []
+  const vertex = header.elements.find(e => e.name === 'vertex')
+  const properties = vertex?.properties.map(p => p.name) ?? []
+  const missingFrom = (names: string[]) => names.filter(name => !properties.includes(name))
+
+  const compressed = header.elements.some(e => e.name === 'chunk') && missingFrom(COMPRESSED_PROPERTIES).length === 0
+  // Compressed files keep their higher-order coefficients in a separate element
+  const shProperties = compressed
+    ? header.elements.find(e => e.name === 'sh')?.properties.map(p => p.name) ?? []
+    : properties
+  const restCount = shProperties.filter(name => name.startsWith('f_rest_')).length
+  const sh_degree = shDegree(restCount)
+
+  const missing = compressed ? [] : missingFrom(GAUSSIAN_PROPERTIES)
+  const is_gaussian = Boolean(vertex) && missing.length === 0
+
+  if (!vertex) {
+    warnings.push('Not a Gaussian splat PLY: it has no vertex element')
+  } else if (!is_gaussian) {
+    const pointCloud = missingFrom(['x', 'y', 'z']).length === 0 && missing.includes('f_dc_0')
+    warnings.push(`Not a Gaussian splat PLY${pointCloud ? ' (looks like a plain point cloud)' : ''}: missing ${missing.join(', ')}`)
+  }
+  if (vertex && vertex.count === 0) {
+    warnings.push('PLY has no vertices')
+  }
+  if (header.encoding !== 'binary_little_endian') {
+    warnings.push(`PLY is ${header.encoding}; renderers expect binary_little_endian`)
+  }
+  if (sh_degree === null) {
+    warnings.push(`${restCount} f_rest_* properties match no spherical harmonic degree`)
+  }
+
+  const body = header.encoding === 'ascii' ? null : bodyBytes(header)
+  if (body !== null && sizeBytes !== null && header.header_bytes + body !== sizeBytes) {
+    warnings.push(
+      `File is ${sizeBytes} bytes but its header describes ${header.header_bytes + body}; ` +
+      (sizeBytes < header.header_bytes + body ? 'it may be truncated' : 'it has trailing data')
+    )
+  }
+
+  return {
+    summary: {
+      encoding: header.encoding,
+      vertex_count: vertex?.count ?? 0,
+      sh_degree,
+      properties,
+      compressed,
+      is_gaussian
+    },
+    warnings
+  }
+}
+
+/**
+ * Works out the format from the first bytes of the file, falling back to
+ * the extension and file size for raw .splat, which has no header
+ */
+export function sniffSplat(url: string, head: Uint8Array, sizeBytes: number | null): SplatInspection {
+  const extension = extensionOf(url)
+  const result: SplatInspection = {
+    url,
+    format: null,
+    detected_from: 'header',
+    size_bytes: sizeBytes,
+    splat_count: null,
+    ply: null,
+    warnings: []
+  }
+  const mismatch = (format: SplatFormat) => {
+    if (extension && extension !== format) {
+      result.warnings.push(`File extension is .${extension} but the header is ${format.toUpperCase()}`)
+    }
+  }
+
+  if (asciiHead(head, 4) === 'ply\n' || asciiHead(head, 5) === 'ply\r\n') {
+    result.format = 'ply'
+    try {
+      const { summary, warnings } = summarizePly(parsePlyHeader(head), sizeBytes)
+      result.ply = summary
+      result.splat_count = summary.vertex_count
+      result.warnings.push(...warnings)
+    } catch (err) {
+      result.warnings.push(err instanceof Error ? err.message : String(err))
+    }
+    mismatch('ply')
+    return result
+  }
+
+  // SOG: a zip bundle, or its meta.json on its own
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    result.format = 'sog'
+    mismatch('sog')
+    return result
+  }
+  const text = asciiHead(head, 256).trimStart()
+  if (text.startsWith('{') && text.includes('"means"')) {
+    result.format = 'sog'
+    return result
+  }
+
+  if (startsWith(head, [0x1f, 0x8b])) {
+    result.warnings.push('Gzip-compressed file (.spz or .ksplat?); only .ply, .splat and .sog are supported')
+    return result
+  }
+  if (text.startsWith('<')) {
+    result.warnings.push('Got a web page, not a splat file; check the link is a direct download')
+    return result
+  }
+
+  // Raw .splat has no magic number; trust a whole number of 32-byte records
+  if (sizeBytes !== null && sizeBytes % SPLAT_RECORD_BYTES === 0) {
+    result.format = 'splat'
+    result.detected_from = extension === 'splat' ? 'extension' : 'size'
+    result.splat_count = sizeBytes / SPLAT_RECORD_BYTES
+    if (extension !== 'splat') {
+      result.warnings.push('No recognisable header; assuming raw .splat from the file size')
+    }
+    return result
+  }
+  if (extension === 'splat') {
+    result.format = 'splat'
+    result.detected_from = 'extension'
+    if (sizeBytes !== null) {
+      result.warnings.push(`Size is not a multiple of ${SPLAT_RECORD_BYTES} bytes; the .splat may be truncated`)
+    }
+    return result
+  }
+
+  result.warnings.push('Unrecognised file: not PLY, SOG or raw .splat')
+  return result
+}
+
+/** First bytes of the file and its total size, without downloading the rest */
+async function readHead(url: string, signal?: AbortSignal): Promise<{ head: Uint8Array; size: number | null }> {
+  const response = await fetch(url, { headers: { Range: `bytes=0-${HEAD_BYTES - 1}` }, signal })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  // 206 reports the full size in Content-Range; servers ignoring Range send it all
+  const range = response.headers.get('Content-Range')?.match(/\/(\d+)$/)
+  const length = response.headers.get('Content-Length')
+  const size = range ? Number(range[1]) : response.status === 200 && length ? Number(length) : null
+
+  if (!response.body) {
+    return { head: new Uint8Array(await response.arrayBuffer()).subarray(0, HEAD_BYTES), size }
+  }
+
+  const reader = response.body.getReader()
+  const head = new Uint8Array(HEAD_BYTES)
+  let received = 0
+  while (received < HEAD_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) break
+    const take = Math.min(value.length, HEAD_BYTES - received)
+    head.set(value.subarray(0, take), received)
+    received += take
+  }
+  await reader.cancel()
+  return { head: head.subarray(0, received), size }
+}
+
+/** Fetches the start of a splat file and reports what it really is */
+export async function inspectSplat(url: string, signal?: AbortSignal): Promise<SplatInspection> {
+  const { head, size } = await readHead(url, signal)
+  return sniffSplat(url, head, size)
+}
+
+/** Why a renderer should not be given this file, or null if it can */
+export function inspectionError(inspection: SplatInspection): string | null {
+  if (!inspection.format) return inspection.warnings[0] ?? 'Unrecognised splat file'
+  // summarizePly puts the reason first
+  if (inspection.ply && !inspection.ply.is_gaussian) return inspection.warnings[0]
+  return null
+}
@@ -0,0 +1,89 @@
+/**
+ * Renderer-agnostic splat viewer API
+ *
+ * SplatViewer picks an adapter (PlayCanvas, Spark or GaussianSplats3D) and
+ * every adapter implements the same props and imperative handle, so screens
+ * never touch a renderer directly.
+ */
+
+import { Ref } from 'react'
+import { CameraLimits, Equipment, Vec3Tuple } from '../../data/types'
+
+export type SplatRenderer = 'playcanvas' | 'spark' | 'gaussian-splats-3d'
+
+export const SPLAT_RENDERERS: SplatRenderer[] = ['playcanvas', 'spark', 'gaussian-splats-3d']
+
+/** Renderer from VITE_SPLAT_RENDERER; PlayCanvas when unset */
+function configuredRenderer(): SplatRenderer {
+  const value = import.meta.env.VITE_SPLAT_RENDERER
+  if (!value) return 'playcanvas'
+  if (SPLAT_RENDERERS.includes(value as SplatRenderer)) return value as SplatRenderer
+  console.warn(`Unknown VITE_SPLAT_RENDERER "${value}", using playcanvas`)
+  return 'playcanvas'
+}
+
+export const DEFAULT_SPLAT_RENDERER = configuredRenderer()
+
+export type SplatFormat = 'ply' | 'splat' | 'sog'
+
+/** Format from the file extension, ignoring any query string; PLY when unknown */
+export function formatFromUrl(url: string): SplatFormat {
+  const path = url.split(/[?#]/)[0].toLowerCase()
+  if (path.endsWith('.splat')) return 'splat'
+  if (path.endsWith('.sog')) return 'sog'
+  return 'ply'
+}
+
+/** Downloading the file, then decoding it and uploading it to the GPU */
+export type LoadStage = 'download' | 'parse'
+
+/** Scene-space camera position and the point it looks at (a CameraViewpoint fits) */
+export interface CameraPose {
+  position: Vec3Tuple
+  target: Vec3Tuple
+}
+
+export interface SplatViewerHandle {
+  /** Live camera pose, or null before the renderer is ready */
+  getCamera: () => CameraPose | null
+  /** Moves the camera, easing over duration_ms (0 jumps) */
+  setCamera: (pose: CameraPose, duration_ms?: number) => void
+}
+
+/** Props every renderer adapter implements */
+export interface SplatAdapterProps {
+  src: string
+  /** SplatViewer passes what the file header says; adapters fall back to the extension */
+  format?: SplatFormat
+  initialCamera: CameraPose
+  /** null lifts every limit (staff debug mode) */
+  limits?: CameraLimits | null
+  /** Equipment whose anchors are projected for markers and picking */
+  equipment?: Equipment[]
+  clearColor?: string
+  onLoadStart?: () => void
+  /** 0..1 within the current stage */
+  onProgress?: (progress: number, stage: LoadStage) => void
+  onLoad?: () => void
+  onError?: (message: string) => void
+  /** Called each frame the camera has moved */
+  onCameraChange?: (pose: CameraPose) => void
+  ref?: Ref<SplatViewerHandle>
+}
+
+export const DEFAULT_FLIGHT_MS = 1600
+
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+
+// Camera movements smaller than this (scene units) are not reported
+const POSE_EPSILON = 0.0005
+
+export function posesDiffer(a: CameraPose | null, b: CameraPose): boolean {
+  if (!a) return true
+  for (let i = 0; i < 3; i++) {
+    if (Math.abs(a.position[i] - b.position[i]) > POSE_EPSILON) return true
+    if (Math.abs(a.target[i] - b.target[i]) > POSE_EPSILON) return true
+  }
+  return false
+}
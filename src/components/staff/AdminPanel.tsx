@@ -0,0 +1,261 @@
+import { ReactNode, useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useKioskStore, Language } from '../../stores/kioskStore'
+import { getContentSource } from '../../services/contentService'
+import {
+  ContentSnapshot,
+  MEDIA_CACHE,
+  SyncResult,
+  getActiveSnapshot,
+  getLastSyncResult,
+  syncContent
+} from '../../services/contentSync'
+import { getPendingAnalyticsCount } from '../../services/analytics'
+import { SplatLoadFailure, clearSplatLoadFailures, getSplatLoadFailures } from '../../services/splatDiagnostics'
+import { saveKioskSettings } from '../../services/kioskSettings'
+import { STAFF_ANALYTICS_ROUTE, STAFF_HOTSPOTS_ROUTE, STAFF_VIEWPOINTS_ROUTE } from '../../routes'
+import { PinPad } from './PinPad'
+import { grantStaffAccess } from './staffAccess'
+
+interface AdminPanelProps {
+  onClose: () => void
+}
+
+interface KioskStatus {
+  snapshot: ContentSnapshot | null
+  last_sync: SyncResult | null
+  storage: StorageEstimate | null
+  persisted: boolean | null
+  media_files: number | null
+  pending_events: number | null
+  splat_failures: SplatLoadFailure[] | null
+}
+
+const IDLE_TIMEOUT_OPTIONS_MS = [30_000, 60_000, 90_000, 120_000, 180_000, 300_000]
+// Newest splat load failures listed; the rest are only counted
+const SHOWN_SPLAT_FAILURES = 10
+
+const orNull = <T,>(promise: Promise<T>) => promise.catch(() => null)
+
+async function loadStatus(): Promise<KioskStatus> {
+  const [snapshot, last_sync, storage, persisted, media_files, pending_events, splat_failures] = await Promise.all([
+    orNull(getActiveSnapshot()),
+    orNull(getLastSyncResult()),
+    orNull(navigator.storage?.estimate() ?? Promise.reject()),
+    orNull(navigator.storage?.persisted() ?? Promise.reject()),
+    // caches is undefined outside a secure context, and touching it throws
+    orNull(Promise.resolve().then(() => caches.open(MEDIA_CACHE)).then(cache => cache.keys()).then(keys => keys.length)),
+    orNull(getPendingAnalyticsCount()),
+    orNull(getSplatLoadFailures())
+  ])
+  return { snapshot, last_sync, storage, persisted, media_files, pending_events, splat_failures }
+}
+
+const formatBytes = (bytes?: number) =>
+  bytes === undefined ? '—' : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+const formatTime = (at?: number) => (at ? new Date(at).toLocaleString() : '—')
+
+const fileName = (src: string) => src.split(/[?#]/)[0].split('/').pop() || src
+
+const formatTimeout = (ms: number) =>
+  ms < 60_000 ? `${ms / 1000} s` : `${ms / 60_000} min`
+
+const buttonClass = 'px-4 py-3 rounded text-sm transition-colors disabled:opacity-40'
+const choiceClass = (selected: boolean) =>
+  `${buttonClass} ${selected ? 'bg-[#8b6f47] text-white' : 'bg-[#3d3530] hover:bg-[#4a403a]'}`
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1 border-t border-[#3d3530] text-sm">
+      <span className="text-[#a89a88]">{label}</span>
+      <span className="text-right break-all">{children}</span>
+    </div>
+  )
+}
+
+/**
+ * PIN-protected panel for floor staff, opened with a long press in the
+ * kiosk's bottom-left corner: build and content versions, storage, sync
+ * status, splat load failures, idle timeout and default language, resync
+ * and reload, and the way into the hotspot editor and visitor analytics
+ */
+export function AdminPanel({ onClose }: AdminPanelProps) {
+  const [unlocked, setUnlocked] = useState(false)
+  const [status, setStatus] = useState<KioskStatus | null>(null)
+  const [syncing, setSyncing] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const idleTimeoutMs = useKioskStore(state => state.idle_timeout_ms)
+  const defaultLanguage = useKioskStore(state => state.default_language)
+  const setLanguage = useKioskStore(state => state.setLanguage)
+  const navigate = useNavigate()
+
+  const refresh = useCallback(() => {
+    loadStatus()
+      .then(setStatus)
+      .catch(err => setMessage(`Could not read kiosk status: ${err instanceof Error ? err.message : String(err)}`))
+  }, [])
+
+  useEffect(() => {
+    if (unlocked) refresh()
+  }, [unlocked, refresh])
+
+  const save = async (idle_timeout_ms: number, default_language: Language) => {
+    try {
+      await saveKioskSettings({ idle_timeout_ms, default_language })
+      setMessage('Settings saved')
+    } catch (err) {
+      setMessage(`Applied until reload; could not save: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const resync = async () => {
+    setSyncing(true)
+    setMessage(null)
+    const result = await syncContent(undefined, { force: true })
+    setSyncing(false)
+    setMessage(`Sync ${result.status}${result.error ? `: ${result.error}` : ''}`)
+    refresh()
+  }
+
+  const clearFailures = async () => {
+    try {
+      await clearSplatLoadFailures()
+    } catch (err) {
+      setMessage(`Could not clear splat failures: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    refresh()
+  }
+
+  const openStaffScreen = (route: string) => {
+    grantStaffAccess()
+    onClose()
+    navigate(route)
+  }
+
+  const lastSync = status?.last_sync
+  const splatFailures = status?.splat_failures ?? []
+
+  return (
+    <div className="absolute inset-0 z-[70] bg-black/70 flex items-center justify-center">
+      <div className="bg-[#2a2622] text-[#d4c5b0] rounded-lg p-6 w-[36rem] max-h-full overflow-y-auto">
+        {!unlocked ? (
+          <PinPad onUnlock={() => setUnlocked(true)} onCancel={onClose} />
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between">
+              <h1 className="text-xl font-bold">Kiosk Admin</h1>
+              <button onClick={onClose} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+                Close
+              </button>
+            </div>
+
+            <section>
+              <Row label="App version">{__APP_VERSION__} (built {formatTime(Date.parse(__BUILD_TIME__))})</Row>
+              <Row label="Content">
+                {getContentSource() === 'snapshot' && status?.snapshot
+                  ? `snapshot ${status.snapshot.version}, synced ${formatTime(status.snapshot.synced_at)}`
+                  : 'bundled seed'}
+              </Row>
+              <Row label="Last sync">
+                {lastSync
+                  ? `${lastSync.status} at ${formatTime(lastSync.at)}${lastSync.error ? ` — ${lastSync.error}` : ''}`
+                  : 'never'}
+              </Row>
+              <Row label="Storage used">
+                {formatBytes(status?.storage?.usage)} of {formatBytes(status?.storage?.quota)}
+                {status?.persisted === false && ' (may be evicted)'}
+              </Row>
+              <Row label="Cached media files">{status?.media_files ?? '—'}</Row>
+              <Row label="Analytics waiting to upload">{status?.pending_events ?? '—'}</Row>
+              <Row label="Network">{navigator.onLine ? 'online' : 'offline'}</Row>
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold">Idle timeout</h2>
+              <div className="grid grid-cols-6 gap-2">
+                {IDLE_TIMEOUT_OPTIONS_MS.map(ms => (
+                  <button key={ms} onClick={() => save(ms, defaultLanguage)} className={choiceClass(ms === idleTimeoutMs)}>
+                    {formatTimeout(ms)}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold">Default language</h2>
+              <div className="grid grid-cols-2 gap-2">
+                {([['en', 'English'], ['fr', 'French']] as const).map(([language, label]) => (
+                  <button
+                    key={language}
+                    onClick={() => {
+                      setLanguage(language)
+                      save(idleTimeoutMs, language)
+                    }}
+                    className={choiceClass(language === defaultLanguage)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={resync} disabled={syncing} className={`${buttonClass} bg-[#8b6f47] hover:bg-[#a08759] text-white`}>
+                  {syncing ? 'Syncing…' : 'Resync content'}
+                </button>
+                <button onClick={() => window.location.reload()} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+                  Reload app
+                </button>
+              </div>
+              {message && <p className="text-xs">{message}</p>}
+            </section>
+
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold">Splat load failures ({splatFailures.length})</h2>
+                <button
+                  onClick={clearFailures}
+                  disabled={splatFailures.length === 0}
+                  className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+                >
+                  Clear
+                </button>
+              </div>
+              {splatFailures.length === 0 ? (
+                <p className="text-xs text-[#a89a88]">None recorded</p>
+              ) : (
+                <ul className="text-xs space-y-1">
+                  {splatFailures.slice(0, SHOWN_SPLAT_FAILURES).map(failure => (
+                    <li key={`${failure.at}-${failure.attempt}`} className="border-t border-[#3d3530] pt-1">
+                      <span className="text-[#a89a88]">{formatTime(failure.at)}</span>{' '}
+                      {fileName(failure.src)} on {failure.renderer}, try {failure.attempt}, {failure.stage} at{' '}
+                      {Math.round(failure.progress * 100)}%{failure.online ? '' : ' (offline)'}
+                      <div className="text-[#e08070] break-all">{failure.error}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="text-sm font-semibold">Staff tools</h2>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => openStaffScreen(STAFF_HOTSPOTS_ROUTE)} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+                  Hotspot editor
+                </button>
+                <button onClick={() => openStaffScreen(STAFF_ANALYTICS_ROUTE)} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+                  Visitor analytics
+                </button>
+                <button onClick={() => openStaffScreen(STAFF_VIEWPOINTS_ROUTE)} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+                  Viewpoint editor
+                </button>
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useContent } from '../../hooks/useContent'
+import {
+  ANALYTICS_RETENTION_DAYS,
+  FlushResult,
+  flushAnalytics,
+  getAnalyticsEvents,
+  getLastFlushResult,
+  getPendingAnalyticsCount
+} from '../../services/analytics'
+import { DailySummary, summariesToCsv, summarizeByDay } from '../../services/analyticsReport'
+
+const download = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—'
+  const seconds = Math.round(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+const FLUSH_STATUS: Record<FlushResult['status'], string> = {
+  flushed: 'uploaded',
+  empty: 'nothing to upload',
+  offline: 'offline',
+  unconfigured: 'Supabase is not configured',
+  failed: 'failed'
+}
+
+/**
+ * Staff view of the visitor analytics kept on this kiosk: what is waiting
+ * to upload, a summary per day, and CSV or JSON exports of those summaries
+ */
+export function AnalyticsDashboard() {
+  const content = useContent()
+  const [summaries, setSummaries] = useState<DailySummary[]>([])
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+  const [pending, setPending] = useState<number | null>(null)
+  const [lastFlush, setLastFlush] = useState<FlushResult | null>(null)
+  const [flushing, setFlushing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [events, pendingCount, flush] = await Promise.all([
+        getAnalyticsEvents(),
+        getPendingAnalyticsCount(),
+        getLastFlushResult()
+      ])
+      const days = summarizeByDay(events)
+      setSummaries(days)
+      setSelectedDate(current => current ?? days[0]?.date ?? null)
+      setPending(pendingCount)
+      setLastFlush(flush)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const upload = async () => {
+    setFlushing(true)
+    await flushAnalytics()
+    setFlushing(false)
+    load()
+  }
+
+  const equipmentName = useMemo(() => {
+    const names = new Map(content.equipment.map(e => [e.id, e.name.en]))
+    return (id: string) => names.get(id) ?? id
+  }, [content.equipment])
+
+  const selected = summaries.find(s => s.date === selectedDate) ?? null
+  const buttonClass = 'px-3 py-2 rounded text-sm transition-colors disabled:opacity-40 bg-[#3d3530] hover:bg-[#4a403a]'
+
+  return (
+    <div className="w-screen h-screen bg-[#1f1c1a] text-[#d4c5b0] flex">
+      {/* Days */}
+      <div className="w-96 bg-[#2a2622] border-r border-[#3d3530] flex flex-col overflow-y-auto">
+        <div className="p-4 border-b border-[#3d3530]">
+          <h1 className="text-xl font-bold">Visitor Analytics</h1>
+          <p className="text-xs text-[#a89a88]">Anonymous counts kept on this kiosk for {ANALYTICS_RETENTION_DAYS} days</p>
+        </div>
+
+        <div className="p-4 border-b border-[#3d3530] space-y-2 text-sm">
+          <p>Waiting to upload: {pending ?? '…'}</p>
+          {lastFlush && (
+            <p className="text-xs text-[#a89a88]">
+              Last upload {new Date(lastFlush.at).toLocaleString()}: {FLUSH_STATUS[lastFlush.status]}
+              {lastFlush.count > 0 && ` (${lastFlush.count} events)`}
+              {lastFlush.error && ` — ${lastFlush.error}`}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button onClick={upload} disabled={flushing} className={buttonClass}>
+              {flushing ? 'Uploading…' : 'Upload now'}
+            </button>
+            <button
+              onClick={() => download('kiosk-analytics.csv', summariesToCsv(summaries), 'text/csv')}
+              disabled={summaries.length === 0}
+              className={buttonClass}
+            >
+              All days (CSV)
+            </button>
+          </div>
+          {error && <p className="text-xs text-[#e08070]">{error}</p>}
+        </div>
+
+        <ul className="p-2 space-y-1">
+          {summaries.map(s => (
+            <li key={s.date}>
+              <button
+                onClick={() => setSelectedDate(s.date)}
+                className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm text-left ${
+                  s.date === selectedDate ? 'bg-[#8b6f47] text-white' : 'hover:bg-[#3d3530]'
+                }`}
+              >
+                <span>{s.date}</span>
+                <span className="text-xs opacity-70">{s.visits} visits</span>
+              </button>
+            </li>
+          ))}
+          {summaries.length === 0 && !error && (
+            <li className="px-2 py-1 text-sm text-[#a89a88]">No visitor activity recorded yet</li>
+          )}
+        </ul>
+      </div>
+
+      {/* Selected day */}
+      <div className="flex-1 overflow-y-auto p-6">
+        {selected && (
+          <div className="max-w-3xl space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">{selected.date}</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => download(`kiosk-analytics-${selected.date}.csv`, summariesToCsv([selected]), 'text/csv')}
+                  className={buttonClass}
+                >
+                  Download CSV
+                </button>
+                <button
+                  onClick={() => download(
+                    `kiosk-analytics-${selected.date}.json`,
+                    JSON.stringify(selected, null, 2),
+                    'application/json'
+                  )}
+                  className={buttonClass}
+                >
+                  Download JSON
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3 text-sm">
+              {[
+                ['Visits', String(selected.visits)],
+                ['Median visit', formatDuration(selected.median_visit_ms)],
+                ['Quiz answers', `${selected.quiz.correct}/${selected.quiz.answers} correct`],
+                ['Language switches', `${selected.language_switches.fr} to FR, ${selected.language_switches.en} to EN`]
+              ].map(([label, value]) => (
+                <div key={label} className="bg-[#2a2622] rounded p-3">
+                  <p className="text-xs text-[#a89a88]">{label}</p>
+                  <p className="text-base">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Equipment</h3>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-[#a89a88] text-left">
+                  <tr>
+                    <th className="py-1 font-normal">Equipment</th>
+                    <th className="py-1 font-normal text-right">Selections</th>
+                    <th className="py-1 font-normal text-right">Median time</th>
+                    <th className="py-1 font-normal text-right">Total time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.equipment.map(e => (
+                    <tr key={e.equipment_id} className="border-t border-[#3d3530]">
+                      <td className="py-1">{equipmentName(e.equipment_id)}</td>
+                      <td className="py-1 text-right">{e.selections}</td>
+                      <td className="py-1 text-right">{formatDuration(e.median_dwell_ms)}</td>
+                      <td className="py-1 text-right">{formatDuration(e.dwell_ms)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Features</h3>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-[#a89a88] text-left">
+                  <tr>
+                    <th className="py-1 font-normal">Feature</th>
+                    <th className="py-1 font-normal text-right">Entries</th>
+                    <th className="py-1 font-normal text-right">Total time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.features.map(f => (
+                    <tr key={f.feature} className="border-t border-[#3d3530]">
+                      <td className="py-1 capitalize">{f.feature}</td>
+                      <td className="py-1 text-right">{f.entries}</td>
+                      <td className="py-1 text-right">{formatDuration(f.dwell_ms)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,542 @@
+import { ChangeEvent, PointerEvent, useEffect, useMemo, useRef, useState } from 'react'
+import { Equipment, HotspotCoordinates } from '../../data/types'
+import { useContent } from '../../hooks/useContent'
+import { useContainedSize } from '../../hooks/useContainedSize'
+import { getSupabaseClient } from '../../services/supabase'
+import { saveEquipmentHotspot } from '../../services/contentService'
+import { HotspotOverlay, CATEGORY_COLORS } from '../shared/HotspotOverlay'
+import { MASTER_IMAGE_ASPECT, Point, findHotspotAt, hitTestHotspot } from '../shared/hotspotGeometry'
+import {
+  Handle,
+  ShapeType,
+  handlesFor,
+  moveHandle,
+  removeVertex,
+  shapeFromDrag,
+  snap,
+  translateShape,
+  validateHotspot
+} from './hotspotEditing'
+
+type Tool = 'edit' | ShapeType
+
+type Drag =
+  | { kind: 'handle'; handle: Handle }
+  | { kind: 'move'; last: Point }
+  | { kind: 'draw'; type: 'circle' | 'rectangle'; start: Point }
+
+const TOOLS: Array<{ id: Tool; label: string; hint: string }> = [
+  { id: 'edit', label: 'Select / edit', hint: 'Tap a hotspot to select it, drag it or its handles to adjust' },
+  { id: 'circle', label: 'Circle', hint: 'Drag out from the centre' },
+  { id: 'rectangle', label: 'Rectangle', hint: 'Drag from one corner to the opposite corner' },
+  { id: 'polygon', label: 'Polygon', hint: 'Tap each corner, then press Finish (or Enter)' }
+]
+
+const sameShape = (a: HotspotCoordinates, b: HotspotCoordinates) =>
+  JSON.stringify(a) === JSON.stringify(b)
+
+const storedShapes = (equipment: Equipment[]): Record<string, HotspotCoordinates> =>
+  Object.fromEntries(equipment.map(e => [e.id, e.hotspot.coordinates]))
+
+/**
+ * Drafts on top of newly stored shapes: unsaved edits are kept, everything
+ * else takes the new shape, and removed equipment is dropped
+ */
+function rebaseDrafts(
+  drafts: Record<string, HotspotCoordinates>,
+  previous: Record<string, HotspotCoordinates>,
+  stored: Record<string, HotspotCoordinates>
+): Record<string, HotspotCoordinates> {
+  return Object.fromEntries(Object.entries(stored).map(([id, shape]) => {
+    const draft = drafts[id]
+    const edited = draft && previous[id] && !sameShape(draft, previous[id])
+    return [id, edited ? draft : shape]
+  }))
+}
+
+const shapePath = (coords: HotspotCoordinates) => {
+  switch (coords.type) {
+    case 'circle':
+      return { cx: coords.center_x, cy: coords.center_y, rx: coords.radius, ry: coords.radius * MASTER_IMAGE_ASPECT }
+    case 'rectangle':
+      return { x: coords.x, y: coords.y, width: coords.width, height: coords.height }
+    case 'polygon':
+      return { points: coords.points.map(p => `${p.x},${p.y}`).join(' ') }
+  }
+}
+
+const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Staff tool for drawing equipment hotspots over the master image
+ * (or any screenshot of the same framing, e.g. a splat snapshot).
+ * Edits stay local until exported as JSON or saved to kiosk_equipment.
+ */
+export function HotspotEditor() {
+  const content = useContent()
+  const client = getSupabaseClient()
+
+  // Last known stored shape per equipment, used for "changed" and revert
+  const [saved, setSaved] = useState(() => storedShapes(content.equipment))
+  const [drafts, setDrafts] = useState(saved)
+  const [seededFrom, setSeededFrom] = useState(content.equipment)
+  const [selectedId, setSelectedId] = useState<string | null>(content.equipment[0]?.id ?? null)
+  const [tool, setTool] = useState<Tool>('edit')
+  const [pendingPolygon, setPendingPolygon] = useState<Point[]>([])
+  const [preview, setPreview] = useState(false)
+  const [background, setBackground] = useState(content.master_image_url)
+  const [status, setStatus] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Content synced after mount replaces the stored shapes under the drafts
+  if (seededFrom !== content.equipment) {
+    const stored = storedShapes(content.equipment)
+    setSeededFrom(content.equipment)
+    setSaved(stored)
+    setDrafts(prev => rebaseDrafts(prev, saved, stored))
+    if (!selectedId || !stored[selectedId]) setSelectedId(content.equipment[0]?.id ?? null)
+    setStatus('Content updated; unsaved edits were kept')
+  }
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const drag = useRef<Drag | null>(null)
+  const { width, height } = useContainedSize(containerRef, MASTER_IMAGE_ASPECT)
+
+  // Equipment as the kiosk would see it with the current drafts
+  const draftEquipment = useMemo<Equipment[]>(
+    () => content.equipment.map(item => ({
+      ...item,
+      hotspot: {
+        ...item.hotspot,
+        shape: drafts[item.id]?.type ?? item.hotspot.shape,
+        coordinates: drafts[item.id] ?? item.hotspot.coordinates,
+        label: item.name,
+        pulse_animation: true
+      }
+    })),
+    [content.equipment, drafts]
+  )
+
+  const selected = draftEquipment.find(e => e.id === selectedId) ?? null
+  const selectedShape = selectedId ? drafts[selectedId] : undefined
+  const problems = selectedShape ? validateHotspot(selectedShape) : []
+  const changedIds = Object.keys(drafts).filter(id => saved[id] && !sameShape(drafts[id], saved[id]))
+
+  // Release object URLs from locally loaded snapshots
+  useEffect(() => {
+    if (!background.startsWith('blob:')) return
+    return () => URL.revokeObjectURL(background)
+  }, [background])
+
+  // Functional updates so fast pointer moves never build on a stale shape
+  const updateSelected = (
+    update: HotspotCoordinates | ((coords: HotspotCoordinates) => HotspotCoordinates)
+  ) => {
+    if (!selectedId) return
+    setDrafts(prev => ({
+      ...prev,
+      [selectedId]: typeof update === 'function' ? update(prev[selectedId]) : update
+    }))
+  }
+
+  const chooseTool = (next: Tool) => {
+    setTool(next)
+    setPendingPolygon([])
+  }
+
+  const finishPolygon = () => {
+    if (pendingPolygon.length >= 3) {
+      updateSelected({ type: 'polygon', points: pendingPolygon })
+      setTool('edit')
+    }
+    setPendingPolygon([])
+  }
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (tool !== 'polygon') return
+      if (e.key === 'Enter') finishPolygon()
+      if (e.key === 'Escape') setPendingPolygon([])
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  })
+
+  const toPercent = (e: PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
+    }
+  }
+
+  const handleCanvasDown = (e: PointerEvent<HTMLDivElement>) => {
+    const p = toPercent(e)
+
+    if (tool === 'polygon') {
+      if (selectedId) setPendingPolygon(prev => [...prev, { x: snap(p.x), y: snap(p.y) }])
+      return
+    }
+
+    if (tool === 'circle' || tool === 'rectangle') {
+      if (!selectedId) return
+      drag.current = { kind: 'draw', type: tool, start: p }
+      updateSelected(shapeFromDrag(tool, p, p))
+    } else if (selectedShape && hitTestHotspot(selectedShape, p)) {
+      drag.current = { kind: 'move', last: p }
+    } else {
+      const hit = findHotspotAt(draftEquipment, p)
+      if (hit) setSelectedId(hit.id)
+      return
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handleHandleDown = (e: PointerEvent<HTMLDivElement>, handle: Handle) => {
+    e.stopPropagation()
+    if (!selectedShape) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+
+    if (handle.kind === 'midpoint') {
+      // Dragging an edge midpoint inserts a vertex there and then drags it
+      updateSelected(moveHandle(selectedShape, handle, handle.point))
+      drag.current = {
+        kind: 'handle',
+        handle: { kind: 'vertex', index: (handle.index ?? 0) + 1, point: handle.point }
+      }
+    } else if (selectedShape.type === 'rectangle') {
+      // Redraw from the opposite corner so the rectangle can be dragged inside out
+      const corners = handlesFor(selectedShape)
+      const opposite = corners[(corners.findIndex(c => c.kind === handle.kind) + 2) % 4]
+      drag.current = { kind: 'draw', type: 'rectangle', start: opposite.point }
+    } else {
+      drag.current = { kind: 'handle', handle }
+    }
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = drag.current
+    if (!d) return
+    const p = toPercent(e)
+
+    switch (d.kind) {
+      case 'handle':
+        updateSelected(coords => moveHandle(coords, d.handle, p))
+        break
+      case 'move':
+        updateSelected(coords => translateShape(coords, p.x - d.last.x, p.y - d.last.y))
+        drag.current = { kind: 'move', last: p }
+        break
+      case 'draw':
+        updateSelected(shapeFromDrag(d.type, d.start, p))
+        break
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (drag.current?.kind === 'draw') setTool('edit')
+    drag.current = null
+  }
+
+  const handleBackgroundFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) setBackground(URL.createObjectURL(file))
+  }
+
+  const copySelected = async () => {
+    if (!selectedShape) return
+    await navigator.clipboard.writeText(JSON.stringify(selectedShape, null, 2))
+    setStatus(`Copied ${selectedId} to the clipboard`)
+  }
+
+  const exportAll = () => {
+    const invalid = Object.keys(drafts).filter(id => validateHotspot(drafts[id]).length > 0)
+    if (invalid.length > 0) {
+      setStatus(`Fix before exporting: ${invalid.join(', ')}`)
+      return
+    }
+    downloadJson('hotspots.json', drafts)
+    setStatus(`Exported ${Object.keys(drafts).length} hotspots`)
+  }
+
+  const saveChanged = async () => {
+    if (!client) return
+    const invalid = changedIds.filter(id => validateHotspot(drafts[id]).length > 0)
+    if (invalid.length > 0) {
+      setStatus(`Fix before saving: ${invalid.join(', ')}`)
+      return
+    }
+
+    setSaving(true)
+    const failures: string[] = []
+    for (const id of changedIds) {
+      try {
+        await saveEquipmentHotspot(client, id, drafts[id])
+        setSaved(prev => ({ ...prev, [id]: drafts[id] }))
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : String(err))
+      }
+    }
+    setSaving(false)
+    setStatus(failures.length > 0
+      ? failures.join('; ')
+      : `Saved ${changedIds.length} hotspots. Bump kiosk_projects.updated_at to publish them to kiosks.`)
+  }
+
+  const handles = selectedShape && tool === 'edit' && !preview ? handlesFor(selectedShape) : []
+  const buttonClass = 'px-3 py-2 rounded text-sm transition-colors disabled:opacity-40'
+
+  return (
+    <div className="w-screen h-screen bg-[#1f1c1a] text-[#d4c5b0] flex">
+      {/* Canvas */}
+      <div ref={containerRef} className="flex-1 relative m-4">
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div
+            ref={canvasRef}
+            className="relative bg-[#2a2622] select-none touch-none"
+            style={{ width, height, cursor: tool === 'edit' ? 'default' : 'crosshair' }}
+            onPointerDown={preview ? undefined : handleCanvasDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              src={background}
+              alt=""
+              draggable={false}
+              className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+            />
+
+            {preview ? (
+              <HotspotOverlay
+                equipment={draftEquipment}
+                selectedId={selectedId}
+                onSelect={(item) => setSelectedId(item.id)}
+              />
+            ) : (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+              >
+                {draftEquipment.map((item) => {
+                  const coords = item.hotspot.coordinates
+                  const active = item.id === selectedId
+                  const props = {
+                    ...shapePath(coords),
+                    fill: CATEGORY_COLORS[item.color_category],
+                    fillOpacity: active ? 0.45 : 0.15,
+                    stroke: active ? '#ffffff' : CATEGORY_COLORS[item.color_category],
+                    strokeWidth: active ? 2 : 1,
+                    vectorEffect: 'non-scaling-stroke' as const
+                  }
+                  if (coords.type === 'circle') return <ellipse key={item.id} {...props} />
+                  if (coords.type === 'rectangle') return <rect key={item.id} {...props} />
+                  return <polygon key={item.id} {...props} />
+                })}
+
+                {pendingPolygon.length > 0 && (
+                  <polyline
+                    points={pendingPolygon.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke="#ffffff"
+                    strokeWidth={2}
+                    strokeDasharray="4 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            )}
+
+            {/* Handles are HTML so they stay round and finger-sized */}
+            {handles.map((handle) => (
+              <div
+                key={`${handle.kind}-${handle.index ?? ''}`}
+                onPointerDown={(e) => handleHandleDown(e, handle)}
+                onDoubleClick={() =>
+                  handle.kind === 'vertex' && updateSelected(coords => removeVertex(coords, handle.index ?? 0))
+                }
+                title={handle.kind === 'vertex' ? 'Drag to move, double-click to remove' : undefined}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white cursor-move ${
+                  handle.kind === 'midpoint' ? 'w-3 h-3 bg-white/40' : 'w-5 h-5 bg-[#8b6f47]'
+                }`}
+                style={{ left: `${handle.point.x}%`, top: `${handle.point.y}%` }}
+              />
+            ))}
+
+            {pendingPolygon.map((p, i) => (
+              <div
+                key={i}
+                className="absolute -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-white pointer-events-none"
+                style={{ left: `${p.x}%`, top: `${p.y}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div className="w-96 bg-[#2a2622] border-l border-[#3d3530] flex flex-col overflow-y-auto">
+        <div className="p-4 border-b border-[#3d3530]">
+          <h1 className="text-xl font-bold">Hotspot Editor</h1>
+          <p className="text-xs text-[#a89a88]">Coordinates are % of the image; circle radius is % of the width</p>
+        </div>
+
+        {/* Background */}
+        <div className="p-4 border-b border-[#3d3530] space-y-2">
+          <label className="block text-sm">Background image</label>
+          <input
+            type="text"
+            value={background.startsWith('blob:') ? '' : background}
+            placeholder="Local file"
+            onChange={(e) => setBackground(e.target.value)}
+            className="w-full px-2 py-1 bg-[#1f1c1a] border border-[#3d3530] rounded text-sm"
+          />
+          <div className="flex gap-2 items-center">
+            <input type="file" accept="image/*" onChange={handleBackgroundFile} className="text-xs flex-1" />
+            <button
+              onClick={() => setBackground(content.master_image_url)}
+              className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+            >
+              Master
+            </button>
+          </div>
+        </div>
+
+        {/* Equipment */}
+        <div className="p-4 border-b border-[#3d3530]">
+          <h2 className="text-sm font-semibold mb-2">Equipment</h2>
+          <ul className="space-y-1">
+            {draftEquipment.map((item) => (
+              <li key={item.id}>
+                <button
+                  onClick={() => {
+                    setSelectedId(item.id)
+                    setPendingPolygon([])
+                  }}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-left ${
+                    item.id === selectedId ? 'bg-[#8b6f47] text-white' : 'hover:bg-[#3d3530]'
+                  }`}
+                >
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: CATEGORY_COLORS[item.color_category] }}
+                  />
+                  <span className="flex-1 truncate">{item.name.en}</span>
+                  <span className="text-xs opacity-70">{item.hotspot.coordinates.type}</span>
+                  {changedIds.includes(item.id) && <span title="Unsaved changes">●</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Tools */}
+        <div className="p-4 border-b border-[#3d3530] space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {TOOLS.map((t) => (
+              <button
+                key={t.id}
+                onClick={() => chooseTool(t.id)}
+                disabled={preview || (t.id !== 'edit' && !selected)}
+                className={`${buttonClass} ${tool === t.id ? 'bg-[#8b6f47] text-white' : 'bg-[#3d3530] hover:bg-[#4a403a]'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-[#a89a88]">
+            {TOOLS.find(t => t.id === tool)?.hint}
+            {tool !== 'edit' && selected && ` — replaces the hotspot for ${selected.name.en}`}
+          </p>
+          {tool === 'polygon' && (
+            <div className="flex gap-2">
+              <button
+                onClick={finishPolygon}
+                disabled={pendingPolygon.length < 3}
+                className={`${buttonClass} bg-[#8b6f47] text-white`}
+              >
+                Finish ({pendingPolygon.length} points)
+              </button>
+              <button
+                onClick={() => setPendingPolygon([])}
+                className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+              >
+                Clear
+              </button>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={preview}
+              onChange={(e) => {
+                setPreview(e.target.checked)
+                chooseTool('edit')
+              }}
+            />
+            Preview as on the kiosk (pulse and labels)
+          </label>
+        </div>
+
+        {/* Selected shape */}
+        {selected && selectedShape && (
+          <div className="p-4 border-b border-[#3d3530] space-y-2">
+            <h2 className="text-sm font-semibold">{selected.name.en} <span className="opacity-60">({selected.id})</span></h2>
+            <pre className="text-xs bg-[#1f1c1a] p-2 rounded overflow-x-auto max-h-48">
+              {JSON.stringify(selectedShape, null, 2)}
+            </pre>
+            {problems.map((problem) => (
+              <p key={problem} className="text-xs text-[#e08070]">{problem}</p>
+            ))}
+            <div className="flex gap-2">
+              <button
+                onClick={copySelected}
+                disabled={problems.length > 0}
+                className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+              >
+                Copy JSON
+              </button>
+              <button
+                onClick={() => selectedId && updateSelected(saved[selectedId])}
+                disabled={!changedIds.includes(selected.id)}
+                className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+              >
+                Revert
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Export / save */}
+        <div className="p-4 space-y-2">
+          <div className="flex gap-2">
+            <button onClick={exportAll} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+              Download all (JSON)
+            </button>
+            <button
+              onClick={saveChanged}
+              disabled={!client || saving || changedIds.length === 0}
+              className={`${buttonClass} bg-[#8b6f47] hover:bg-[#a08759] text-white`}
+            >
+              {saving ? 'Saving…' : `Save ${changedIds.length} to Supabase`}
+            </button>
+          </div>
+          {!client && (
+            <p className="text-xs text-[#a89a88]">Supabase is not configured; use the JSON export</p>
+          )}
+          {status && <p className="text-xs">{status}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+
+interface PinPadProps {
+  onUnlock: () => void
+  onCancel: () => void
+}
+
+const MAX_PIN_ATTEMPTS = 5
+const PIN_LOCKOUT_MS = 60_000
+
+// Shared by every staff screen and survives closing and reopening them
+let failedAttempts = 0
+let lockedUntil = 0
+
+const buttonClass = 'px-4 py-3 rounded text-sm transition-colors disabled:opacity-40'
+
+/**
+ * Keypad for the staff PIN (VITE_ADMIN_PIN); locks for a minute after
+ * five wrong tries
+ */
+export function PinPad({ onUnlock, onCancel }: PinPadProps) {
+  const pin = import.meta.env.VITE_ADMIN_PIN ?? ''
+  const [entered, setEntered] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+
+  const locked = lockedUntil > now
+  useEffect(() => {
+    if (!locked) return
+    const timer = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(timer)
+  }, [locked])
+
+  const submit = (value: string) => {
+    if (value === pin) {
+      failedAttempts = 0
+      onUnlock()
+      return
+    }
+    failedAttempts++
+    setEntered('')
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      failedAttempts = 0
+      lockedUntil = Date.now() + PIN_LOCKOUT_MS
+      setNow(Date.now())
+      setMessage(null)
+    } else {
+      setMessage(`Wrong PIN (${MAX_PIN_ATTEMPTS - failedAttempts} tries left)`)
+    }
+  }
+
+  const press = (digit: string) => {
+    const value = entered + digit
+    setEntered(value)
+    if (value.length === pin.length) submit(value)
+  }
+
+  if (!pin) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm">No admin PIN is set for this build (VITE_ADMIN_PIN).</p>
+        <button onClick={onCancel} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>Close</button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <h1 className="text-xl font-bold">Staff PIN</h1>
+      <p className="text-2xl tracking-[0.5em] h-8">{'•'.repeat(entered.length)}</p>
+      <p className="text-xs text-[#e08070] h-4">
+        {locked ? `Too many tries; wait ${Math.ceil((lockedUntil - now) / 1000)} s` : message}
+      </p>
+      <div className="grid grid-cols-3 gap-2 w-64 mx-auto">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+          <button
+            key={digit}
+            onClick={() => press(digit)}
+            disabled={locked}
+            className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a] text-lg`}
+          >
+            {digit}
+          </button>
+        ))}
+        <button onClick={onCancel} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+          Cancel
+        </button>
+        <button
+          onClick={() => press('0')}
+          disabled={locked}
+          className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a] text-lg`}
+        >
+          0
+        </button>
+        <button
+          onClick={() => setEntered(entered.slice(0, -1))}
+          disabled={locked || entered.length === 0}
+          className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  )
+}
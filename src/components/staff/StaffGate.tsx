@@ -0,0 +1,27 @@
+import { ReactNode, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { PinPad } from './PinPad'
+import { takeStaffAccess } from './staffAccess'
+
+interface StaffGateProps {
+  children: ReactNode
+}
+
+/**
+ * Asks for the staff PIN before showing a staff screen, unless it was
+ * opened from the unlocked admin panel. Cancelling returns to the kiosk.
+ */
+export function StaffGate({ children }: StaffGateProps) {
+  const navigate = useNavigate()
+  const [unlocked, setUnlocked] = useState(takeStaffAccess)
+
+  if (unlocked) return <>{children}</>
+
+  return (
+    <div className="w-screen h-screen bg-[#1f1c1a] flex items-center justify-center">
+      <div className="bg-[#2a2622] text-[#d4c5b0] rounded-lg p-6">
+        <PinPad onUnlock={() => setUnlocked(true)} onCancel={() => navigate('/', { replace: true })} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { useRef, useState } from 'react'
+import { CameraViewpoint, Vec3Tuple } from '../../data/types'
+import { INITIAL_VIEWPOINT_ID, viewpoints as bundledViewpoints } from '../../data/viewpoints'
+import { SPLAT_QUALITY_TIERS } from '../../data/splatQuality'
+import { useContent } from '../../hooks/useContent'
+import { validateContent } from '../../services/contentValidator'
+import { getViewpoint, viewpointsSource } from '../../services/viewpointService'
+import { SplatScene } from '../splat/SplatScene'
+import { DEFAULT_FLIGHT_MS, SplatViewerHandle } from '../splat/viewerTypes'
+
+// Millimetre precision is plenty for a camera pose
+const round = (v: number) => Math.round(v * 1000) / 1000
+
+const INITIAL_VIEWPOINT = getViewpoint(INITIAL_VIEWPOINT_ID) ?? bundledViewpoints[0]
+
+const download = (filename: string, content: string) => {
+  const blob = new Blob([content], { type: 'text/plain' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Staff tool for capturing named camera viewpoints in the splat scene.
+ * The camera is free here; edits stay in this screen until the list is
+ * exported and pasted over the array in src/data/viewpoints.ts.
+ */
+export function ViewpointEditor() {
+  const content = useContent()
+  const viewerRef = useRef<SplatViewerHandle>(null)
+
+  const [drafts, setDrafts] = useState(bundledViewpoints)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [id, setId] = useState('')
+  const [labelEn, setLabelEn] = useState('')
+  const [labelFr, setLabelFr] = useState('')
+  const [equipmentId, setEquipmentId] = useState('')
+  const [status, setStatus] = useState('')
+
+  const changed = JSON.stringify(drafts) !== JSON.stringify(bundledViewpoints)
+  // Same checks as npm run validate:content, so the pasted file passes them
+  const problems = validateContent(content, { viewpoints: drafts }).issues
+    .filter(issue => issue.path.startsWith('viewpoints'))
+
+  const select = (viewpoint: CameraViewpoint) => {
+    setSelectedId(viewpoint.id)
+    setId(viewpoint.id)
+    setLabelEn(viewpoint.label.en)
+    setLabelFr(viewpoint.label.fr)
+    setEquipmentId(viewpoint.equipment_id ?? '')
+    viewerRef.current?.setCamera(viewpoint, DEFAULT_FLIGHT_MS)
+  }
+
+  const startNew = () => {
+    setSelectedId(null)
+    setId('')
+    setLabelEn('')
+    setLabelFr('')
+    setEquipmentId('')
+  }
+
+  // An existing id is replaced in place, so the visitor bar keeps its order
+  const capture = () => {
+    const pose = viewerRef.current?.getCamera()
+    const newId = id.trim()
+    if (!pose) {
+      setStatus('The scene is not ready yet')
+      return
+    }
+    if (!newId) return
+
+    const viewpoint: CameraViewpoint = {
+      id: newId,
+      label: { en: labelEn.trim() || newId, fr: labelFr.trim() },
+      position: pose.position.map(round) as Vec3Tuple,
+      target: pose.target.map(round) as Vec3Tuple,
+      equipment_id: equipmentId || undefined
+    }
+    setDrafts(prev => prev.some(v => v.id === newId)
+      ? prev.map(v => v.id === newId ? viewpoint : v)
+      : [...prev, viewpoint])
+    setSelectedId(newId)
+    setStatus(`Captured ${newId}`)
+  }
+
+  const remove = () => {
+    if (!selectedId) return
+    setDrafts(prev => prev.filter(v => v.id !== selectedId))
+    setStatus(`Removed ${selectedId}`)
+    startNew()
+  }
+
+  const copySource = async () => {
+    await navigator.clipboard.writeText(viewpointsSource(drafts))
+    setStatus('Copied. Paste it over the viewpoints array in src/data/viewpoints.ts, then run npm run validate:content.')
+  }
+
+  const buttonClass = 'px-3 py-2 rounded text-sm transition-colors disabled:opacity-40'
+  const inputClass = 'w-full px-2 py-1 bg-[#1f1c1a] border border-[#3d3530] rounded text-sm'
+
+  return (
+    <div className="w-screen h-screen bg-[#1f1c1a] text-[#d4c5b0] flex">
+      {/* Scene, with the visitor limits lifted */}
+      <div className="flex-1 relative bg-black">
+        <SplatScene
+          ref={viewerRef}
+          src={SPLAT_QUALITY_TIERS[0].src}
+          fallbackImageUrl={content.master_image_url}
+          initialCamera={INITIAL_VIEWPOINT}
+          limits={null}
+          equipment={content.equipment}
+          selectedId={equipmentId || null}
+        />
+      </div>
+
+      {/* Sidebar */}
+      <div className="w-96 bg-[#2a2622] border-l border-[#3d3530] flex flex-col overflow-y-auto">
+        <div className="p-4 border-b border-[#3d3530]">
+          <h1 className="text-xl font-bold">Viewpoint Editor</h1>
+          <p className="text-xs text-[#a89a88]">Frame the scene, then capture it under an id. Tap a viewpoint to fly to it.</p>
+        </div>
+
+        {/* Viewpoints */}
+        <div className="p-4 border-b border-[#3d3530]">
+          <h2 className="text-sm font-semibold mb-2">Viewpoints</h2>
+          <ul className="space-y-1">
+            {drafts.map((viewpoint) => (
+              <li key={viewpoint.id}>
+                <button
+                  onClick={() => select(viewpoint)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-left ${
+                    viewpoint.id === selectedId ? 'bg-[#8b6f47] text-white' : 'hover:bg-[#3d3530]'
+                  }`}
+                >
+                  <span className="flex-1 truncate">{viewpoint.label.en}</span>
+                  <span className="text-xs opacity-70">{viewpoint.equipment_id ?? viewpoint.id}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Capture */}
+        <div className="p-4 border-b border-[#3d3530] space-y-2">
+          <h2 className="text-sm font-semibold">{selectedId ? `Edit ${selectedId}` : 'New viewpoint'}</h2>
+          <input value={id} onChange={(e) => setId(e.target.value)} placeholder="id (an existing id is replaced)" className={inputClass} />
+          <input value={labelEn} onChange={(e) => setLabelEn(e.target.value)} placeholder="Label (EN)" className={inputClass} />
+          <input value={labelFr} onChange={(e) => setLabelFr(e.target.value)} placeholder="Libelle (FR)" className={inputClass} />
+          <select value={equipmentId} onChange={(e) => setEquipmentId(e.target.value)} className={inputClass}>
+            <option value="">Visitor bar (no equipment)</option>
+            {content.equipment.map((item) => (
+              <option key={item.id} value={item.id}>Frames {item.name.en}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button
+              onClick={capture}
+              disabled={!id.trim()}
+              className={`${buttonClass} bg-[#8b6f47] hover:bg-[#a08759] text-white`}
+            >
+              Capture camera
+            </button>
+            <button onClick={startNew} className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}>
+              New
+            </button>
+            <button
+              onClick={remove}
+              disabled={!selectedId}
+              className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+
+        {/* Export */}
+        <div className="p-4 space-y-2">
+          {problems.map((problem) => (
+            <p key={`${problem.path}-${problem.message}`} className="text-xs text-[#e08070]">
+              {problem.path}: {problem.message}
+            </p>
+          ))}
+          <div className="flex gap-2">
+            <button onClick={copySource} className={`${buttonClass} bg-[#8b6f47] hover:bg-[#a08759] text-white`}>
+              Copy for viewpoints.ts
+            </button>
+            <button
+              onClick={() => download('viewpoints.txt', viewpointsSource(drafts))}
+              className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+            >
+              Download
+            </button>
+            <button
+              onClick={() => {
+                setDrafts(bundledViewpoints)
+                startNew()
+              }}
+              disabled={!changed}
+              className={`${buttonClass} bg-[#3d3530] hover:bg-[#4a403a]`}
+            >
+              Revert
+            </button>
+          </div>
+          <p className="text-xs text-[#a89a88]">
+            {changed ? 'Unsaved: export the list and paste it into src/data/viewpoints.ts to ship it' : 'Matches src/data/viewpoints.ts'}
+          </p>
+          {status && <p className="text-xs">{status}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
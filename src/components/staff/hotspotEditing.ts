@@ -0,0 +1,203 @@
+/**
+ * Shape editing helpers for the staff hotspot editor
+ *
+ * Works in the same percentage space as hotspotGeometry: x of the image
+ * width, y of its height, circle radius in width units.
+ */
+
+import { HotspotCoordinates } from '../../data/types'
+import { hotspotRowFields, mapHotspotCoordinates } from '../../services/contentMapper'
+import { MASTER_IMAGE_ASPECT, Point } from '../shared/hotspotGeometry'
+
+export type ShapeType = HotspotCoordinates['type']
+
+/**
+ * A draggable point on a shape:
+ *   circle     'center' | 'radius'
+ *   rectangle  'nw' | 'ne' | 'se' | 'sw'
+ *   polygon    'vertex' (moves points[index]) | 'midpoint' (inserts after index)
+ */
+export interface Handle {
+  kind: 'center' | 'radius' | 'nw' | 'ne' | 'se' | 'sw' | 'vertex' | 'midpoint'
+  index?: number
+  point: Point
+}
+
+// Shapes smaller than this (in percent) are treated as accidental taps
+const MIN_SIZE = 0.5
+
+/** Clamp to the image and round to 0.1% (about 3px on the master image) */
+export const snap = (value: number): number =>
+  Math.round(Math.min(Math.max(value, 0), 100) * 10) / 10
+
+const snapPoint = (p: Point): Point => ({ x: snap(p.x), y: snap(p.y) })
+
+export function handlesFor(coords: HotspotCoordinates): Handle[] {
+  switch (coords.type) {
+    case 'circle':
+      return [
+        { kind: 'center', point: { x: coords.center_x, y: coords.center_y } },
+        // Radius handle sits on the right edge of the circle
+        { kind: 'radius', point: { x: coords.center_x + coords.radius, y: coords.center_y } }
+      ]
+    case 'rectangle': {
+      const { x, y, width, height } = coords
+      return [
+        { kind: 'nw', point: { x, y } },
+        { kind: 'ne', point: { x: x + width, y } },
+        { kind: 'se', point: { x: x + width, y: y + height } },
+        { kind: 'sw', point: { x, y: y + height } }
+      ]
+    }
+    case 'polygon': {
+      const { points } = coords
+      const vertices: Handle[] = points.map((point, index) => ({ kind: 'vertex', index, point }))
+      const midpoints: Handle[] = points.map((a, index) => {
+        const b = points[(index + 1) % points.length]
+        return { kind: 'midpoint', index, point: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } }
+      })
+      return [...vertices, ...midpoints]
+    }
+  }
+}
+
+/** Returns the shape with the handle dragged to `to` */
+export function moveHandle(
+  coords: HotspotCoordinates,
+  handle: Handle,
+  to: Point,
+  aspect = MASTER_IMAGE_ASPECT
+): HotspotCoordinates {
+  const p = snapPoint(to)
+
+  switch (coords.type) {
+    case 'circle':
+      if (handle.kind === 'center') {
+        return { ...coords, center_x: p.x, center_y: p.y }
+      }
+      return {
+        ...coords,
+        radius: snap(Math.hypot(p.x - coords.center_x, (p.y - coords.center_y) / aspect))
+      }
+    case 'rectangle': {
+      // Keep the opposite corner fixed
+      const right = coords.x + coords.width
+      const bottom = coords.y + coords.height
+      const fixed = {
+        nw: { x: right, y: bottom },
+        ne: { x: coords.x, y: bottom },
+        se: { x: coords.x, y: coords.y },
+        sw: { x: right, y: coords.y }
+      }[handle.kind as 'nw' | 'ne' | 'se' | 'sw']
+      return rectangleBetween(fixed, p)
+    }
+    case 'polygon': {
+      const points = [...coords.points]
+      if (handle.kind === 'midpoint') {
+        points.splice((handle.index ?? 0) + 1, 0, p)
+      } else {
+        points[handle.index ?? 0] = p
+      }
+      return { ...coords, points }
+    }
+  }
+}
+
+/** Moves the whole shape, stopping at the image edges */
+export function translateShape(coords: HotspotCoordinates, dx: number, dy: number): HotspotCoordinates {
+  const points = shapePoints(coords)
+  const minX = Math.min(...points.map(p => p.x))
+  const maxX = Math.max(...points.map(p => p.x))
+  const minY = Math.min(...points.map(p => p.y))
+  const maxY = Math.max(...points.map(p => p.y))
+  const cx = Math.min(Math.max(dx, -minX), 100 - maxX)
+  const cy = Math.min(Math.max(dy, -minY), 100 - maxY)
+
+  switch (coords.type) {
+    case 'circle':
+      return { ...coords, center_x: snap(coords.center_x + cx), center_y: snap(coords.center_y + cy) }
+    case 'rectangle':
+      return { ...coords, x: snap(coords.x + cx), y: snap(coords.y + cy) }
+    case 'polygon':
+      return { ...coords, points: coords.points.map(p => snapPoint({ x: p.x + cx, y: p.y + cy })) }
+  }
+}
+
+function shapePoints(coords: HotspotCoordinates): Point[] {
+  switch (coords.type) {
+    case 'circle':
+      return [{ x: coords.center_x, y: coords.center_y }]
+    case 'rectangle':
+      return [
+        { x: coords.x, y: coords.y },
+        { x: coords.x + coords.width, y: coords.y + coords.height }
+      ]
+    case 'polygon':
+      return coords.points
+  }
+}
+
+export function removeVertex(coords: HotspotCoordinates, index: number): HotspotCoordinates {
+  if (coords.type !== 'polygon' || coords.points.length <= 3) return coords
+  return { ...coords, points: coords.points.filter((_, i) => i !== index) }
+}
+
+function rectangleBetween(a: Point, b: Point): HotspotCoordinates {
+  return {
+    type: 'rectangle',
+    x: snap(Math.min(a.x, b.x)),
+    y: snap(Math.min(a.y, b.y)),
+    width: snap(Math.abs(b.x - a.x)),
+    height: snap(Math.abs(b.y - a.y))
+  }
+}
+
+/** Shape drawn by dragging from `start` to `end`: circles from the centre, rectangles corner to corner */
+export function shapeFromDrag(
+  type: 'circle' | 'rectangle',
+  start: Point,
+  end: Point,
+  aspect = MASTER_IMAGE_ASPECT
+): HotspotCoordinates {
+  if (type === 'rectangle') return rectangleBetween(snapPoint(start), snapPoint(end))
+  return {
+    type: 'circle',
+    center_x: snap(start.x),
+    center_y: snap(start.y),
+    radius: snap(Math.hypot(end.x - start.x, (end.y - start.y) / aspect))
+  }
+}
+
+/**
+ * Problems that would make the hotspot unusable or unreadable by the kiosk,
+ * or an empty list when it is fine to export
+ */
+export function validateHotspot(coords: HotspotCoordinates): string[] {
+  const problems: string[] = []
+
+  // Same parser the kiosk uses on Supabase rows
+  try {
+    const { hotspot_shape, hotspot_coordinates } = hotspotRowFields(coords)
+    mapHotspotCoordinates(hotspot_shape, hotspot_coordinates)
+  } catch (err) {
+    problems.push(err instanceof Error ? err.message : String(err))
+  }
+
+  switch (coords.type) {
+    case 'circle':
+      if (coords.radius < MIN_SIZE) problems.push('Circle radius is too small')
+      break
+    case 'rectangle':
+      if (coords.width < MIN_SIZE || coords.height < MIN_SIZE) problems.push('Rectangle is too small')
+      break
+    case 'polygon':
+      if (coords.points.length < 3) problems.push('Polygon needs at least 3 points')
+      break
+  }
+
+  if (shapePoints(coords).some(p => p.x < 0 || p.x > 100 || p.y < 0 || p.y > 100)) {
+    problems.push('Shape extends outside the image')
+  }
+
+  return problems
+}
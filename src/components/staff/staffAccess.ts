@@ -0,0 +1,17 @@
+/**
+ * Hand-off between the unlocked admin panel and the full-window staff
+ * screens, so staff are not asked for the PIN twice. A grant is used up by
+ * the next StaffGate that mounts; typing a staff URL still asks for the PIN.
+ */
+
+let granted = false
+
+export function grantStaffAccess() {
+  granted = true
+}
+
+export function takeStaffAccess(): boolean {
+  const wasGranted = granted
+  granted = false
+  return wasGranted
+}
@@ -0,0 +1,121 @@
+/**
+ * "See It in Action" sequence: coal → boilers → steam → engines → pumps → harbour
+ * Flow path points are percentages of the master image, like hotspots.
+ */
+
+import { AnimationStep, FlowPath } from './types'
+
+const coalFeed: FlowPath = {
+  id: 'flow-coal',
+  type: 'coal',
+  points: [{ x: 2, y: 18 }, { x: 10, y: 22 }, { x: 18, y: 25 }],
+  color: '#3d3428',
+  animated: true
+}
+
+const steamEast: FlowPath = {
+  id: 'flow-steam-east',
+  type: 'steam',
+  points: [{ x: 18, y: 28 }, { x: 32, y: 32 }, { x: 32, y: 44 }, { x: 40, y: 44 }],
+  color: '#c44536',
+  animated: true
+}
+
+const steamWest: FlowPath = {
+  id: 'flow-steam-west',
+  type: 'steam',
+  points: [{ x: 32, y: 32 }, { x: 56, y: 32 }, { x: 56, y: 44 }, { x: 58, y: 44 }],
+  color: '#c44536',
+  animated: true
+}
+
+const wellToPumps: FlowPath = {
+  id: 'flow-water-well',
+  type: 'water',
+  points: [{ x: 55, y: 95 }, { x: 55, y: 85 }, { x: 50, y: 78 }, { x: 50, y: 65 }],
+  color: '#4a7c9b',
+  animated: true
+}
+
+const pumpsToHarbour: FlowPath = {
+  id: 'flow-water-discharge',
+  type: 'water',
+  points: [{ x: 55, y: 72 }, { x: 75, y: 72 }, { x: 88, y: 76 }, { x: 98, y: 82 }],
+  color: '#4a7c9b',
+  animated: true
+}
+
+export const animationSteps: AnimationStep[] = [
+  {
+    id: 'step-coal',
+    order: 1,
+    title: { en: 'Coal', fr: 'Charbon' },
+    description: {
+      en: 'Coal is shovelled from the coal pile into the boiler fireboxes.',
+      fr: 'Le charbon est pellete du tas de charbon dans les foyers des chaudieres.'
+    },
+    duration_ms: 5000,
+    highlighted_equipment_ids: [],
+    flow_paths: [coalFeed]
+  },
+  {
+    id: 'step-boilers',
+    order: 2,
+    title: { en: 'Boilers', fr: 'Chaudieres' },
+    description: {
+      en: 'Burning coal boils water in the boilers, raising steam at working pressure.',
+      fr: 'Le charbon qui brule fait bouillir l\'eau des chaudieres et produit de la vapeur a la pression de travail.'
+    },
+    duration_ms: 5000,
+    highlighted_equipment_ids: ['steam-piping'],
+    flow_paths: [coalFeed, steamEast]
+  },
+  {
+    id: 'step-steam',
+    order: 3,
+    title: { en: 'Steam', fr: 'Vapeur' },
+    description: {
+      en: 'The red steam lines carry high-pressure steam from the boiler room to both engines.',
+      fr: 'Les conduites rouges transportent la vapeur haute pression de la chaufferie aux deux moteurs.'
+    },
+    duration_ms: 6000,
+    highlighted_equipment_ids: ['steam-piping'],
+    flow_paths: [steamEast, steamWest]
+  },
+  {
+    id: 'step-engines',
+    order: 4,
+    title: { en: 'Engines', fr: 'Moteurs' },
+    description: {
+      en: 'Steam drives the pistons of the two vertical engines, turning their shafts at 175 RPM.',
+      fr: 'La vapeur pousse les pistons des deux moteurs verticaux, qui tournent a 175 tr/min.'
+    },
+    duration_ms: 6000,
+    highlighted_equipment_ids: ['main-engine-east', 'main-engine-west'],
+    flow_paths: [steamEast, steamWest]
+  },
+  {
+    id: 'step-pumps',
+    order: 5,
+    title: { en: 'Pumps', fr: 'Pompes' },
+    description: {
+      en: 'Each engine spins a centrifugal pump, drawing water up from the well beneath the dock floor.',
+      fr: 'Chaque moteur fait tourner une pompe centrifuge qui aspire l\'eau du puits sous le plancher du bassin.'
+    },
+    duration_ms: 6000,
+    highlighted_equipment_ids: ['main-pump-east', 'main-pump-west'],
+    flow_paths: [steamEast, steamWest, wellToPumps]
+  },
+  {
+    id: 'step-harbour',
+    order: 6,
+    title: { en: 'Harbour', fr: 'Port' },
+    description: {
+      en: 'The yellow discharge pipes carry the water from each pump out to the harbour.',
+      fr: 'Les tuyaux de refoulement jaunes amenent l\'eau de chaque pompe jusqu\'au port.'
+    },
+    duration_ms: 7000,
+    highlighted_equipment_ids: ['main-pump-east', 'main-pump-west', 'discharge-piping'],
+    flow_paths: [wellToPumps, pumpsToHarbour]
+  }
+]
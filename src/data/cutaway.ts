@@ -0,0 +1,59 @@
+/**
+ * Building cross-section, left (land side) to right (dry dock)
+ * Bounds are percentages of the cutaway illustration.
+ */
+
+import { CutawaySection } from './types'
+
+export const cutawaySections: CutawaySection[] = [
+  {
+    id: 'coal-pile',
+    name: { en: 'Coal Pile', fr: 'Tas de charbon' },
+    description: {
+      en: 'Coal for the boilers was stockpiled outside the boiler room and shovelled in by hand until automatic stokers arrived in 1938.',
+      fr: 'Le charbon des chaudieres etait entrepose a l\'exterieur de la chaufferie et pellete a la main jusqu\'a l\'arrivee des chargeurs automatiques en 1938.'
+    },
+    bounds: { x: 0, y: 45, width: 16, height: 25 },
+    equipment_ids: []
+  },
+  {
+    id: 'boiler-room',
+    name: { en: 'Boiler Room', fr: 'Chaufferie' },
+    description: {
+      en: 'Four boilers raised the steam. Two were enough to run the main engines; the red steam lines start here.',
+      fr: 'Quatre chaudieres produisaient la vapeur. Deux suffisaient pour les moteurs principaux; les conduites de vapeur rouges partent d\'ici.'
+    },
+    bounds: { x: 16, y: 25, width: 20, height: 45 },
+    equipment_ids: ['steam-piping']
+  },
+  {
+    id: 'engine-room',
+    name: { en: 'Engine Room', fr: 'Salle des machines' },
+    description: {
+      en: 'The twin vertical steam engines stand in line on the engine room floor, with the auxiliary pump and later the warm water tank on the upper level.',
+      fr: 'Les deux moteurs a vapeur verticaux sont alignes sur le plancher de la salle des machines, avec la pompe auxiliaire et plus tard le reservoir d\'eau chaude a l\'etage.'
+    },
+    bounds: { x: 36, y: 15, width: 30, height: 45 },
+    equipment_ids: ['main-engine-east', 'main-engine-west', 'auxiliary-pump', 'warm-water-tank', 'steam-piping']
+  },
+  {
+    id: 'pump-well',
+    name: { en: 'Pump Well', fr: 'Puits de pompe' },
+    description: {
+      en: 'The two centrifugal pumps sit in a deep well level with the dry dock floor, below the harbour\'s zero level.',
+      fr: 'Les deux pompes centrifuges se trouvent dans un puits profond au niveau du plancher du bassin, sous le niveau zero du port.'
+    },
+    bounds: { x: 40, y: 60, width: 24, height: 32 },
+    equipment_ids: ['main-pump-east', 'main-pump-west', 'discharge-piping']
+  },
+  {
+    id: 'dry-dock',
+    name: { en: 'Dry Dock', fr: 'Bassin de radoub' },
+    description: {
+      en: 'With no ship inside, the dock holds the most water. The pumps could empty it in 75 minutes through the discharge pipes to the harbour.',
+      fr: 'Vide de tout navire, le bassin contient le plus d\'eau. Les pompes pouvaient le vider en 75 minutes par les tuyaux de refoulement vers le port.'
+    },
+    bounds: { x: 66, y: 40, width: 34, height: 52 },
+    equipment_ids: ['discharge-piping']
+  }
+]
@@ -1,6 +1,12 @@
 /**
  * Equipment data for the Kingston Dry Dock pump room
  * Based on the 1896 Perley engineering report and Donald Page's documentation
+ *
+ * Specification quantities keep the imperial units of those documents;
+ * metric is derived for display.
+ *
+ * 3D anchors are rough placements derived from the hotspot positions as seen
+ * from the default splat camera; refine them against the final splat.
  */
 
 import { Equipment } from './types'
@@ -13,17 +19,24 @@ export const equipment: Equipment[] = [
       fr: 'Pompe centrifuge principale (Est)'
     },
     description: {
-      en: 'One of two identical 18-inch vertical centrifugal pumps with 4-foot 8-inch diameter discs. This right-handed pump sits in a deep well level with the dry dock floor.',
-      fr: 'Une des deux pompes centrifuges verticales identiques de 18 pouces avec des disques de 4 pieds 8 pouces de diametre. Cette pompe droite se trouve dans un puits profond au niveau du plancher du bassin de radoub.'
+      en: 'One of two identical vertical centrifugal pumps. This right-handed pump sits in a deep well level with the dry dock floor.',
+      fr: 'Une des deux pompes centrifuges verticales identiques. Cette pompe droite se trouve dans un puits profond au niveau du plancher du bassin de radoub.'
     },
     function: {
-      en: 'Draws water from the pump well beneath the dry dock floor and discharges it to the harbour. Operating at 175 RPM, each pump moves 14,000 gallons per minute.',
-      fr: 'Aspire l\'eau du puits de pompe sous le plancher du bassin et la rejette dans le port. A 175 tr/min, chaque pompe deplace 14 000 gallons par minute.'
-    },
-    specifications: {
-      en: 'Pump disc diameter: 4\' 8" | Suction pipe: 22" | Discharge pipe: 22" | Capacity: 14,000 gal/min | Manufacturer: John Inglis Co., Toronto',
-      fr: 'Diametre du disque: 4\' 8" | Tuyau d\'aspiration: 22" | Tuyau de refoulement: 22" | Capacite: 14 000 gal/min | Fabricant: John Inglis Co., Toronto'
+      en: 'Draws water from the pump well beneath the dry dock floor and discharges it to the harbour, turning at 175 RPM. Between them, the two pumps could empty the flooded dock in 75 minutes.',
+      fr: 'Aspire l\'eau du puits de pompe sous le plancher du bassin et la rejette dans le port, a 175 tr/min. A elles deux, les pompes pouvaient vider le bassin plein en 75 minutes.'
     },
+    specifications: [
+      { label: { en: 'Pump size', fr: 'Taille de la pompe' }, quantity: { value: 18, unit: 'in' } },
+      { label: { en: 'Pump disc diameter', fr: 'Diametre du disque' }, quantity: { value: 56, unit: 'in' } },
+      { label: { en: 'Suction pipe', fr: 'Tuyau d\'aspiration' }, quantity: { value: 22, unit: 'in' } },
+      { label: { en: 'Discharge pipe', fr: 'Tuyau de refoulement' }, quantity: { value: 22, unit: 'in' } },
+      { label: { en: 'Capacity', fr: 'Capacite' }, quantity: { value: 14_000, unit: 'gal/min' } },
+      {
+        label: { en: 'Manufacturer', fr: 'Fabricant' },
+        text: { en: 'John Inglis Co., Toronto', fr: 'John Inglis Co., Toronto' }
+      }
+    ],
     year_installed: 1892,
     manufacturer: 'John Inglis Co., Toronto',
     color_category: 'pump',
@@ -40,7 +53,9 @@ export const equipment: Equipment[] = [
         ]
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: { position: [0, 0, -1.2], pick_radius: 0.5 },
+    related_equipment_ids: ['main-engine-east', 'main-pump-west', 'discharge-piping', 'auxiliary-pump']
   },
   {
     id: 'main-pump-west',
@@ -49,8 +64,8 @@ export const equipment: Equipment[] = [
       fr: 'Pompe centrifuge principale (Ouest)'
     },
     description: {
-      en: 'The left-handed counterpart to the east pump. Together, these twin pumps could empty the dock\'s 2,100,000 gallons in just 75 minutes.',
-      fr: 'L\'equivalent gauche de la pompe est. Ensemble, ces pompes jumelles pouvaient vider les 2 100 000 gallons du bassin en seulement 75 minutes.'
+      en: 'The left-handed counterpart to the east pump. Together, these twin pumps could empty the flooded dock in just 75 minutes.',
+      fr: 'L\'equivalent gauche de la pompe est. Ensemble, ces pompes jumelles pouvaient vider le bassin plein en seulement 75 minutes.'
     },
     function: {
       en: 'Works in tandem with the east pump. Through an ingenious clutch system, either engine could drive both pumps, or one engine could drive the opposite pump.',
@@ -72,7 +87,9 @@ export const equipment: Equipment[] = [
         ]
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: { position: [1.05, 0, -1.2], pick_radius: 0.5 },
+    related_equipment_ids: ['main-engine-west', 'main-pump-east', 'discharge-piping', 'auxiliary-pump']
   },
   {
     id: 'main-engine-east',
@@ -81,17 +98,19 @@ export const equipment: Equipment[] = [
       fr: 'Moteur a vapeur principal (Est)'
     },
     description: {
-      en: 'A vertical, high-pressure steam engine with 18-inch diameter cylinder and 18-inch stroke, directly coupled to its centrifugal pump.',
-      fr: 'Un moteur a vapeur vertical a haute pression avec un cylindre de 18 pouces de diametre et une course de 18 pouces, directement couple a sa pompe centrifuge.'
+      en: 'A vertical, high-pressure steam engine directly coupled to its centrifugal pump.',
+      fr: 'Un moteur a vapeur vertical a haute pression directement couple a sa pompe centrifuge.'
     },
     function: {
       en: 'Converts steam power from the boilers into rotational energy to drive the pump at 175 revolutions per minute.',
       fr: 'Convertit la vapeur des chaudieres en energie rotative pour entrainer la pompe a 175 tours par minute.'
     },
-    specifications: {
-      en: 'Cylinder diameter: 18" | Stroke: 18" | Operating speed: 175 RPM | Type: Vertical high-pressure',
-      fr: 'Diametre du cylindre: 18" | Course: 18" | Vitesse de fonctionnement: 175 tr/min | Type: Vertical haute pression'
-    },
+    specifications: [
+      { label: { en: 'Cylinder diameter', fr: 'Diametre du cylindre' }, quantity: { value: 18, unit: 'in' } },
+      { label: { en: 'Stroke', fr: 'Course' }, quantity: { value: 18, unit: 'in' } },
+      { label: { en: 'Operating speed', fr: 'Vitesse de fonctionnement' }, quantity: { value: 175, unit: 'rpm' } },
+      { label: { en: 'Type', fr: 'Type' }, text: { en: 'Vertical high-pressure', fr: 'Vertical haute pression' } }
+    ],
     year_installed: 1892,
     manufacturer: 'John Inglis Co., Toronto',
     color_category: 'steam',
@@ -106,7 +125,12 @@ export const equipment: Equipment[] = [
         height: 18
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: {
+      position: [-0.4, 0, 0.45],
+      bounds: { min: [-1.05, -0.6, -0.25], max: [0.2, 0.6, 1.2] }
+    },
+    related_equipment_ids: ['main-pump-east', 'main-engine-west', 'steam-piping']
   },
   {
     id: 'main-engine-west',
@@ -136,7 +160,12 @@ export const equipment: Equipment[] = [
         height: 18
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: {
+      position: [1.5, 0, 0.45],
+      bounds: { min: [0.85, -0.6, -0.25], max: [2.1, 0.6, 1.2] }
+    },
+    related_equipment_ids: ['main-pump-west', 'main-engine-east', 'steam-piping']
   },
   {
     id: 'auxiliary-pump',
@@ -145,13 +174,17 @@ export const equipment: Equipment[] = [
       fr: 'Pompe auxiliaire'
     },
     description: {
-      en: 'An 8-inch horizontal centrifugal pump with a maximum lift of 31 feet 6 inches, positioned on the upper floor of the engine room.',
-      fr: 'Une pompe centrifuge horizontale de 8 pouces avec une hauteur de refoulement maximale de 31 pieds 6 pouces, positionnee sur le plancher superieur de la salle des machines.'
+      en: 'A small horizontal centrifugal pump positioned on the upper floor of the engine room.',
+      fr: 'Une petite pompe centrifuge horizontale positionnee sur le plancher superieur de la salle des machines.'
     },
     function: {
       en: 'Handles arterial drains collecting leakage from beneath the dock floor. Also serves as backup if main pumps are disabled.',
       fr: 'Gere les drains arteriels collectant les fuites sous le plancher du bassin. Sert egalement de secours si les pompes principales sont desactivees.'
     },
+    specifications: [
+      { label: { en: 'Pump size', fr: 'Taille de la pompe' }, quantity: { value: 8, unit: 'in' } },
+      { label: { en: 'Maximum lift', fr: 'Hauteur de refoulement maximale' }, quantity: { value: 378, unit: 'in' } }
+    ],
     year_installed: 1892,
     manufacturer: 'John Inglis Co., Toronto',
     color_category: 'auxiliary',
@@ -165,7 +198,9 @@ export const equipment: Equipment[] = [
         radius: 5
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: { position: [-2.65, 0, 0.4], pick_radius: 0.5 },
+    related_equipment_ids: ['main-pump-east', 'main-pump-west', 'warm-water-tank']
   },
   {
     id: 'warm-water-tank',
@@ -194,7 +229,9 @@ export const equipment: Equipment[] = [
         height: 10
       },
       pulse_animation: true
-    }
+    },
+    anchor_3d: { position: [2.9, 0, 2], pick_radius: 0.8 },
+    related_equipment_ids: ['auxiliary-pump']
   },
   {
     id: 'steam-piping',
@@ -207,9 +244,12 @@ export const equipment: Equipment[] = [
       fr: 'Tuyaux peints en rouge transportant la vapeur haute pression de la chaufferie aux moteurs principaux.'
     },
     function: {
-      en: 'Delivers steam at 100 PSI working pressure from the boilers to power the pumping engines.',
-      fr: 'Livre la vapeur a une pression de travail de 100 PSI des chaudieres pour alimenter les moteurs de pompage.'
+      en: 'Delivers steam at working pressure from the boilers to power the pumping engines.',
+      fr: 'Livre la vapeur a la pression de travail des chaudieres pour alimenter les moteurs de pompage.'
     },
+    specifications: [
+      { label: { en: 'Working pressure', fr: 'Pression de travail' }, quantity: { value: 100, unit: 'psi' } }
+    ],
     color_category: 'steam',
     hotspot: {
       id: 'hs-steam-piping',
@@ -224,7 +264,9 @@ export const equipment: Equipment[] = [
         ]
       },
       pulse_animation: false
-    }
+    },
+    anchor_3d: { position: [-1.85, 0, 0.8], pick_radius: 0.6 },
+    related_equipment_ids: ['main-engine-east', 'main-engine-west']
   },
   {
     id: 'discharge-piping',
@@ -233,13 +275,18 @@ export const equipment: Equipment[] = [
       fr: 'Tuyaux de refoulement'
     },
     description: {
-      en: 'Yellow-painted 22-inch pipes carrying pumped water from the pumps to discharge into the harbour.',
-      fr: 'Tuyaux jaunes de 22 pouces transportant l\'eau pompee des pompes vers le port.'
+      en: 'Yellow-painted pipes carrying pumped water from the pumps to discharge into the harbour.',
+      fr: 'Tuyaux jaunes transportant l\'eau pompee des pompes vers le port.'
     },
     function: {
-      en: 'Discharges water at 2 feet 6 inches below zero level. Each pipe has a 22-inch valve to prevent backflow when pumps are idle.',
-      fr: 'Rejette l\'eau a 2 pieds 6 pouces sous le niveau zero. Chaque tuyau a une vanne de 22 pouces pour empecher le refoulement.'
+      en: 'Discharges water below the harbour\'s zero level. Each pipe has a valve to prevent backflow when pumps are idle.',
+      fr: 'Rejette l\'eau sous le niveau zero du port. Chaque tuyau a une vanne pour empecher le refoulement.'
     },
+    specifications: [
+      { label: { en: 'Pipe diameter', fr: 'Diametre des tuyaux' }, quantity: { value: 22, unit: 'in' } },
+      { label: { en: 'Check valve', fr: 'Clapet anti-retour' }, quantity: { value: 22, unit: 'in' } },
+      { label: { en: 'Outlet below zero level', fr: 'Sortie sous le niveau zero' }, quantity: { value: 2.5, unit: 'ft' } }
+    ],
     color_category: 'discharge',
     hotspot: {
       id: 'hs-discharge-piping',
@@ -247,21 +294,15 @@ export const equipment: Equipment[] = [
       coordinates: {
         type: 'polygon',
         points: [
-          { x: 48, y: 70 },
-          { x: 62, y: 70 },
-          { x: 62, y: 75 },
-          { x: 48, y: 75 }
+          { x: 48, y: 76 },
+          { x: 62, y: 76 },
+          { x: 62, y: 80 },
+          { x: 48, y: 80 }
         ]
       },
       pulse_animation: false
-    }
+    },
+    anchor_3d: { position: [0.55, 0, -1.8], pick_radius: 0.6 },
+    related_equipment_ids: ['main-pump-east', 'main-pump-west']
   }
 ]
-
-export const getEquipmentById = (id: string): Equipment | undefined => {
-  return equipment.find(e => e.id === id)
-}
-
-export const getEquipmentByCategory = (category: Equipment['color_category']): Equipment[] => {
-  return equipment.filter(e => e.color_category === category)
-}
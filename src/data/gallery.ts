@@ -0,0 +1,9 @@
+/**
+ * Archival photographs for the gallery
+ * The seed ships none: photos, their files and their credits come from
+ * kiosk_gallery_photos and are cached with the content snapshot.
+ */
+
+import { GalleryPhoto } from './types'
+
+export const galleryPhotos: GalleryPhoto[] = []
@@ -0,0 +1,162 @@
+/**
+ * Quiz questions for the pump room view
+ * Answers are given by touching the matching equipment hotspot
+ */
+
+import { QuizQuestion } from './types'
+
+export const quizQuestions: QuizQuestion[] = [
+  {
+    id: 'q-pump-capacity',
+    question: {
+      en: 'Two twin pumps moved the most water every minute. Find the east one.',
+      fr: 'Deux pompes jumelles deplacaient le plus d\'eau chaque minute. Trouvez celle de l\'est.'
+    },
+    correct_equipment_id: 'main-pump-east',
+    hint: {
+      en: 'Look for the green machinery sitting low in the pump well, on the east side.',
+      fr: 'Cherchez la machinerie verte situee au fond du puits de pompe, du cote est.'
+    },
+    explanation: {
+      en: 'The east pump and its west twin moved more water than anything else in the pump room. Together they could empty the dock in 75 minutes.',
+      fr: 'La pompe est et sa jumelle ouest deplacaient plus d\'eau que toute autre machine de la salle. Ensemble, elles vidaient le bassin en 75 minutes.'
+    },
+    difficulty: 'easy'
+  },
+  {
+    id: 'q-steam-engine',
+    question: {
+      en: 'Find the steam engine that drives the east pump.',
+      fr: 'Trouvez le moteur a vapeur qui entraine la pompe est.'
+    },
+    correct_equipment_id: 'main-engine-east',
+    hint: {
+      en: 'The engines stand directly above the pumps they drive.',
+      fr: 'Les moteurs se trouvent directement au-dessus des pompes qu\'ils entrainent.'
+    },
+    explanation: {
+      en: 'The east engine is a vertical high-pressure steam engine, coupled directly to the east pump.',
+      fr: 'Le moteur est est un moteur a vapeur vertical a haute pression, couple directement a la pompe est.'
+    },
+    difficulty: 'easy'
+  },
+  {
+    id: 'q-discharge',
+    question: {
+      en: 'Which pipes carried the water out to the harbour?',
+      fr: 'Quels tuyaux transportaient l\'eau vers le port?'
+    },
+    correct_equipment_id: 'discharge-piping',
+    hint: {
+      en: 'They are painted yellow.',
+      fr: 'Ils sont peints en jaune.'
+    },
+    explanation: {
+      en: 'The yellow discharge pipes carried pumped water to the harbour. A valve on each stopped water flowing back.',
+      fr: 'Les tuyaux de refoulement jaunes menaient l\'eau pompee au port. Une vanne sur chacun empechait le retour de l\'eau.'
+    },
+    difficulty: 'easy'
+  },
+  {
+    id: 'q-steam-supply',
+    question: {
+      en: 'Where did the steam travel from the boilers to the engines?',
+      fr: 'Par ou la vapeur passait-elle des chaudieres aux moteurs?'
+    },
+    correct_equipment_id: 'steam-piping',
+    hint: {
+      en: 'Look for the red-painted pipes.',
+      fr: 'Cherchez les tuyaux peints en rouge.'
+    },
+    explanation: {
+      en: 'The red steam supply lines delivered high-pressure steam from the boiler room to the main engines.',
+      fr: 'Les conduites de vapeur rouges livraient la vapeur haute pression de la chaufferie aux moteurs principaux.'
+    },
+    difficulty: 'medium'
+  },
+  {
+    id: 'q-leakage',
+    question: {
+      en: 'Which machine pumped out the water that leaked in under the dock floor?',
+      fr: 'Quelle machine evacuait l\'eau qui s\'infiltrait sous le plancher du bassin?'
+    },
+    correct_equipment_id: 'auxiliary-pump',
+    hint: {
+      en: 'It is much smaller than the main pumps and sits on the upper floor.',
+      fr: 'Elle est beaucoup plus petite que les pompes principales et se trouve a l\'etage superieur.'
+    },
+    explanation: {
+      en: 'The small auxiliary pump emptied the arterial drains that collected leakage, and could stand in if the main pumps failed.',
+      fr: 'La petite pompe auxiliaire vidait les drains arteriels qui recueillaient les fuites et pouvait remplacer les pompes principales.'
+    },
+    difficulty: 'medium'
+  },
+  {
+    id: 'q-left-handed',
+    question: {
+      en: 'One main pump is right-handed and one is left-handed. Find the left-handed pump.',
+      fr: 'Une pompe principale est droite et l\'autre gauche. Trouvez la pompe gauche.'
+    },
+    correct_equipment_id: 'main-pump-west',
+    hint: {
+      en: 'It is the west pump.',
+      fr: 'C\'est la pompe ouest.'
+    },
+    explanation: {
+      en: 'The west pump is the left-handed twin of the east pump. Through the clutches either engine could drive it.',
+      fr: 'La pompe ouest est la jumelle gauche de la pompe est. Grace aux embrayages, chaque moteur pouvait l\'entrainer.'
+    },
+    difficulty: 'medium'
+  },
+  {
+    id: 'q-winter',
+    question: {
+      en: 'What was added in later years to help de-ice ships in winter?',
+      fr: 'Qu\'est-ce qui a ete ajoute plus tard pour aider a degivrer les navires en hiver?'
+    },
+    correct_equipment_id: 'warm-water-tank',
+    hint: {
+      en: 'It stored water warmed by the air compressors.',
+      fr: 'Il stockait l\'eau rechauffee par les compresseurs d\'air.'
+    },
+    explanation: {
+      en: 'The warm water tank stored cooling water from the air compressors, which was pumped through ice-laden ships in dry dock.',
+      fr: 'Le reservoir d\'eau chaude stockait l\'eau de refroidissement des compresseurs, pompee a travers les navires couverts de glace.'
+    },
+    difficulty: 'hard'
+  },
+  {
+    id: 'q-redundancy',
+    question: {
+      en: 'If the east engine needed repairs, which machine could keep both pumps running?',
+      fr: 'Si le moteur est devait etre repare, quelle machine pouvait faire tourner les deux pompes?'
+    },
+    correct_equipment_id: 'main-engine-west',
+    hint: {
+      en: 'The engines could be geared together through clutches.',
+      fr: 'Les moteurs pouvaient etre couples par des embrayages.'
+    },
+    explanation: {
+      en: 'Through the clutch system the west engine could drive both pumps while the east engine was out of service.',
+      fr: 'Grace au systeme d\'embrayage, le moteur ouest pouvait entrainer les deux pompes pendant l\'entretien du moteur est.'
+    },
+    difficulty: 'hard'
+  },
+  {
+    id: 'q-backup',
+    question: {
+      en: 'Which machine was the backup if both main pumps were disabled?',
+      fr: 'Quelle machine servait de secours si les deux pompes principales etaient hors service?'
+    },
+    correct_equipment_id: 'auxiliary-pump',
+    hint: {
+      en: 'It sits on the upper floor, well above the main pumps.',
+      fr: 'Elle se trouve a l\'etage superieur, bien au-dessus des pompes principales.'
+    },
+    explanation: {
+      en: 'Besides draining leakage, the auxiliary pump served as a backup for the main pumps.',
+      fr: 'En plus de vidanger les fuites, la pompe auxiliaire servait de secours aux pompes principales.'
+    },
+    difficulty: 'hard'
+  }
+]
@@ -0,0 +1,16 @@
+/**
+ * Static fallback content
+ * Bundled with the app so the kiosk still boots with no network
+ */
+
+import { KioskContent } from './types'
+import { equipment } from './equipment'
+import { quizQuestions } from './quiz'
+import { galleryPhotos } from './gallery'
+
+export const seedContent: KioskContent = {
+  master_image_url: '/images/pump-room-master.svg',
+  equipment,
+  gallery: galleryPhotos,
+  quiz: quizQuestions
+}
@@ -0,0 +1,30 @@
+/**
+ * Quality manifest for the splat scene
+ * Exports of the same capture, heaviest first. The kiosk picks the heaviest
+ * tier its GPU can draw smoothly and steps down when the frame rate drops.
+ * Splat counts below are estimates: confirm them with the comparison
+ * tool's file inspection, and update them whenever a file is re-exported.
+ */
+
+import { SplatTier } from './types'
+
+export const SPLAT_QUALITY_TIERS: SplatTier[] = [
+  {
+    id: 'high',
+    label: '30k steps',
+    src: '/splats/export_30000.ply',
+    splat_count: 1_200_000
+  },
+  {
+    id: 'standard',
+    label: '10k steps',
+    src: '/splats/export_10000.ply',
+    splat_count: 600_000
+  }
+]
+
+// Step down when the frame rate stays below this while the scene is shown
+export const SPLAT_MIN_FPS = 30
+
+// ...for this long
+export const SPLAT_LOW_FPS_MS = 8_000
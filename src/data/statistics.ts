@@ -0,0 +1,14 @@
+/**
+ * Headline figures for the pump room, as recorded in imperial units
+ * Shown through the ui.pumpCapacity and ui.pumpRate templates. Content prose
+ * carries no measurements: they live here and in equipment specifications,
+ * which both go through formatQuantity and follow the unit setting.
+ */
+
+import { Quantity } from './types'
+
+// Water in the dry dock that the two pumps emptied in 75 minutes
+export const DOCK_VOLUME: Quantity = { value: 2_100_000, unit: 'gal' }
+
+// Delivery of one main pump
+export const PUMP_RATE: Quantity = { value: 14_000, unit: 'gal/min' }
@@ -14,7 +14,7 @@ export interface Equipment {
   name: BilingualText
   description: BilingualText
   function: BilingualText
-  specifications?: BilingualText
+  specifications?: Specification[]
   year_installed?: number
   manufacturer?: string
   color_category: 'pump' | 'steam' | 'discharge' | 'water' | 'auxiliary'
@@ -22,6 +22,68 @@ export interface Equipment {
   images?: MediaItem[]
   engineering_drawings?: MediaItem[]
   related_equipment_ids?: string[]
+  anchor_3d?: Anchor3D
+}
+
+// Units quantities are recorded in, as built; gal is the imperial (Canadian) gallon
+export type Unit = 'in' | 'ft' | 'gal' | 'gal/min' | 'psi' | 'hp' | 'lb' | 'rpm'
+
+// How quantities are shown to visitors
+export type UnitSystem = 'imperial' | 'metric' | 'both'
+
+export interface Quantity {
+  value: number
+  unit: Unit
+}
+
+// One line of an equipment's specifications: a measurement, or text such as the engine type
+export type Specification =
+  | { label: BilingualText; quantity: Quantity }
+  | { label: BilingualText; text: BilingualText }
+
+// Point in the splat's coordinate space
+export type Vec3Tuple = [number, number, number]
+
+// Where an equipment item sits in the splat scene
+export interface Anchor3D {
+  position: Vec3Tuple
+  /** Tap tolerance around the position, in scene units */
+  pick_radius?: number
+  /** Axis-aligned box; when set, taps anywhere over it select the equipment */
+  bounds?: { min: Vec3Tuple; max: Vec3Tuple }
+}
+
+// Named camera pose in the splat scene
+export interface CameraViewpoint {
+  id: string
+  label: BilingualText
+  position: Vec3Tuple
+  /** Point the camera looks at and orbits around */
+  target: Vec3Tuple
+  /** Set for the viewpoint used when this equipment is selected */
+  equipment_id?: string
+}
+
+// Limits on the visitor camera; angles in degrees, in the camera controls' convention
+export interface CameraLimits {
+  pitch: [number, number]
+  yaw: [number, number]
+  /** Distance from the orbit target */
+  zoom: [number, number]
+  /** Box the camera position must stay inside */
+  bounds: { min: Vec3Tuple; max: Vec3Tuple }
+  /** How far a drag may go past a limit, as a fraction of that range, before stopping and springing back */
+  overshoot: number
+}
+
+// One export of the splat scene, in the quality manifest
+export interface SplatTier {
+  id: string
+  /** Staff-facing, e.g. "30k steps" */
+  label: string
+  src: string
+  /** Gaussians in the file; the comparison tool's file inspection reports it */
+  splat_count: number
 }
 
 // Hotspot definition for interactive areas
@@ -105,8 +167,17 @@ export interface CutawaySection {
 // Application state
 export interface KioskState {
   language: 'en' | 'fr'
+  units: UnitSystem
   idle_timeout_ms: number
   last_interaction: number
   current_feature: string | null
   selected_equipment_id: string | null
 }
+
+// Everything the kiosk renders, loaded from Supabase or the static seed
+export interface KioskContent {
+  master_image_url: string
+  equipment: Equipment[]
+  gallery: GalleryPhoto[]
+  quiz: QuizQuestion[]
+}
@@ -0,0 +1,55 @@
+/**
+ * Camera viewpoints for the splat scene
+ * Poses are captured in the staff viewpoint editor (/staff/viewpoints), which
+ * exports this array ready to paste over it.
+ * Equipment without a listed viewpoint gets one derived from its 3D anchor.
+ */
+
+import { CameraLimits, CameraViewpoint } from './types'
+
+export const INITIAL_VIEWPOINT_ID = 'overview'
+
+export const viewpoints: CameraViewpoint[] = [
+  {
+    id: 'overview',
+    label: {
+      en: 'Whole pump room',
+      fr: 'Toute la salle des pompes'
+    },
+    position: [-0.005, -6.86, 0.296],
+    target: [0, 0, 0]
+  },
+  {
+    id: 'walkway',
+    label: {
+      en: 'As seen from the walkway',
+      fr: 'Vue depuis la passerelle'
+    },
+    position: [-3.4, -5.2, 2.4],
+    target: [0.3, 0, 0]
+  },
+  {
+    id: 'engines',
+    label: {
+      en: 'The two engines',
+      fr: 'Les deux machines'
+    },
+    position: [0.55, -3.6, 1.4],
+    target: [0.55, 0, 0.45]
+  }
+]
+
+// Visitor camera stays around the walkway sightline; staff debug mode lifts these
+export const VISITOR_CAMERA_LIMITS: CameraLimits = {
+  pitch: [40, 89],
+  yaw: [-70, 45],
+  zoom: [2, 9],
+  bounds: {
+    min: [-5, -9, -2.5],
+    max: [5, -1.5, 4]
+  },
+  overshoot: 0.15
+}
+
+// Glide back to the initial viewpoint after this long without touching the 3D view
+export const CAMERA_IDLE_HOME_MS = 30_000
@@ -0,0 +1,31 @@
+import { RefObject, useEffect, useState } from 'react'
+
+/**
+ * Largest width/height with the given aspect ratio that fits inside the element
+ * (the "contain" box), kept up to date as the element resizes
+ */
+export function useContainedSize(ref: RefObject<HTMLElement | null>, aspect: number) {
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+
+    const measure = () => {
+      const { width, height } = el.getBoundingClientRect()
+      const fitted = width / height > aspect
+        ? { width: height * aspect, height }
+        : { width, height: width / aspect }
+      setSize(prev =>
+        prev.width === fitted.width && prev.height === fitted.height ? prev : fitted
+      )
+    }
+
+    measure()
+    const observer = new ResizeObserver(measure)
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [ref, aspect])
+
+  return size
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react'
+import { KioskContent } from '../data/types'
+import { getContent, subscribeContent } from '../services/contentService'
+
+/**
+ * Current kiosk content; re-renders when remote content replaces the seed
+ */
+export function useContent(): KioskContent {
+  return useSyncExternalStore(subscribeContent, getContent)
+}
@@ -0,0 +1,75 @@
+import { RefObject, useEffect, useRef } from 'react'
+
+interface CornerLongPressOptions {
+  /** Side of the square in the corner that starts the press, in px */
+  size: number
+  durationMs: number
+  onLongPress: () => void
+}
+
+// Finger drift allowed before the press counts as a drag
+const MOVE_TOLERANCE_PX = 12
+
+/**
+ * Calls onLongPress when a finger is held still in the bottom-left corner
+ * of the element. Listens in the capture phase without stopping anything,
+ * so whatever sits in the corner keeps working; only the click that ends a
+ * completed long press is swallowed.
+ */
+export function useCornerLongPress(ref: RefObject<HTMLElement | null>, { size, durationMs, onLongPress }: CornerLongPressOptions) {
+  // Keep the latest callback without re-adding the listeners
+  const callback = useRef(onLongPress)
+  callback.current = onLongPress
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    let timer: number | undefined
+    let start: { x: number; y: number; pointerId: number } | null = null
+
+    const cancel = () => {
+      window.clearTimeout(timer)
+      start = null
+    }
+
+    const swallowClick = (e: MouseEvent) => {
+      e.stopPropagation()
+      e.preventDefault()
+    }
+
+    const onPointerDown = (e: PointerEvent) => {
+      const rect = element.getBoundingClientRect()
+      const inCorner = e.clientX - rect.left <= size && rect.bottom - e.clientY <= size
+      if (!e.isPrimary || !inCorner) return
+
+      start = { x: e.clientX, y: e.clientY, pointerId: e.pointerId }
+      timer = window.setTimeout(() => {
+        start = null
+        window.addEventListener('click', swallowClick, { capture: true, once: true })
+        // The click may never come (e.g. the press ended on another element)
+        window.setTimeout(() => window.removeEventListener('click', swallowClick, { capture: true }), 1000)
+        callback.current()
+      }, durationMs)
+    }
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.pointerId) return
+      if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > MOVE_TOLERANCE_PX) cancel()
+    }
+
+    element.addEventListener('pointerdown', onPointerDown, { capture: true })
+    window.addEventListener('pointermove', onPointerMove, { capture: true })
+    window.addEventListener('pointerup', cancel, { capture: true })
+    window.addEventListener('pointercancel', cancel, { capture: true })
+
+    return () => {
+      cancel()
+      element.removeEventListener('pointerdown', onPointerDown, { capture: true })
+      window.removeEventListener('pointermove', onPointerMove, { capture: true })
+      window.removeEventListener('pointerup', cancel, { capture: true })
+      window.removeEventListener('pointercancel', cancel, { capture: true })
+      window.removeEventListener('click', swallowClick, { capture: true })
+    }
+  }, [ref, size, durationMs])
+}
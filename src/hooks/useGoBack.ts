@@ -0,0 +1,20 @@
+import { useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+/**
+ * Browser-history back for BackButton. When the screen was opened directly
+ * (bookmark, shared link) there is nothing to go back to, so go to `fallback`.
+ */
+export function useGoBack(fallback = '/') {
+  const navigate = useNavigate()
+
+  return useCallback(() => {
+    // BrowserRouter keeps the history index in history.state.idx
+    const idx = (window.history.state as { idx?: number } | null)?.idx ?? 0
+    if (idx > 0) {
+      navigate(-1)
+    } else {
+      navigate(fallback, { replace: true })
+    }
+  }, [navigate, fallback])
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+/**
+ * Calls onIdle once after idleMs without a restart. Returns the restart
+ * function for the input handlers of whatever area counts as activity;
+ * no timer runs while idleMs is undefined.
+ */
+export function useIdleCallback(idleMs: number | undefined, onIdle?: () => void) {
+  const timer = useRef<number | null>(null)
+  // Keep the latest callback without restarting the timer
+  const callback = useRef(onIdle)
+  callback.current = onIdle
+
+  const restart = useCallback(() => {
+    if (timer.current !== null) window.clearTimeout(timer.current)
+    timer.current = idleMs
+      ? window.setTimeout(() => callback.current?.(), idleMs)
+      : null
+  }, [idleMs])
+
+  useEffect(() => {
+    restart()
+    return () => {
+      if (timer.current !== null) window.clearTimeout(timer.current)
+    }
+  }, [restart])
+
+  return restart
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type IdlePhase = 'active' | 'warning' | 'attract'
+
+interface IdleTimerOptions {
+  /** Time without interaction before the "Still there?" warning (KioskState.idle_timeout_ms) */
+  idleTimeoutMs: number
+  /** Length of the warning countdown before the session resets */
+  warningMs: number
+  /** Called once when the countdown runs out */
+  onTimeout: () => void
+  /** Called for every interaction, with its timestamp */
+  onInteraction?: (at: number) => void
+}
+
+const INTERACTION_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const
+const TICK_MS = 250
+
+/**
+ * Tracks touches anywhere on the page and steps through
+ * active → warning (countdown) → attract. Any interaction returns to active.
+ */
+export function useIdleTimer({ idleTimeoutMs, warningMs, onTimeout, onInteraction }: IdleTimerOptions) {
+  const [phase, setPhase] = useState<IdlePhase>('active')
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(warningMs / 1000))
+  const lastInteraction = useRef(Date.now())
+  const phaseRef = useRef<IdlePhase>('active')
+
+  // Keep the latest callbacks without restarting the listeners
+  const callbacks = useRef({ onTimeout, onInteraction })
+  callbacks.current = { onTimeout, onInteraction }
+
+  const changePhase = useCallback((next: IdlePhase) => {
+    phaseRef.current = next
+    setPhase(next)
+  }, [])
+
+  const wake = useCallback(() => {
+    const now = Date.now()
+    lastInteraction.current = now
+    callbacks.current.onInteraction?.(now)
+    if (phaseRef.current !== 'active') changePhase('active')
+  }, [changePhase])
+
+  useEffect(() => {
+    INTERACTION_EVENTS.forEach(event =>
+      window.addEventListener(event, wake, { capture: true, passive: true })
+    )
+    return () => {
+      INTERACTION_EVENTS.forEach(event =>
+        window.removeEventListener(event, wake, { capture: true })
+      )
+    }
+  }, [wake])
+
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      if (phaseRef.current === 'attract') return
+
+      const idleFor = Date.now() - lastInteraction.current
+      if (idleFor < idleTimeoutMs) return
+
+      const remaining = idleTimeoutMs + warningMs - idleFor
+      if (remaining > 0) {
+        if (phaseRef.current !== 'warning') changePhase('warning')
+        setSecondsLeft(Math.ceil(remaining / 1000))
+      } else {
+        changePhase('attract')
+        callbacks.current.onTimeout()
+      }
+    }, TICK_MS)
+
+    return () => window.clearInterval(timer)
+  }, [idleTimeoutMs, warningMs, changePhase])
+
+  return { phase, secondsLeft, wake }
+}
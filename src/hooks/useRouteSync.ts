@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { equipmentIdFromPath, featureFromPath } from '../routes'
+import { useKioskStore } from '../stores/kioskStore'
+
+/**
+ * Mirrors the URL into the kiosk store (feature and selected equipment)
+ * and sends the browser home when the store resets the session
+ */
+export function useRouteSync() {
+  const { pathname } = useLocation()
+  const navigate = useNavigate()
+  const setFeature = useKioskStore(state => state.setFeature)
+  const selectEquipment = useKioskStore(state => state.selectEquipment)
+  const sessionId = useKioskStore(state => state.session_id)
+  const lastSessionId = useRef(sessionId)
+
+  useEffect(() => {
+    setFeature(featureFromPath(pathname))
+    selectEquipment(equipmentIdFromPath(pathname))
+  }, [pathname, setFeature, selectEquipment])
+
+  useEffect(() => {
+    if (sessionId === lastSessionId.current) return
+    lastSessionId.current = sessionId
+    navigate('/', { replace: true })
+  }, [sessionId, navigate])
+}
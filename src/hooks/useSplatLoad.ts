@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { LoadStage, SplatRenderer } from '../components/splat/viewerTypes'
+import { recordSplatLoadFailure } from '../services/splatDiagnostics'
+
+export type SplatLoadStatus = 'loading' | 'retrying' | 'loaded' | 'failed'
+
+export interface SplatLoadState {
+  status: SplatLoadStatus
+  stage: LoadStage
+  /** 0..1 within the stage */
+  progress: number
+  /** Key the viewer on this so each retry starts clean */
+  attempt: number
+  /** Failed tries since the last success or manual retry */
+  failures: number
+  error: string | null
+}
+
+export interface SplatLoadOptions {
+  /** An attempt fails after this long without download progress */
+  stallTimeoutMs?: number
+  /** Decoding reports no progress, so it gets its own, longer limit */
+  parseTimeoutMs?: number
+  /** Retries after the first try, before falling back */
+  maxRetries?: number
+  /** First retry delay; doubles after each failure */
+  retryDelayMs?: number
+}
+
+const DEFAULTS: Required<SplatLoadOptions> = {
+  stallTimeoutMs: 20_000,
+  parseTimeoutMs: 60_000,
+  maxRetries: 3,
+  retryDelayMs: 2_000
+}
+
+const initialState = (): SplatLoadState => ({
+  status: 'loading',
+  stage: 'download',
+  progress: 0,
+  attempt: 0,
+  failures: 0,
+  error: null
+})
+
+/**
+ * Load state for a SplatViewer: timeouts for stalled attempts, automatic
+ * retries with exponential backoff, and a failure record for every attempt.
+ * Spread `handlers` onto the viewer; show a fallback once status is 'failed'.
+ */
+export function useSplatLoad(src: string, renderer: SplatRenderer, options: SplatLoadOptions = {}) {
+  const { stallTimeoutMs, parseTimeoutMs, maxRetries, retryDelayMs } = { ...DEFAULTS, ...options }
+  const [state, setState] = useState<SplatLoadState>(initialState)
+  const stateRef = useRef(state)
+  const timer = useRef<number | null>(null)
+  const startedAt = useRef(performance.now())
+
+  const update = useCallback((next: SplatLoadState) => {
+    stateRef.current = next
+    setState(next)
+  }, [])
+
+  const clearTimer = () => {
+    if (timer.current !== null) window.clearTimeout(timer.current)
+    timer.current = null
+  }
+
+  // Keep the latest settings without re-creating the handlers
+  const settings = useRef({ src, renderer, stallTimeoutMs, parseTimeoutMs, maxRetries, retryDelayMs })
+  settings.current = { src, renderer, stallTimeoutMs, parseTimeoutMs, maxRetries, retryDelayMs }
+
+  const fail = useCallback((error: string) => {
+    const current = stateRef.current
+    if (current.status !== 'loading') return
+    clearTimer()
+
+    const { src, renderer, maxRetries, retryDelayMs } = settings.current
+    const failures = current.failures + 1
+    recordSplatLoadFailure({
+      at: Date.now(),
+      src,
+      renderer,
+      attempt: failures,
+      error,
+      stage: current.stage,
+      progress: current.progress,
+      elapsed_ms: Math.round(performance.now() - startedAt.current),
+      online: navigator.onLine
+    })
+
+    if (failures > maxRetries) {
+      update({ ...current, status: 'failed', failures, error })
+      return
+    }
+
+    update({ ...current, status: 'retrying', failures, error })
+    timer.current = window.setTimeout(() => {
+      update({ ...initialState(), attempt: current.attempt + 1, failures, error })
+    }, retryDelayMs * 2 ** (failures - 1))
+  }, [update])
+
+  const armTimeout = useCallback((stage: LoadStage) => {
+    clearTimer()
+    const { stallTimeoutMs, parseTimeoutMs } = settings.current
+    const ms = stage === 'parse' ? parseTimeoutMs : stallTimeoutMs
+    timer.current = window.setTimeout(() => {
+      fail(stage === 'parse'
+        ? `Decoding took longer than ${ms / 1000}s`
+        : `No download progress for ${ms / 1000}s`)
+    }, ms)
+  }, [fail])
+
+  // A new file or renderer starts over, in the same viewer so the camera stays put
+  useEffect(() => {
+    update({ ...initialState(), attempt: stateRef.current.attempt })
+    return clearTimer
+  }, [src, renderer, update])
+
+  const handlers = {
+    onLoadStart: useCallback(() => {
+      startedAt.current = performance.now()
+      armTimeout('download')
+    }, [armTimeout]),
+
+    onProgress: useCallback((progress: number, stage: LoadStage) => {
+      const current = stateRef.current
+      if (current.status !== 'loading') return
+      if (stage !== current.stage || progress > current.progress) armTimeout(stage)
+      update({ ...current, stage, progress })
+    }, [armTimeout, update]),
+
+    onLoad: useCallback(() => {
+      clearTimer()
+      update({ ...stateRef.current, status: 'loaded', progress: 1, error: null })
+    }, [update]),
+
+    onError: fail
+  }
+
+  /** Manual retry after the fallback, starting the backoff over */
+  const retry = useCallback(() => {
+    clearTimer()
+    update({ ...initialState(), attempt: stateRef.current.attempt + 1 })
+  }, [update])
+
+  return { state, handlers, retry }
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react'
+import { SplatTier } from '../data/types'
+import { SPLAT_LOW_FPS_MS, SPLAT_MIN_FPS } from '../data/splatQuality'
+import { DeviceCapability, chooseTier, probeDeviceCapability } from '../services/deviceCapability'
+
+export interface SplatQuality {
+  /** null until the device has been probed */
+  tier: SplatTier | null
+  capability: DeviceCapability | null
+  /** Why the current tier was picked */
+  reason: 'probe' | 'low-fps' | 'manual' | null
+  /** Staff override; also stops automatic step-down */
+  selectTier: (id: string) => void
+}
+
+/**
+ * Picks a splat quality tier for this device, then watches the frame rate
+ * while `watching` (the scene is loaded and on screen) and steps down to
+ * the next lighter tier when it stays below SPLAT_MIN_FPS. Never steps up
+ * on its own, so a struggling kiosk does not flip back and forth.
+ */
+export function useSplatQuality(tiers: SplatTier[], watching: boolean): SplatQuality {
+  const [tier, setTier] = useState<SplatTier | null>(null)
+  const [capability, setCapability] = useState<DeviceCapability | null>(null)
+  const [reason, setReason] = useState<SplatQuality['reason']>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    probeDeviceCapability().then(measured => {
+      if (cancelled) return
+      setCapability(measured)
+      setTier(current => current ?? chooseTier(tiers, measured))
+      setReason(current => current ?? 'probe')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [tiers])
+
+  const lighter = tier
+    ? [...tiers]
+        .sort((a, b) => b.splat_count - a.splat_count)
+        .find(t => t.splat_count < tier.splat_count) ?? null
+    : null
+  const canStepDown = watching && reason !== 'manual' && lighter !== null
+
+  useEffect(() => {
+    if (!canStepDown || !lighter) return
+
+    // Frame intervals over the last SPLAT_LOW_FPS_MS
+    let samples: Array<{ at: number; ms: number }> = []
+    let last = 0
+    let frame = requestAnimationFrame(function sample(now) {
+      if (last) samples.push({ at: now, ms: now - last })
+      last = now
+      samples = samples.filter(s => now - s.at <= SPLAT_LOW_FPS_MS)
+
+      const covered = samples.length > 0 && now - samples[0].at >= SPLAT_LOW_FPS_MS * 0.95
+      const fps = (1000 * samples.length) / samples.reduce((sum, s) => sum + s.ms, 0)
+      if (covered && fps < SPLAT_MIN_FPS) {
+        console.warn(`SplatQuality: ${fps.toFixed(1)} fps on "${tier?.id}", stepping down to "${lighter.id}"`)
+        setTier(lighter)
+        setReason('low-fps')
+        return
+      }
+      frame = requestAnimationFrame(sample)
+    })
+
+    // Hidden pages get no frames; start over when shown again
+    const onVisibility = () => {
+      samples = []
+      last = 0
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [canStepDown, lighter, tier?.id])
+
+  const selectTier = useCallback((id: string) => {
+    const selected = tiers.find(t => t.id === id)
+    if (!selected) return
+    setTier(selected)
+    setReason('manual')
+  }, [tiers])
+
+  return { tier, capability, reason, selectTier }
+}
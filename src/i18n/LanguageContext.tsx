@@ -1,7 +1,6 @@
-import { createContext, useContext, useState, ReactNode } from 'react'
+import { useCallback } from 'react'
 import { BilingualText } from '../data/types'
-
-type Language = 'en' | 'fr'
+import { Language, useKioskStore } from '../stores/kioskStore'
 
 interface LanguageContextType {
   language: Language
@@ -9,26 +8,16 @@ interface LanguageContextType {
   t: (text: BilingualText) => string
 }
 
-const LanguageContext = createContext<LanguageContextType | undefined>(undefined)
-
-export function LanguageProvider({ children }: { children: ReactNode }) {
-  const [language, setLanguage] = useState<Language>('en')
+/**
+ * Current language and translator, backed by the kiosk store
+ */
+export function useLanguage(): LanguageContextType {
+  const language = useKioskStore(state => state.language)
+  const setLanguage = useKioskStore(state => state.setLanguage)
 
-  const t = (text: BilingualText): string => {
+  const t = useCallback((text: BilingualText): string => {
     return text[language]
-  }
-
-  return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
-      {children}
-    </LanguageContext.Provider>
-  )
-}
+  }, [language])
 
-export function useLanguage() {
-  const context = useContext(LanguageContext)
-  if (context === undefined) {
-    throw new Error('useLanguage must be used within a LanguageProvider')
-  }
-  return context
+  return { language, setLanguage, t }
 }
@@ -72,7 +72,29 @@ export const ui: Record<string, BilingualText> = {
     en: 'Manufacturer',
     fr: 'Fabricant'
   },
+  relatedEquipment: {
+    en: 'Related Equipment',
+    fr: 'Equipement connexe'
+  },
+  source: {
+    en: 'Source',
+    fr: 'Source'
+  },
   
+  // Cutaway
+  wholeBuilding: {
+    en: 'Whole building',
+    fr: 'Tout le batiment'
+  },
+  tapSection: {
+    en: 'Touch a part of the building to look inside',
+    fr: 'Touchez une partie du batiment pour voir l\'interieur'
+  },
+  equipmentHere: {
+    en: 'Equipment here',
+    fr: 'Equipement ici'
+  },
+
   // Quiz
   quizCorrect: {
     en: 'Correct!',
@@ -86,6 +108,42 @@ export const ui: Record<string, BilingualText> = {
     en: 'Score',
     fr: 'Score'
   },
+  quizPrompt: {
+    en: 'Touch the correct equipment',
+    fr: 'Touchez le bon equipement'
+  },
+  quizHint: {
+    en: 'Hint',
+    fr: 'Indice'
+  },
+  quizAnswerWas: {
+    en: 'The answer was',
+    fr: 'La reponse etait'
+  },
+  quizNextQuestion: {
+    en: 'Next question',
+    fr: 'Question suivante'
+  },
+  quizSeeResults: {
+    en: 'See results',
+    fr: 'Voir les resultats'
+  },
+  quizRoundComplete: {
+    en: 'Round complete!',
+    fr: 'Manche terminee!'
+  },
+  quizYouScored: {
+    en: 'You scored',
+    fr: 'Vous avez obtenu'
+  },
+  quizOutOf: {
+    en: 'out of',
+    fr: 'sur'
+  },
+  quizPlayAgain: {
+    en: 'Play again',
+    fr: 'Rejouer'
+  },
   
   // Animation
   play: {
@@ -101,19 +159,97 @@ export const ui: Record<string, BilingualText> = {
     fr: 'Recommencer'
   },
   
+  // Idle / attract
+  stillThere: {
+    en: 'Still there?',
+    fr: 'Toujours la?'
+  },
+  idleCountdown: {
+    en: 'Returning to the start in',
+    fr: 'Retour au debut dans'
+  },
+  stillHere: {
+    en: 'I\'m still here',
+    fr: 'Je suis encore la'
+  },
+  touchToBegin: {
+    en: 'Touch to begin',
+    fr: 'Touchez pour commencer'
+  },
+
   // Gallery
   flipToRead: {
     en: 'Tap to flip',
     fr: 'Touchez pour retourner'
   },
+  allEras: {
+    en: 'All',
+    fr: 'Toutes'
+  },
+  viewFullScreen: {
+    en: 'View full screen',
+    fr: 'Plein ecran'
+  },
+  archivalReference: {
+    en: 'Archival reference',
+    fr: 'Reference d\'archives'
+  },
+  noPhotos: {
+    en: 'No photos here yet',
+    fr: 'Aucune photo pour le moment'
+  },
   
-  // Statistics
+  // Splat viewer
+  splatLoading: {
+    en: 'Loading the pump room in 3D',
+    fr: 'Chargement de la salle des pompes en 3D'
+  },
+  splatDownloading: {
+    en: 'Downloading',
+    fr: 'Telechargement'
+  },
+  splatPreparing: {
+    en: 'Preparing the view',
+    fr: 'Preparation de la vue'
+  },
+  splatSwitchingQuality: {
+    en: 'Adjusting the 3D view...',
+    fr: 'Ajustement de la vue 3D...'
+  },
+  splatRetrying: {
+    en: 'Taking longer than usual, trying again...',
+    fr: 'Plus long que prevu, nouvel essai...'
+  },
+  splatUnavailable: {
+    en: 'The 3D view is unavailable right now. Touch the equipment in the photo instead.',
+    fr: 'La vue 3D n\'est pas disponible pour le moment. Touchez l\'equipement sur la photo.'
+  },
+  tryAgain: {
+    en: 'Try again',
+    fr: 'Reessayer'
+  },
+
+  // Units
+  unitsImperial: {
+    en: 'Imperial',
+    fr: 'Imperial'
+  },
+  unitsMetric: {
+    en: 'Metric',
+    fr: 'Metrique'
+  },
+  unitsBoth: {
+    en: 'Both',
+    fr: 'Les deux'
+  },
+
+  // Statistics; {volume} and {rate} are filled from data/statistics in the visitor's units
   pumpCapacity: {
-    en: '2,100,000 gallons emptied in 75 minutes',
-    fr: '2 100 000 gallons vides en 75 minutes'
+    en: '{volume} emptied in 75 minutes',
+    fr: '{volume} vides en 75 minutes'
   },
   pumpRate: {
-    en: '14,000 gallons per minute per pump',
-    fr: '14 000 gallons par minute par pompe'
+    en: '{rate} per pump',
+    fr: '{rate} par pompe'
   }
 }
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { formatNumber, formatQuantity } from './units'
+
+// fr-CA groups thousands with a no-break space; compare with a plain one
+const plain = (text: string) => text.replace(/\s/g, ' ')
+
+describe('formatNumber', () => {
+  it('groups thousands and marks decimals the local way', () => {
+    expect(formatNumber(14_000.5, 'en')).toBe('14,000.5')
+    expect(plain(formatNumber(14_000.5, 'fr'))).toBe('14 000,5')
+    expect(formatNumber(14_000.5, 'fr')).not.toContain(' ')
+  })
+
+  it('rounds to two decimals unless told otherwise', () => {
+    expect(formatNumber(1.23456, 'en')).toBe('1.23')
+    expect(formatNumber(63_645.26, 'en', { maximumSignificantDigits: 3 })).toBe('63,600')
+  })
+})
+
+describe('formatQuantity', () => {
+  const rate = { value: 14_000, unit: 'gal/min' } as const
+
+  it('shows imperial, metric or both in English', () => {
+    expect(formatQuantity(rate, 'imperial', 'en')).toBe('14,000 gal/min')
+    expect(formatQuantity(rate, 'metric', 'en')).toBe('63,600 L/min')
+    expect(formatQuantity(rate, 'both', 'en')).toBe('14,000 gal/min (63,600 L/min)')
+  })
+
+  it('shows imperial, metric or both in French', () => {
+    expect(plain(formatQuantity(rate, 'imperial', 'fr'))).toBe('14 000 gal/min')
+    expect(plain(formatQuantity(rate, 'metric', 'fr'))).toBe('63 600 L/min')
+    expect(plain(formatQuantity(rate, 'both', 'fr'))).toBe('14 000 gal/min (63 600 L/min)')
+  })
+
+  it('uses the French symbols and decimal comma', () => {
+    expect(formatQuantity({ value: 2.5, unit: 'ft' }, 'both', 'fr')).toBe('2,5 pi (0,762 m)')
+    expect(formatQuantity({ value: 100, unit: 'psi' }, 'both', 'fr')).toBe('100 lb/po² (689 kPa)')
+    expect(formatQuantity({ value: 100, unit: 'psi' }, 'both', 'en')).toBe('100 psi (689 kPa)')
+  })
+
+  it('writes short lengths in inches and longer ones in feet and inches', () => {
+    expect(formatQuantity({ value: 18, unit: 'in' }, 'imperial', 'en')).toBe('18"')
+    expect(formatQuantity({ value: 35.5, unit: 'in' }, 'imperial', 'en')).toBe('35.5"')
+    expect(formatQuantity({ value: 36, unit: 'in' }, 'imperial', 'en')).toBe('3\'')
+    expect(formatQuantity({ value: 56, unit: 'in' }, 'imperial', 'en')).toBe('4\' 8"')
+    expect(formatQuantity({ value: 40.5, unit: 'in' }, 'imperial', 'fr')).toBe('3\' 4,5"')
+  })
+
+  it('converts inches to millimetres, or metres from a metre up', () => {
+    expect(formatQuantity({ value: 18, unit: 'in' }, 'metric', 'en')).toBe('457 mm')
+    expect(formatQuantity({ value: 56, unit: 'in' }, 'both', 'en')).toBe('4\' 8" (1.42 m)')
+    expect(formatQuantity({ value: 56, unit: 'in' }, 'metric', 'fr')).toBe('1,42 m')
+  })
+
+  it('switches large volumes to cubic metres', () => {
+    expect(formatQuantity({ value: 100, unit: 'gal' }, 'metric', 'en')).toBe('455 L')
+    expect(formatQuantity({ value: 2_100_000, unit: 'gal' }, 'metric', 'en')).toBe('9,550 m³')
+    expect(plain(formatQuantity({ value: 2_100_000, unit: 'gal' }, 'metric', 'fr'))).toBe('9 550 m³')
+  })
+
+  it('shows units with no metric form once, whatever the system', () => {
+    const speed = { value: 60, unit: 'rpm' } as const
+    for (const system of ['imperial', 'metric', 'both'] as const) {
+      expect(formatQuantity(speed, system, 'en')).toBe('60 RPM')
+      expect(formatQuantity(speed, system, 'fr')).toBe('60 tr/min')
+    }
+  })
+})
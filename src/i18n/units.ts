@@ -0,0 +1,97 @@
+/**
+ * Quantities in imperial (as built), metric, or both
+ * Values are stored as the historical documents give them. Metric is
+ * derived and rounded to three significant figures, so it claims no more
+ * precision than the original measurement.
+ */
+
+import { useCallback } from 'react'
+import { BilingualText, Quantity, Unit, UnitSystem } from '../data/types'
+import { Language, useKioskStore } from '../stores/kioskStore'
+import { useLanguage } from './LanguageContext'
+
+type MetricUnit = 'mm' | 'm' | 'L' | 'm3' | 'L/min' | 'kPa' | 'kW' | 'kg'
+
+const LOCALES: Record<Language, string> = {
+  en: 'en-CA',
+  fr: 'fr-CA'
+}
+
+const IMPERIAL_GALLON_L = 4.54609
+
+// Lengths from this many inches up read better as feet and inches, e.g. 4' 8"
+const FEET_INCHES_FROM = 36
+
+const SYMBOLS: Record<Exclude<Unit, 'in'> | MetricUnit, BilingualText> = {
+  'ft': { en: 'ft', fr: 'pi' },
+  'gal': { en: 'gal', fr: 'gal' },
+  'gal/min': { en: 'gal/min', fr: 'gal/min' },
+  'psi': { en: 'psi', fr: 'lb/po²' },
+  'hp': { en: 'hp', fr: 'hp' },
+  'lb': { en: 'lb', fr: 'lb' },
+  'rpm': { en: 'RPM', fr: 'tr/min' },
+  'mm': { en: 'mm', fr: 'mm' },
+  'm': { en: 'm', fr: 'm' },
+  'L': { en: 'L', fr: 'L' },
+  'm3': { en: 'm³', fr: 'm³' },
+  'L/min': { en: 'L/min', fr: 'L/min' },
+  'kPa': { en: 'kPa', fr: 'kPa' },
+  'kW': { en: 'kW', fr: 'kW' },
+  'kg': { en: 'kg', fr: 'kg' }
+}
+
+// Units with no metric counterpart (rpm) are shown once
+const TO_METRIC: Partial<Record<Unit, (value: number) => { value: number; unit: MetricUnit }>> = {
+  'in': (v) => v * 25.4 < 1000 ? { value: v * 25.4, unit: 'mm' } : { value: v * 0.0254, unit: 'm' },
+  'ft': (v) => ({ value: v * 0.3048, unit: 'm' }),
+  'gal': (v) => {
+    const litres = v * IMPERIAL_GALLON_L
+    return litres < 100_000 ? { value: litres, unit: 'L' } : { value: litres / 1000, unit: 'm3' }
+  },
+  'gal/min': (v) => ({ value: v * IMPERIAL_GALLON_L, unit: 'L/min' }),
+  'psi': (v) => ({ value: v * 6.894757, unit: 'kPa' }),
+  'hp': (v) => ({ value: v * 0.7457, unit: 'kW' }),
+  'lb': (v) => ({ value: v * 0.45359237, unit: 'kg' })
+}
+
+/** Locale-correct number: "14,000.5" in English, "14 000,5" in French */
+export function formatNumber(value: number, language: Language, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: 2, ...options }).format(value)
+}
+
+function formatImperial({ value, unit }: Quantity, language: Language): string {
+  if (unit !== 'in') return `${formatNumber(value, language)} ${SYMBOLS[unit][language]}`
+  if (value < FEET_INCHES_FROM) return `${formatNumber(value, language)}"`
+
+  const feet = Math.floor(value / 12)
+  const inches = value - feet * 12
+  return inches ? `${feet}' ${formatNumber(inches, language)}"` : `${feet}'`
+}
+
+/** The quantity as the visitor asked to see it */
+export function formatQuantity(quantity: Quantity, system: UnitSystem, language: Language): string {
+  const imperial = formatImperial(quantity, language)
+  const convert = TO_METRIC[quantity.unit]
+  if (!convert || system === 'imperial') return imperial
+
+  const metric = convert(quantity.value)
+  const metricText = `${formatNumber(metric.value, language, { maximumSignificantDigits: 3 })} ${SYMBOLS[metric.unit][language]}`
+  return system === 'metric' ? metricText : `${imperial} (${metricText})`
+}
+
+/**
+ * Current unit system and a formatter for the current language,
+ * backed by the kiosk store
+ */
+export function useUnits() {
+  const { language } = useLanguage()
+  const units = useKioskStore(state => state.units)
+  const setUnits = useKioskStore(state => state.setUnits)
+
+  const format = useCallback(
+    (quantity: Quantity) => formatQuantity(quantity, units, language),
+    [units, language]
+  )
+
+  return { units, setUnits, format }
+}
@@ -0,0 +1,6 @@
+// The instance API the kiosk uses is typed in src/components/splat/cameraControls.ts
+declare module 'playcanvas/scripts/esm/camera-controls.mjs' {
+  import { Script } from 'playcanvas';
+
+  export class CameraControls extends Script {}
+}
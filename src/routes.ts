@@ -0,0 +1,43 @@
+/**
+ * URL scheme for the kiosk
+ *
+ *   /                          home
+ *   /explore                   equipment explorer
+ *   /explore/:equipmentId      explorer with an equipment detail open
+ *   /animation, /cutaway, /quiz
+ *   /gallery?era=wwii          gallery, optionally filtered by era
+ *   /gallery/:photoId          gallery with a photo open
+ *   /staff/hotspots            staff hotspot editor (PIN-gated, opened from the admin panel)
+ *   /staff/analytics           staff visitor analytics and daily exports (likewise)
+ *   /staff/viewpoints          staff viewpoint editor for the splat scene (likewise)
+ */
+
+import { matchPath } from 'react-router-dom'
+import { Feature } from './stores/kioskStore'
+
+const FEATURES: Feature[] = ['home', 'explore', 'animation', 'cutaway', 'quiz', 'gallery']
+
+// Optional segments keep the feature mounted while the selection changes
+export const EXPLORE_ROUTE = '/explore/:equipmentId?'
+export const GALLERY_ROUTE = '/gallery/:photoId?'
+export const STAFF_HOTSPOTS_ROUTE = '/staff/hotspots'
+export const STAFF_ANALYTICS_ROUTE = '/staff/analytics'
+export const STAFF_VIEWPOINTS_ROUTE = '/staff/viewpoints'
+
+export const featurePath = (feature: Feature): string =>
+  feature === 'home' ? '/' : `/${feature}`
+
+export const equipmentPath = (id: string): string =>
+  `/explore/${encodeURIComponent(id)}`
+
+export const galleryPhotoPath = (id: string): string =>
+  `/gallery/${encodeURIComponent(id)}`
+
+export function featureFromPath(pathname: string): Feature {
+  const segment = pathname.split('/')[1] as Feature
+  return FEATURES.includes(segment) ? segment : 'home'
+}
+
+export function equipmentIdFromPath(pathname: string): string | null {
+  return matchPath(EXPLORE_ROUTE, pathname)?.params.equipmentId ?? null
+}
@@ -0,0 +1,319 @@
+/**
+ * Anonymous visitor analytics
+ *
+ * Records what visitors do (features entered, equipment selected, time
+ * spent, quiz answers, language switches, idle resets) into an IndexedDB
+ * queue and flushes it to Supabase when online. Events carry no personal
+ * data: a visit is a random id that ends at the idle reset, nothing else
+ * identifies a visitor. Events stay on the kiosk for ANALYTICS_RETENTION_DAYS so
+ * staff can export daily summaries without a connection.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Feature, Language, useKioskStore } from '../stores/kioskStore'
+import { getSupabaseClient } from './supabase'
+import {
+  ANALYTICS_STORE,
+  META_STORE,
+  openKioskDb,
+  requestResult,
+  transactionComplete
+} from './kioskDb'
+
+export type AnalyticsEventType =
+  | 'feature_entered'
+  | 'equipment_selected'
+  | 'dwell'
+  | 'quiz_answer'
+  | 'language_switch'
+  | 'idle_reset'
+
+export interface AnalyticsEvent {
+  id: string
+  type: AnalyticsEventType
+  at: number
+  /** Random per visit, so a visit's events can be grouped; not tied to anyone */
+  visit_id: string
+  project_id: string | null
+  /** Feature on screen when the event happened */
+  feature: Feature
+  /** Selected equipment; for a quiz answer, the equipment tapped */
+  equipment_id: string | null
+  question_id: string | null
+  correct: boolean | null
+  /** Language on screen; for a switch, the new language */
+  language: Language
+  /** Dwell: time on the feature or equipment. Idle reset: length of the visit. */
+  duration_ms: number | null
+}
+
+/** Queue entry; IndexedDB cannot index booleans */
+interface QueuedEvent extends AnalyticsEvent {
+  flushed: 0 | 1
+}
+
+export interface FlushResult {
+  status: 'flushed' | 'empty' | 'offline' | 'unconfigured' | 'failed'
+  count: number
+  at: number
+  error?: string
+}
+
+export type AnalyticsEventInput = Pick<AnalyticsEvent, 'type'> &
+  Partial<Pick<AnalyticsEvent, 'feature' | 'equipment_id' | 'question_id' | 'correct' | 'language' | 'duration_ms'>>
+
+const TABLE = 'kiosk_analytics_events'
+const LAST_FLUSH_KEY = 'analytics_last_flush'
+const FLUSH_BATCH = 500
+export const ANALYTICS_RETENTION_DAYS = 90
+const DEFAULT_FLUSH_INTERVAL_MS = 5 * 60 * 1000
+
+// ============================================
+// Recording
+// ============================================
+
+type StoreState = ReturnType<typeof useKioskStore.getState>
+
+// The current visit, and what has been on screen since when (for dwell times)
+let visit: { id: string; started_at: number } | null = null
+let feature: { name: Feature; since: number } | null = null
+let equipment: { id: string; since: number } | null = null
+
+function startVisit(state: StoreState, at: number) {
+  visit = { id: crypto.randomUUID(), started_at: at }
+  feature = { name: state.current_feature, since: at }
+  equipment = state.selected_equipment_id ? { id: state.selected_equipment_id, since: at } : null
+  return visit
+}
+
+/**
+ * Queues an event, filling in the visit, feature and language from the
+ * kiosk store. Never throws; analytics must not break the kiosk.
+ */
+export function recordAnalyticsEvent(input: AnalyticsEventInput, at = Date.now()): void {
+  const state = useKioskStore.getState()
+  const event: QueuedEvent = {
+    id: crypto.randomUUID(),
+    at,
+    visit_id: (visit ?? startVisit(state, at)).id,
+    project_id: import.meta.env.VITE_KIOSK_PROJECT_ID ?? null,
+    feature: state.current_feature,
+    equipment_id: null,
+    question_id: null,
+    correct: null,
+    language: state.language,
+    duration_ms: null,
+    ...input,
+    flushed: 0
+  }
+
+  openKioskDb()
+    .then(db => {
+      const tx = db.transaction(ANALYTICS_STORE, 'readwrite')
+      tx.objectStore(ANALYTICS_STORE).put(event)
+      return transactionComplete(tx)
+    })
+    .catch(err => console.warn('Analytics: could not record event:', err))
+}
+
+function endEquipmentDwell(prev: StoreState, at: number) {
+  if (!equipment) return
+  recordAnalyticsEvent({
+    type: 'dwell',
+    feature: prev.current_feature,
+    equipment_id: equipment.id,
+    language: prev.language,
+    duration_ms: Math.max(0, at - equipment.since)
+  }, at)
+  equipment = null
+}
+
+function endFeatureDwell(prev: StoreState, at: number) {
+  if (!feature) return
+  recordAnalyticsEvent({
+    type: 'dwell',
+    feature: feature.name,
+    language: prev.language,
+    duration_ms: Math.max(0, at - feature.since)
+  }, at)
+  feature = null
+}
+
+function onStoreChange(state: StoreState, prev: StoreState) {
+  // Idle reset: the visit ended at its last touch, not when the countdown ran out
+  if (state.session_id !== prev.session_id) {
+    if (!visit) return
+    const end = prev.last_interaction
+    endEquipmentDwell(prev, end)
+    endFeatureDwell(prev, end)
+    recordAnalyticsEvent({
+      type: 'idle_reset',
+      feature: prev.current_feature,
+      language: prev.language,
+      duration_ms: Math.max(0, end - visit.started_at)
+    }, end)
+    visit = null
+    return
+  }
+
+  // The first touch after a reset or page load starts a visit
+  if (!visit) {
+    if (state.last_interaction === prev.last_interaction) return
+    startVisit(prev, state.last_interaction)
+  }
+
+  const now = Date.now()
+  if (state.selected_equipment_id !== prev.selected_equipment_id) {
+    endEquipmentDwell(prev, now)
+    if (state.selected_equipment_id) {
+      recordAnalyticsEvent({ type: 'equipment_selected', equipment_id: state.selected_equipment_id }, now)
+      equipment = { id: state.selected_equipment_id, since: now }
+    }
+  }
+  if (state.current_feature !== prev.current_feature) {
+    endFeatureDwell(prev, now)
+    recordAnalyticsEvent({ type: 'feature_entered' }, now)
+    feature = { name: state.current_feature, since: now }
+  }
+  if (state.language !== prev.language) {
+    recordAnalyticsEvent({ type: 'language_switch' }, now)
+  }
+}
+
+// ============================================
+// Queue
+// ============================================
+
+/** Events recorded between from and to (ms), oldest first */
+export async function getAnalyticsEvents(from = 0, to = Date.now()): Promise<AnalyticsEvent[]> {
+  const db = await openKioskDb()
+  const tx = db.transaction(ANALYTICS_STORE, 'readonly')
+  const queued = await requestResult<QueuedEvent[]>(
+    tx.objectStore(ANALYTICS_STORE).index('at').getAll(IDBKeyRange.bound(from, to))
+  )
+  return queued.map(({ flushed: _flushed, ...event }) => event)
+}
+
+export async function getPendingAnalyticsCount(): Promise<number> {
+  const db = await openKioskDb()
+  const tx = db.transaction(ANALYTICS_STORE, 'readonly')
+  return requestResult(tx.objectStore(ANALYTICS_STORE).index('flushed').count(0))
+}
+
+export async function getLastFlushResult(): Promise<FlushResult | null> {
+  const db = await openKioskDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  const result = await requestResult<FlushResult | undefined>(tx.objectStore(META_STORE).get(LAST_FLUSH_KEY))
+  return result ?? null
+}
+
+async function recordFlushResult(result: FlushResult): Promise<FlushResult> {
+  try {
+    const db = await openKioskDb()
+    const tx = db.transaction(META_STORE, 'readwrite')
+    tx.objectStore(META_STORE).put(result, LAST_FLUSH_KEY)
+    await transactionComplete(tx)
+  } catch (err) {
+    console.warn('Analytics: could not record flush result:', err)
+  }
+  return result
+}
+
+/** Drops events older than ANALYTICS_RETENTION_DAYS, flushed or not */
+async function pruneEvents(): Promise<void> {
+  const db = await openKioskDb()
+  const tx = db.transaction(ANALYTICS_STORE, 'readwrite')
+  const cutoff = Date.now() - ANALYTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  tx.objectStore(ANALYTICS_STORE).index('at').openCursor(IDBKeyRange.upperBound(cutoff, true)).onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result
+    if (!cursor) return
+    cursor.delete()
+    cursor.continue()
+  }
+  await transactionComplete(tx)
+}
+
+// ============================================
+// Flush
+// ============================================
+
+async function flushBatch(client: SupabaseClient): Promise<number> {
+  const db = await openKioskDb()
+  const read = db.transaction(ANALYTICS_STORE, 'readonly')
+  const batch = await requestResult<QueuedEvent[]>(
+    read.objectStore(ANALYTICS_STORE).index('flushed').getAll(0, FLUSH_BATCH)
+  )
+  if (batch.length === 0) return 0
+
+  // Event ids make a retried batch harmless
+  const { error } = await client
+    .from(TABLE)
+    .upsert(
+      batch.map(({ flushed: _flushed, at, ...event }) => ({ ...event, at: new Date(at).toISOString() })),
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+  if (error) {
+    throw new Error(`Failed to insert into ${TABLE}: ${error.message}`)
+  }
+
+  const write = db.transaction(ANALYTICS_STORE, 'readwrite')
+  const store = write.objectStore(ANALYTICS_STORE)
+  for (const event of batch) {
+    store.put({ ...event, flushed: 1 })
+  }
+  await transactionComplete(write)
+  return batch.length
+}
+
+let inFlight: Promise<FlushResult> | null = null
+
+export function flushAnalytics(client: SupabaseClient | null = getSupabaseClient()): Promise<FlushResult> {
+  if (!inFlight) {
+    inFlight = runFlush(client).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
+
+async function runFlush(client: SupabaseClient | null): Promise<FlushResult> {
+  const result = (status: FlushResult['status'], count: number, error?: string) =>
+    recordFlushResult({ status, count, at: Date.now(), error })
+
+  if (!client) return result('unconfigured', 0)
+  if (!navigator.onLine) return result('offline', 0)
+
+  let count = 0
+  try {
+    for (let sent = await flushBatch(client); sent > 0; sent = await flushBatch(client)) {
+      count += sent
+    }
+    return result(count > 0 ? 'flushed' : 'empty', count)
+  } catch (err) {
+    console.warn('Analytics: flush failed, events stay queued:', err)
+    return result('failed', count, err instanceof Error ? err.message : String(err))
+  }
+}
+
+/**
+ * Watches the kiosk store for visitor activity and flushes the queue now,
+ * on an interval and whenever the network comes back. Returns a stop function.
+ */
+export function startAnalytics(intervalMs = DEFAULT_FLUSH_INTERVAL_MS): () => void {
+  const unsubscribe = useKioskStore.subscribe(onStoreChange)
+  const flush = () => {
+    flushAnalytics()
+  }
+
+  pruneEvents()
+    .catch(err => console.warn('Analytics: pruning failed:', err))
+    .then(flush)
+  const timer = window.setInterval(flush, intervalMs)
+  window.addEventListener('online', flush)
+
+  return () => {
+    unsubscribe()
+    window.clearInterval(timer)
+    window.removeEventListener('online', flush)
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Daily summaries of visitor analytics, for staff exports
+ * Counts and durations only; raw events (and their visit ids) never leave
+ * the kiosk through an export.
+ */
+
+import { Feature, Language } from '../stores/kioskStore'
+import { AnalyticsEvent } from './analytics'
+
+export interface DailySummary {
+  /** Local date, YYYY-MM-DD */
+  date: string
+  visits: number
+  /** First touch to last touch, for visits that ended in an idle reset */
+  median_visit_ms: number | null
+  features: Array<{ feature: Feature; entries: number; dwell_ms: number }>
+  /** Most selected first */
+  equipment: Array<{ equipment_id: string; selections: number; dwell_ms: number; median_dwell_ms: number | null }>
+  quiz: {
+    answers: number
+    correct: number
+    questions: Array<{ question_id: string; answers: number; correct: number }>
+  }
+  /** Switches to each language */
+  language_switches: Record<Language, number>
+  idle_resets: number
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+/** Local calendar day of a timestamp, YYYY-MM-DD */
+export function dayKey(at: number): string {
+  const date = new Date(at)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return Math.round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+function summarizeDay(date: string, events: AnalyticsEvent[]): DailySummary {
+  const features = new Map<Feature, { entries: number; dwell_ms: number }>()
+  const equipment = new Map<string, { selections: number; dwells: number[] }>()
+  const questions = new Map<string, { answers: number; correct: number }>()
+  const languageSwitches: Record<Language, number> = { en: 0, fr: 0 }
+  const visitLengths: number[] = []
+  let idleResets = 0
+
+  const featureEntry = (feature: Feature) => {
+    const entry = features.get(feature) ?? { entries: 0, dwell_ms: 0 }
+    features.set(feature, entry)
+    return entry
+  }
+  const equipmentEntry = (id: string) => {
+    const entry = equipment.get(id) ?? { selections: 0, dwells: [] }
+    equipment.set(id, entry)
+    return entry
+  }
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'feature_entered':
+        featureEntry(event.feature).entries++
+        break
+      case 'equipment_selected':
+        if (event.equipment_id) equipmentEntry(event.equipment_id).selections++
+        break
+      case 'dwell':
+        if (event.equipment_id) {
+          equipmentEntry(event.equipment_id).dwells.push(event.duration_ms ?? 0)
+        } else {
+          featureEntry(event.feature).dwell_ms += event.duration_ms ?? 0
+        }
+        break
+      case 'quiz_answer': {
+        if (!event.question_id) break
+        const question = questions.get(event.question_id) ?? { answers: 0, correct: 0 }
+        questions.set(event.question_id, question)
+        question.answers++
+        if (event.correct) question.correct++
+        break
+      }
+      case 'language_switch':
+        languageSwitches[event.language]++
+        break
+      case 'idle_reset':
+        idleResets++
+        if (event.duration_ms !== null) visitLengths.push(event.duration_ms)
+        break
+    }
+  }
+
+  const questionList = [...questions].map(([question_id, q]) => ({ question_id, ...q }))
+
+  return {
+    date,
+    visits: new Set(events.map(e => e.visit_id)).size,
+    median_visit_ms: median(visitLengths),
+    features: [...features]
+      .map(([feature, f]) => ({ feature, ...f }))
+      .sort((a, b) => b.entries - a.entries),
+    equipment: [...equipment]
+      .map(([equipment_id, e]) => ({
+        equipment_id,
+        selections: e.selections,
+        dwell_ms: e.dwells.reduce((sum, ms) => sum + ms, 0),
+        median_dwell_ms: median(e.dwells)
+      }))
+      .sort((a, b) => b.selections - a.selections || b.dwell_ms - a.dwell_ms),
+    quiz: {
+      answers: questionList.reduce((sum, q) => sum + q.answers, 0),
+      correct: questionList.reduce((sum, q) => sum + q.correct, 0),
+      questions: questionList.sort((a, b) => a.question_id.localeCompare(b.question_id))
+    },
+    language_switches: languageSwitches,
+    idle_resets: idleResets
+  }
+}
+
+/** One summary per local day, most recent first */
+export function summarizeByDay(events: AnalyticsEvent[]): DailySummary[] {
+  const days = new Map<string, AnalyticsEvent[]>()
+  for (const event of events) {
+    const key = dayKey(event.at)
+    const day = days.get(key) ?? []
+    days.set(key, day)
+    day.push(event)
+  }
+  return [...days]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, dayEvents]) => summarizeDay(date, dayEvents))
+}
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Long format, one figure per row: date, section, key, metric, value */
+export function summariesToCsv(summaries: DailySummary[]): string {
+  const rows: Array<Array<string | number | null>> = [['date', 'section', 'key', 'metric', 'value']]
+  for (const s of summaries) {
+    const add = (section: string, key: string, metric: string, value: number | null) =>
+      rows.push([s.date, section, key, metric, value])
+
+    add('visits', '', 'count', s.visits)
+    add('visits', '', 'median_ms', s.median_visit_ms)
+    add('visits', '', 'idle_resets', s.idle_resets)
+    for (const f of s.features) {
+      add('feature', f.feature, 'entries', f.entries)
+      add('feature', f.feature, 'dwell_ms', f.dwell_ms)
+    }
+    for (const e of s.equipment) {
+      add('equipment', e.equipment_id, 'selections', e.selections)
+      add('equipment', e.equipment_id, 'dwell_ms', e.dwell_ms)
+      add('equipment', e.equipment_id, 'median_dwell_ms', e.median_dwell_ms)
+    }
+    add('quiz', '', 'answers', s.quiz.answers)
+    add('quiz', '', 'correct', s.quiz.correct)
+    for (const q of s.quiz.questions) {
+      add('quiz_question', q.question_id, 'answers', q.answers)
+      add('quiz_question', q.question_id, 'correct', q.correct)
+    }
+    for (const language of Object.keys(s.language_switches) as Language[]) {
+      add('language_switch', language, 'count', s.language_switches[language])
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n'
+}
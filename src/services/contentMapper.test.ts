@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EquipmentRow,
+  GalleryPhotoRow,
+  QuizQuestionRow,
+  hotspotRowFields,
+  mapEquipmentRow,
+  mapGalleryPhotoRow,
+  mapHotspotCoordinates,
+  mapQuizQuestionRow,
+  mapRows
+} from './contentMapper'
+
+function equipmentRow(overrides: Partial<EquipmentRow> = {}): EquipmentRow {
+  return {
+    id: 'main-pump-east',
+    name_en: 'Main Pump',
+    name_fr: 'Pompe principale',
+    description_en: 'A pump',
+    description_fr: 'Une pompe',
+    function_en: 'Pumps water',
+    function_fr: 'Pompe l\'eau',
+    specifications: null,
+    specifications_en: null,
+    specifications_fr: null,
+    year_installed: 1892,
+    manufacturer: null,
+    color_category: 'pump',
+    hotspot_shape: 'circle',
+    hotspot_coordinates: { center_x: 50, center_y: 40, radius: 5 },
+    sort_order: 1,
+    ...overrides
+  }
+}
+
+function galleryRow(overrides: Partial<GalleryPhotoRow> = {}): GalleryPhotoRow {
+  return {
+    id: 'photo-1',
+    image_url: 'https://example.org/photo-1.jpg',
+    thumbnail_url: null,
+    title_en: 'Photo',
+    title_fr: 'Photo',
+    description_en: 'A photo',
+    description_fr: 'Une photo',
+    year: 1895,
+    era: 'early_operation',
+    source: null,
+    tags: null,
+    sort_order: 1,
+    ...overrides
+  }
+}
+
+function quizRow(overrides: Partial<QuizQuestionRow> = {}): QuizQuestionRow {
+  return {
+    id: 'q1',
+    question_en: 'Which pump?',
+    question_fr: 'Quelle pompe?',
+    correct_equipment_id: 'main-pump-east',
+    hint_en: null,
+    hint_fr: null,
+    explanation_en: 'This one.',
+    explanation_fr: 'Celle-ci.',
+    difficulty: 'easy',
+    sort_order: 1,
+    ...overrides
+  }
+}
+
+describe('mapHotspotCoordinates', () => {
+  it('maps each shape and coerces numeric strings', () => {
+    expect(mapHotspotCoordinates('circle', { center_x: '10', center_y: 20, radius: 3 }))
+      .toEqual({ type: 'circle', center_x: 10, center_y: 20, radius: 3 })
+    expect(mapHotspotCoordinates('rectangle', { x: 1, y: 2, width: 3, height: 4 }))
+      .toEqual({ type: 'rectangle', x: 1, y: 2, width: 3, height: 4 })
+    expect(mapHotspotCoordinates('polygon', { points: [{ x: 1, y: 2 }, { x: 3, y: 4 }, { x: 5, y: 0 }] }))
+      .toEqual({ type: 'polygon', points: [{ x: 1, y: 2 }, { x: 3, y: 4 }, { x: 5, y: 0 }] })
+  })
+
+  it('rejects unknown shapes, missing coordinates and non-numbers', () => {
+    expect(() => mapHotspotCoordinates('star', { x: 1 })).toThrow('Unknown hotspot_shape "star"')
+    expect(() => mapHotspotCoordinates('circle', null)).toThrow('Missing hotspot_coordinates')
+    expect(() => mapHotspotCoordinates('circle', { center_x: 'left', center_y: 1, radius: 1 })).toThrow('Expected a number')
+    expect(() => mapHotspotCoordinates('polygon', { points: 'none' })).toThrow('points array')
+  })
+
+  it('round-trips through hotspotRowFields', () => {
+    const coordinates = { type: 'rectangle', x: 1, y: 2, width: 3, height: 4 } as const
+    const { hotspot_shape, hotspot_coordinates } = hotspotRowFields(coordinates)
+    expect(mapHotspotCoordinates(hotspot_shape, hotspot_coordinates)).toEqual(coordinates)
+  })
+})
+
+describe('mapEquipmentRow', () => {
+  it('maps bilingual columns and the hotspot', () => {
+    const equipment = mapEquipmentRow(equipmentRow())
+    expect(equipment.name).toEqual({ en: 'Main Pump', fr: 'Pompe principale' })
+    expect(equipment.hotspot).toEqual({
+      id: 'hs-main-pump-east',
+      shape: 'circle',
+      coordinates: { type: 'circle', center_x: 50, center_y: 40, radius: 5 },
+      pulse_animation: true
+    })
+    expect(equipment.manufacturer).toBeUndefined()
+  })
+
+  it('maps structured specifications', () => {
+    const equipment = mapEquipmentRow(equipmentRow({
+      specifications: [
+        { label_en: 'Capacity', label_fr: 'Capacite', value: 14000, unit: 'gal/min' },
+        { label_en: 'Maker', label_fr: 'Fabricant', text_en: 'Inglis', text_fr: 'Inglis' }
+      ]
+    }))
+    expect(equipment.specifications).toEqual([
+      { label: { en: 'Capacity', fr: 'Capacite' }, quantity: { value: 14000, unit: 'gal/min' } },
+      { label: { en: 'Maker', fr: 'Fabricant' }, text: { en: 'Inglis', fr: 'Inglis' } }
+    ])
+  })
+
+  it('falls back to the legacy pipe-separated specifications', () => {
+    const equipment = mapEquipmentRow(equipmentRow({
+      specifications_en: 'Speed: 175 RPM | Stroke: 18 in',
+      specifications_fr: 'Vitesse: 175 tr/min | Course: 18 po'
+    }))
+    expect(equipment.specifications).toEqual([
+      { label: { en: 'Speed', fr: 'Vitesse' }, text: { en: '175 RPM', fr: '175 tr/min' } },
+      { label: { en: 'Stroke', fr: 'Course' }, text: { en: '18 in', fr: '18 po' } }
+    ])
+  })
+
+  it('maps photos, drawings and related equipment', () => {
+    const equipment = mapEquipmentRow(equipmentRow({
+      images: [{
+        id: 'img-1',
+        type: 'photo',
+        url: 'https://example.org/pump.jpg',
+        caption_en: 'The pump in 1910',
+        caption_fr: 'La pompe en 1910',
+        year: '1910',
+        source: 'Museum'
+      }],
+      engineering_drawings: [{ id: 'dwg-1', type: 'drawing', url: 'https://example.org/pump.png' }],
+      related_equipment_ids: ['main-pump-west']
+    }))
+    expect(equipment.images).toEqual([{
+      id: 'img-1',
+      type: 'photo',
+      url: 'https://example.org/pump.jpg',
+      thumbnail_url: undefined,
+      caption: { en: 'The pump in 1910', fr: 'La pompe en 1910' },
+      year: 1910,
+      source: 'Museum',
+      archival_reference: undefined
+    }])
+    expect(equipment.engineering_drawings).toEqual([
+      expect.objectContaining({ id: 'dwg-1', type: 'drawing', caption: { en: '', fr: '' } })
+    ])
+    expect(equipment.related_equipment_ids).toEqual(['main-pump-west'])
+  })
+
+  it('leaves out empty media and related columns', () => {
+    const equipment = mapEquipmentRow(equipmentRow({ images: [], engineering_drawings: null }))
+    expect(equipment.images).toBeUndefined()
+    expect(equipment.engineering_drawings).toBeUndefined()
+    expect(equipment.related_equipment_ids).toBeUndefined()
+  })
+
+  it('names the row in its errors', () => {
+    expect(() => mapEquipmentRow(equipmentRow({ color_category: 'purple' })))
+      .toThrow('Equipment main-pump-east: unknown color_category "purple"')
+    expect(() => mapEquipmentRow(equipmentRow({ hotspot_shape: 'star' })))
+      .toThrow('Equipment main-pump-east: Unknown hotspot_shape "star"')
+    expect(() => mapEquipmentRow(equipmentRow({ specifications: [{ label_en: 'X', value: 1, unit: 'furlong' }] })))
+      .toThrow('unknown unit "furlong"')
+    expect(() => mapEquipmentRow(equipmentRow({ images: [{ id: 'img-1', type: 'video', url: '/a.mp4' }] })))
+      .toThrow('Equipment main-pump-east: images[0]: unknown type "video"')
+    expect(() => mapEquipmentRow(equipmentRow({ engineering_drawings: [{ type: 'drawing', url: '/a.png' }] })))
+      .toThrow('engineering_drawings[0]: needs an id and a url')
+    expect(() => mapEquipmentRow(equipmentRow({ related_equipment_ids: ['main-pump-west', 7] })))
+      .toThrow('related_equipment_ids[1]: expected an equipment id, got 7')
+  })
+})
+
+describe('mapGalleryPhotoRow', () => {
+  it('defaults the thumbnail, source and tags', () => {
+    expect(mapGalleryPhotoRow(galleryRow())).toMatchObject({
+      thumbnail_url: 'https://example.org/photo-1.jpg',
+      source: '',
+      tags: []
+    })
+  })
+
+  it('accepts legacy era ids and rejects unknown ones', () => {
+    expect(mapGalleryPhotoRow(galleryRow({ era: 'early' })).era).toBe('early_operation')
+    expect(() => mapGalleryPhotoRow(galleryRow({ era: 'future' }))).toThrow('unknown era "future"')
+  })
+})
+
+describe('mapQuizQuestionRow', () => {
+  it('leaves out an empty hint', () => {
+    expect(mapQuizQuestionRow(quizRow()).hint).toBeUndefined()
+    expect(mapQuizQuestionRow(quizRow({ hint_en: 'Look left', hint_fr: null })).hint)
+      .toEqual({ en: 'Look left', fr: '' })
+  })
+
+  it('rejects unknown difficulties', () => {
+    expect(() => mapQuizQuestionRow(quizRow({ difficulty: 'impossible' }))).toThrow('unknown difficulty')
+  })
+})
+
+describe('mapRows', () => {
+  it('keeps the rows that map and reports the rest by id', () => {
+    const { items, errors } = mapRows(
+      [equipmentRow({ id: 'a' }), equipmentRow({ id: 'b', color_category: 'purple' }), equipmentRow({ id: 'c' })],
+      mapEquipmentRow
+    )
+    expect(items.map(e => e.id)).toEqual(['a', 'c'])
+    expect(errors).toEqual([{ id: 'b', message: 'Equipment b: unknown color_category "purple"' }])
+  })
+})
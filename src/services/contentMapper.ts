@@ -0,0 +1,355 @@
+/**
+ * Maps flat Supabase rows (see docs/DATABASE_SCHEMA.md) into the kiosk data types
+ */
+
+import {
+  Anchor3D,
+  BilingualText,
+  Equipment,
+  GalleryPhoto,
+  Hotspot,
+  HotspotCoordinates,
+  MediaItem,
+  QuizQuestion,
+  Specification,
+  Unit,
+  Vec3Tuple
+} from '../data/types'
+
+export interface EquipmentRow {
+  id: string
+  name_en: string
+  name_fr: string
+  description_en: string
+  description_fr: string
+  function_en: string
+  function_fr: string
+  /** Structured entries; see docs/DATABASE_SCHEMA.md */
+  specifications?: unknown[] | null
+  /** Legacy "Label: value | Label: value" text, used when specifications is empty */
+  specifications_en: string | null
+  specifications_fr: string | null
+  year_installed: number | null
+  manufacturer: string | null
+  color_category: string
+  hotspot_shape: string
+  hotspot_coordinates: Record<string, unknown> | null
+  anchor_3d?: Record<string, unknown> | null
+  /** Photo and drawing entries; see docs/DATABASE_SCHEMA.md */
+  images?: unknown[] | null
+  engineering_drawings?: unknown[] | null
+  related_equipment_ids?: unknown[] | null
+  sort_order: number | null
+}
+
+export interface GalleryPhotoRow {
+  id: string
+  image_url: string
+  thumbnail_url: string | null
+  title_en: string
+  title_fr: string
+  description_en: string
+  description_fr: string
+  year: number | null
+  era: string
+  source: string | null
+  archival_reference?: string | null
+  tags?: string[] | null
+  sort_order: number | null
+}
+
+export interface QuizQuestionRow {
+  id: string
+  question_en: string
+  question_fr: string
+  correct_equipment_id: string
+  hint_en: string | null
+  hint_fr: string | null
+  explanation_en: string
+  explanation_fr: string
+  difficulty: string
+  sort_order: number | null
+}
+
+const COLOR_CATEGORIES: Equipment['color_category'][] = ['pump', 'steam', 'discharge', 'water', 'auxiliary']
+const DIFFICULTIES: QuizQuestion['difficulty'][] = ['easy', 'medium', 'hard']
+const ERAS: GalleryPhoto['era'][] = ['construction', 'early_operation', 'wwii', 'postwar', 'modern']
+const UNITS: Unit[] = ['in', 'ft', 'gal', 'gal/min', 'psi', 'hp', 'lb', 'rpm']
+const MEDIA_TYPES: MediaItem['type'][] = ['photo', 'drawing', 'diagram', 'animation']
+
+// Older rows use the short era ids from the first gallery mock-up
+const LEGACY_ERAS: Record<string, GalleryPhoto['era']> = {
+  early: 'early_operation'
+}
+
+const bilingual = (en: string | null, fr: string | null): BilingualText => ({
+  en: en ?? '',
+  fr: fr ?? ''
+})
+
+const optionalBilingual = (en: string | null, fr: string | null): BilingualText | undefined =>
+  en || fr ? bilingual(en, fr) : undefined
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(n)) {
+    throw new Error(`Expected a number, got ${JSON.stringify(value)}`)
+  }
+  return n
+}
+
+const toVec3 = (value: unknown): Vec3Tuple => {
+  if (!Array.isArray(value) || value.length !== 3) {
+    throw new Error(`Expected [x, y, z], got ${JSON.stringify(value)}`)
+  }
+  return [toNumber(value[0]), toNumber(value[1]), toNumber(value[2])]
+}
+
+export function mapHotspotCoordinates(
+  shape: string,
+  raw: Record<string, unknown> | null
+): HotspotCoordinates {
+  if (!raw) {
+    throw new Error('Missing hotspot_coordinates')
+  }
+
+  switch (shape) {
+    case 'circle':
+      return {
+        type: 'circle',
+        center_x: toNumber(raw.center_x),
+        center_y: toNumber(raw.center_y),
+        radius: toNumber(raw.radius)
+      }
+    case 'rectangle':
+      return {
+        type: 'rectangle',
+        x: toNumber(raw.x),
+        y: toNumber(raw.y),
+        width: toNumber(raw.width),
+        height: toNumber(raw.height)
+      }
+    case 'polygon': {
+      if (!Array.isArray(raw.points)) {
+        throw new Error('Polygon hotspot_coordinates must have a points array')
+      }
+      return {
+        type: 'polygon',
+        points: raw.points.map((p: { x: unknown; y: unknown }) => ({
+          x: toNumber(p.x),
+          y: toNumber(p.y)
+        }))
+      }
+    }
+    default:
+      throw new Error(`Unknown hotspot_shape "${shape}"`)
+  }
+}
+
+export function mapAnchor3D(raw: Record<string, unknown> | null | undefined): Anchor3D | undefined {
+  if (!raw) return undefined
+
+  const bounds = raw.bounds as { min?: unknown; max?: unknown } | null | undefined
+  return {
+    position: toVec3(raw.position),
+    pick_radius: raw.pick_radius == null ? undefined : toNumber(raw.pick_radius),
+    bounds: bounds ? { min: toVec3(bounds.min), max: toVec3(bounds.max) } : undefined
+  }
+}
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' ? value : null
+
+export function mapSpecifications(raw: unknown[]): Specification[] {
+  return raw.map((entry, i) => {
+    const fields = (entry ?? {}) as Record<string, unknown>
+    const label = bilingual(optionalString(fields.label_en), optionalString(fields.label_fr))
+
+    if (fields.value == null) {
+      return { label, text: bilingual(optionalString(fields.text_en), optionalString(fields.text_fr)) }
+    }
+    if (!UNITS.includes(fields.unit as Unit)) {
+      throw new Error(`specifications[${i}]: unknown unit "${String(fields.unit)}"`)
+    }
+    return { label, quantity: { value: toNumber(fields.value), unit: fields.unit as Unit } }
+  })
+}
+
+export function mapMediaItems(raw: unknown[], field: string): MediaItem[] {
+  return raw.map((entry, i) => {
+    const fields = (entry ?? {}) as Record<string, unknown>
+    const id = optionalString(fields.id)
+    const url = optionalString(fields.url)
+    if (!id || !url) {
+      throw new Error(`${field}[${i}]: needs an id and a url`)
+    }
+    if (!MEDIA_TYPES.includes(fields.type as MediaItem['type'])) {
+      throw new Error(`${field}[${i}]: unknown type "${String(fields.type)}"`)
+    }
+    return {
+      id,
+      type: fields.type as MediaItem['type'],
+      url,
+      thumbnail_url: optionalString(fields.thumbnail_url) ?? undefined,
+      caption: bilingual(optionalString(fields.caption_en), optionalString(fields.caption_fr)),
+      year: fields.year == null ? undefined : toNumber(fields.year),
+      source: optionalString(fields.source) ?? undefined,
+      archival_reference: optionalString(fields.archival_reference) ?? undefined
+    }
+  })
+}
+
+function mapEquipmentIds(raw: unknown[]): string[] {
+  return raw.map((id, i) => {
+    if (typeof id !== 'string' || !id) {
+      throw new Error(`related_equipment_ids[${i}]: expected an equipment id, got ${JSON.stringify(id)}`)
+    }
+    return id
+  })
+}
+
+/** Older rows: each "Label: value" pair becomes a text entry, matched up by position */
+function legacySpecifications(en: string | null, fr: string | null): Specification[] | undefined {
+  const split = (text: string | null) => (text ?? '').split('|').map(s => s.trim()).filter(Boolean)
+  const pair = (entry = '') => {
+    const colon = entry.indexOf(':')
+    return colon < 0
+      ? { label: '', value: entry }
+      : { label: entry.slice(0, colon).trim(), value: entry.slice(colon + 1).trim() }
+  }
+
+  const enEntries = split(en)
+  const frEntries = split(fr)
+  const count = Math.max(enEntries.length, frEntries.length)
+  if (count === 0) return undefined
+
+  return Array.from({ length: count }, (_, i) => {
+    const e = pair(enEntries[i])
+    const f = pair(frEntries[i])
+    return {
+      label: { en: e.label || f.label, fr: f.label || e.label },
+      text: { en: e.value || f.value, fr: f.value || e.value }
+    }
+  })
+}
+
+/**
+ * Inverse of mapHotspotCoordinates: the shape goes in `hotspot_shape`,
+ * the remaining fields in `hotspot_coordinates`
+ */
+export function hotspotRowFields(
+  coordinates: HotspotCoordinates
+): Pick<EquipmentRow, 'hotspot_shape' | 'hotspot_coordinates'> {
+  const { type, ...fields } = coordinates
+  return { hotspot_shape: type, hotspot_coordinates: fields }
+}
+
+export function mapEquipmentRow(row: EquipmentRow): Equipment {
+  if (!COLOR_CATEGORIES.includes(row.color_category as Equipment['color_category'])) {
+    throw new Error(`Equipment ${row.id}: unknown color_category "${row.color_category}"`)
+  }
+
+  let coordinates: HotspotCoordinates
+  let anchor: Anchor3D | undefined
+  let specifications: Specification[] | undefined
+  let images: MediaItem[] | undefined
+  let drawings: MediaItem[] | undefined
+  let related: string[] | undefined
+  try {
+    coordinates = mapHotspotCoordinates(row.hotspot_shape, row.hotspot_coordinates)
+    anchor = mapAnchor3D(row.anchor_3d)
+    specifications = row.specifications?.length
+      ? mapSpecifications(row.specifications)
+      : legacySpecifications(row.specifications_en, row.specifications_fr)
+    images = row.images?.length ? mapMediaItems(row.images, 'images') : undefined
+    drawings = row.engineering_drawings?.length
+      ? mapMediaItems(row.engineering_drawings, 'engineering_drawings')
+      : undefined
+    related = row.related_equipment_ids?.length ? mapEquipmentIds(row.related_equipment_ids) : undefined
+  } catch (err) {
+    throw new Error(`Equipment ${row.id}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+
+  const hotspot: Hotspot = {
+    id: `hs-${row.id}`,
+    shape: coordinates.type,
+    coordinates,
+    pulse_animation: true
+  }
+
+  return {
+    id: row.id,
+    name: bilingual(row.name_en, row.name_fr),
+    description: bilingual(row.description_en, row.description_fr),
+    function: bilingual(row.function_en, row.function_fr),
+    specifications,
+    year_installed: row.year_installed ?? undefined,
+    manufacturer: row.manufacturer ?? undefined,
+    color_category: row.color_category as Equipment['color_category'],
+    hotspot,
+    images,
+    engineering_drawings: drawings,
+    related_equipment_ids: related,
+    anchor_3d: anchor
+  }
+}
+
+export function mapGalleryPhotoRow(row: GalleryPhotoRow): GalleryPhoto {
+  const era = LEGACY_ERAS[row.era] ?? row.era
+  if (!ERAS.includes(era as GalleryPhoto['era'])) {
+    throw new Error(`Gallery photo ${row.id}: unknown era "${row.era}"`)
+  }
+
+  return {
+    id: row.id,
+    image_url: row.image_url,
+    thumbnail_url: row.thumbnail_url ?? row.image_url,
+    title: bilingual(row.title_en, row.title_fr),
+    description: bilingual(row.description_en, row.description_fr),
+    year: row.year ?? undefined,
+    era: era as GalleryPhoto['era'],
+    source: row.source ?? '',
+    archival_reference: row.archival_reference ?? undefined,
+    tags: row.tags ?? []
+  }
+}
+
+export function mapQuizQuestionRow(row: QuizQuestionRow): QuizQuestion {
+  if (!DIFFICULTIES.includes(row.difficulty as QuizQuestion['difficulty'])) {
+    throw new Error(`Quiz question ${row.id}: unknown difficulty "${row.difficulty}"`)
+  }
+
+  return {
+    id: row.id,
+    question: bilingual(row.question_en, row.question_fr),
+    correct_equipment_id: row.correct_equipment_id,
+    hint: optionalBilingual(row.hint_en, row.hint_fr),
+    explanation: bilingual(row.explanation_en, row.explanation_fr),
+    difficulty: row.difficulty as QuizQuestion['difficulty']
+  }
+}
+
+export interface RowError {
+  id: string
+  message: string
+}
+
+/**
+ * Maps each row on its own, so one malformed row is left out (and
+ * reported) instead of failing the whole table
+ */
+export function mapRows<Row extends { id: string }, T>(
+  rows: Row[],
+  map: (row: Row) => T
+): { items: T[]; errors: RowError[] } {
+  const items: T[] = []
+  const errors: RowError[] = []
+  for (const row of rows) {
+    try {
+      items.push(map(row))
+    } catch (err) {
+      errors.push({ id: row.id, message: err instanceof Error ? err.message : String(err) })
+    }
+  }
+  return { items, errors }
+}
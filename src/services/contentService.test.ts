@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { fetchKioskContent, saveEquipmentHotspot } from './contentService'
+
+interface QueryResult {
+  data: unknown
+  error: { message: string } | null
+}
+
+/** Just enough of the query builder for these tests: every call chains, awaiting returns the table's result */
+function fakeClient(resultFor: (table: string) => QueryResult): SupabaseClient {
+  return {
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        update: () => query,
+        order: () => query,
+        eq: () => query,
+        limit: () => query,
+        then: (resolve: (result: QueryResult) => unknown) => Promise.resolve(resultFor(table)).then(resolve)
+      }
+      return query
+    }
+  } as unknown as SupabaseClient
+}
+
+const tables = (rows: Record<string, unknown[]>) => (table: string) => ({ data: rows[table] ?? [], error: null })
+
+const equipmentRow = (id: string, color_category = 'pump') => ({
+  id,
+  name_en: id,
+  name_fr: id,
+  description_en: 'Description',
+  description_fr: 'Description',
+  function_en: 'Function',
+  function_fr: 'Fonction',
+  specifications: null,
+  specifications_en: null,
+  specifications_fr: null,
+  year_installed: null,
+  manufacturer: null,
+  color_category,
+  hotspot_shape: 'rectangle',
+  hotspot_coordinates: { x: 10, y: 10, width: 10, height: 10 },
+  sort_order: 1
+})
+
+describe('fetchKioskContent', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('leaves out a malformed row and keeps the rest', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const content = await fetchKioskContent(fakeClient(tables({
+      kiosk_scenes: [{ master_image_url: 'https://example.org/master.jpg' }],
+      kiosk_equipment: [equipmentRow('a'), equipmentRow('b', 'purple'), equipmentRow('c')]
+    })), { projectId: undefined })
+
+    expect(content.master_image_url).toBe('https://example.org/master.jpg')
+    expect(content.equipment.map(e => e.id)).toEqual(['a', 'c'])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('skipping kiosk_equipment row b'))
+  })
+
+  it('still fails when a table cannot be loaded', async () => {
+    const client = fakeClient(() => ({ data: null, error: { message: 'permission denied' } }))
+
+    await expect(fetchKioskContent(client, { projectId: undefined }))
+      .rejects.toThrow('Failed to load kiosk_scenes: permission denied')
+  })
+})
+
+describe('saveEquipmentHotspot', () => {
+  const coordinates = { type: 'circle', center_x: 50, center_y: 50, radius: 5 } as const
+
+  it('resolves when the row is updated', async () => {
+    const client = fakeClient(() => ({ data: [{ id: 'a' }], error: null }))
+    await expect(saveEquipmentHotspot(client, 'a', coordinates)).resolves.toBeUndefined()
+  })
+
+  it('fails when no row is updated', async () => {
+    const client = fakeClient(() => ({ data: [], error: null }))
+    await expect(saveEquipmentHotspot(client, 'a', coordinates)).rejects.toThrow('no row was updated')
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Content repository
+ * Serves kiosk content from the active offline snapshot, falling back to the bundled seed
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Equipment, HotspotCoordinates, KioskContent } from '../data/types'
+import { seedContent } from '../data/seed'
+import {
+  EquipmentRow,
+  GalleryPhotoRow,
+  QuizQuestionRow,
+  hotspotRowFields,
+  mapEquipmentRow,
+  mapGalleryPhotoRow,
+  mapQuizQuestionRow,
+  mapRows
+} from './contentMapper'
+
+export type ContentSource = 'seed' | 'snapshot'
+
+interface FetchOptions {
+  /** Restrict to one kiosk_projects row (defaults to VITE_KIOSK_PROJECT_ID) */
+  projectId?: string
+}
+
+/**
+ * Loads and maps all content tables.
+ * Accepts any client so it can run against a local Supabase stand-in.
+ * Rows that fail to map are logged and left out; the rest still sync.
+ */
+export async function fetchKioskContent(
+  client: SupabaseClient,
+  { projectId = import.meta.env.VITE_KIOSK_PROJECT_ID }: FetchOptions = {}
+): Promise<KioskContent> {
+  let equipmentQuery = client
+    .from('kiosk_equipment')
+    .select(projectId ? '*, kiosk_scenes!inner(project_id)' : '*')
+    .order('sort_order', { ascending: true })
+  let galleryQuery = client
+    .from('kiosk_gallery_photos')
+    .select('*')
+    .order('sort_order', { ascending: true })
+  let quizQuery = client
+    .from('kiosk_quiz_questions')
+    .select('*')
+    .order('sort_order', { ascending: true })
+  let sceneQuery = client
+    .from('kiosk_scenes')
+    .select('master_image_url')
+    .eq('scene_type', 'home')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .limit(1)
+
+  if (projectId) {
+    equipmentQuery = equipmentQuery.eq('kiosk_scenes.project_id', projectId)
+    galleryQuery = galleryQuery.eq('project_id', projectId)
+    quizQuery = quizQuery.eq('project_id', projectId)
+    sceneQuery = sceneQuery.eq('project_id', projectId)
+  }
+
+  const [equipmentResult, galleryResult, quizResult, sceneResult] = await Promise.all([
+    equipmentQuery,
+    galleryQuery,
+    quizQuery,
+    sceneQuery
+  ])
+
+  for (const [table, result] of [
+    ['kiosk_scenes', sceneResult],
+    ['kiosk_equipment', equipmentResult],
+    ['kiosk_gallery_photos', galleryResult],
+    ['kiosk_quiz_questions', quizResult]
+  ] as const) {
+    if (result.error) {
+      throw new Error(`Failed to load ${table}: ${result.error.message}`)
+    }
+  }
+
+  const mapTable = <Row extends { id: string }, T>(table: string, rows: Row[], map: (row: Row) => T): T[] => {
+    const { items, errors } = mapRows(rows, map)
+    for (const error of errors) {
+      console.warn(`ContentService: skipping ${table} row ${error.id}: ${error.message}`)
+    }
+    return items
+  }
+
+  return {
+    master_image_url: sceneResult.data?.[0]?.master_image_url || seedContent.master_image_url,
+    equipment: mapTable('kiosk_equipment', equipmentResult.data as unknown as EquipmentRow[], mapEquipmentRow),
+    gallery: mapTable('kiosk_gallery_photos', galleryResult.data as unknown as GalleryPhotoRow[], mapGalleryPhotoRow),
+    quiz: mapTable('kiosk_quiz_questions', quizResult.data as unknown as QuizQuestionRow[], mapQuizQuestionRow)
+  }
+}
+
+/**
+ * Writes one equipment hotspot back to kiosk_equipment.
+ * Fails unless row level security lets the client's role update kiosk_equipment
+ * (see docs/DATABASE_SCHEMA.md). A denied update changes no rows rather than
+ * returning an error, so an empty result is treated as a failure too.
+ */
+export async function saveEquipmentHotspot(
+  client: SupabaseClient,
+  equipmentId: string,
+  coordinates: HotspotCoordinates
+): Promise<void> {
+  const { data, error } = await client
+    .from('kiosk_equipment')
+    .update(hotspotRowFields(coordinates))
+    .eq('id', equipmentId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to save hotspot for ${equipmentId}: ${error.message}`)
+  }
+  if (!data?.length) {
+    throw new Error(`Failed to save hotspot for ${equipmentId}: no row was updated (missing row or no update permission)`)
+  }
+}
+
+// ============================================
+// In-memory repository
+// ============================================
+
+let current: KioskContent = seedContent
+let source: ContentSource = 'seed'
+const listeners = new Set<() => void>()
+
+export function getContent(): KioskContent {
+  return current
+}
+
+export function getContentSource(): ContentSource {
+  return source
+}
+
+export function setContent(content: KioskContent, from: ContentSource) {
+  current = content
+  source = from
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeContent(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getEquipmentById = (id: string): Equipment | undefined => {
+  return current.equipment.find(e => e.id === id)
+}
+
+export const getEquipmentByCategory = (category: Equipment['color_category']): Equipment[] => {
+  return current.equipment.filter(e => e.color_category === category)
+}
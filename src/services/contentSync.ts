@@ -0,0 +1,312 @@
+/**
+ * Offline-first content sync
+ *
+ * Pulls published content into a versioned IndexedDB snapshot and only
+ * switches the UI to a new version once every referenced media file is in
+ * the media cache. A failed or partial sync leaves the previous snapshot live.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { KioskContent } from '../data/types'
+import { seedContent } from '../data/seed'
+import { getSupabaseClient } from './supabase'
+import { fetchKioskContent, setContent } from './contentService'
+import {
+  META_STORE,
+  SNAPSHOT_STORE,
+  openKioskDb,
+  requestResult,
+  transactionComplete
+} from './kioskDb'
+
+/** Cache Storage bucket for snapshot media; the service worker serves images from it */
+export const MEDIA_CACHE = 'kiosk-media'
+
+const ACTIVE_KEY = 'active_snapshot'
+const LAST_SYNC_KEY = 'last_sync'
+const MEDIA_CONCURRENCY = 4
+const DEFAULT_SYNC_INTERVAL_MS = 15 * 60 * 1000
+
+export interface ContentSnapshot {
+  version: string
+  project_id: string | null
+  content: KioskContent
+  media_urls: string[]
+  synced_at: number
+}
+
+export interface SyncResult {
+  status: 'updated' | 'current' | 'offline' | 'unpublished' | 'unconfigured' | 'failed'
+  version: string | null
+  at: number
+  error?: string
+}
+
+export interface SyncOptions {
+  /** Refetch the tables, download any media missing from the cache and re-activate, even when the version is already active */
+  force?: boolean
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Every media URL the content references, resolved to absolute URLs */
+export function collectMediaUrls(content: KioskContent): string[] {
+  const urls = new Set<string>()
+  const add = (url?: string) => {
+    if (!url || url.startsWith('data:') || url.startsWith('blob:')) return
+    urls.add(new URL(url, window.location.href).href)
+  }
+
+  // The seed master image ships in /public and is precached with the app
+  if (content.master_image_url !== seedContent.master_image_url) {
+    add(content.master_image_url)
+  }
+  for (const item of content.equipment) {
+    for (const media of [...(item.images ?? []), ...(item.engineering_drawings ?? [])]) {
+      add(media.url)
+      add(media.thumbnail_url)
+    }
+  }
+  for (const photo of content.gallery) {
+    add(photo.image_url)
+    add(photo.thumbnail_url)
+  }
+
+  return [...urls]
+}
+
+// cyrb53 - stable version id when no project row is available
+function hashContent(content: KioskContent): string {
+  const str = JSON.stringify(content)
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return `hash-${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}`
+}
+
+async function fetchPublishedVersion(
+  client: SupabaseClient,
+  projectId: string
+): Promise<string | null> {
+  const { data, error } = await client
+    .from('kiosk_projects')
+    .select('updated_at, is_published')
+    .eq('id', projectId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to load kiosk_projects: ${error.message}`)
+  }
+  return data.is_published ? String(data.updated_at) : null
+}
+
+/** Downloads anything not already cached; throws if any file is missing */
+async function cacheMedia(urls: string[]): Promise<void> {
+  const cache = await caches.open(MEDIA_CACHE)
+  const queue = [...urls]
+  const failures: string[] = []
+
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      if (await cache.match(url)) continue
+      try {
+        const response = await fetch(url)
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        await cache.put(url, response)
+      } catch (err) {
+        failures.push(`${url} (${err instanceof Error ? err.message : String(err)})`)
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: MEDIA_CONCURRENCY }, worker))
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} media file(s) failed to download: ${failures.join(', ')}`)
+  }
+}
+
+// ============================================
+// Snapshot storage
+// ============================================
+
+export async function getActiveSnapshot(): Promise<ContentSnapshot | null> {
+  const db = await openKioskDb()
+  const tx = db.transaction([META_STORE, SNAPSHOT_STORE], 'readonly')
+  const version = await requestResult<string | undefined>(tx.objectStore(META_STORE).get(ACTIVE_KEY))
+  if (!version) return null
+  const snapshot = await requestResult<ContentSnapshot | undefined>(
+    tx.objectStore(SNAPSHOT_STORE).get(version)
+  )
+  return snapshot ?? null
+}
+
+export async function getLastSyncResult(): Promise<SyncResult | null> {
+  const db = await openKioskDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  const result = await requestResult<SyncResult | undefined>(tx.objectStore(META_STORE).get(LAST_SYNC_KEY))
+  return result ?? null
+}
+
+/** Writes the snapshot and the active pointer in one transaction */
+async function activateSnapshot(snapshot: ContentSnapshot): Promise<void> {
+  const db = await openKioskDb()
+  const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite')
+  tx.objectStore(SNAPSHOT_STORE).put(snapshot)
+  tx.objectStore(META_STORE).put(snapshot.version, ACTIVE_KEY)
+  await transactionComplete(tx)
+}
+
+async function recordSyncResult(result: SyncResult): Promise<SyncResult> {
+  try {
+    const db = await openKioskDb()
+    const tx = db.transaction(META_STORE, 'readwrite')
+    tx.objectStore(META_STORE).put(result, LAST_SYNC_KEY)
+    await transactionComplete(tx)
+  } catch (err) {
+    console.warn('ContentSync: could not record sync result:', err)
+  }
+  return result
+}
+
+/**
+ * Keeps the active snapshot plus the one before it (for rollback)
+ * and drops cached media that neither references.
+ */
+async function pruneSnapshots(activeVersion: string): Promise<void> {
+  const db = await openKioskDb()
+  const tx = db.transaction(SNAPSHOT_STORE, 'readwrite')
+  const store = tx.objectStore(SNAPSHOT_STORE)
+  const snapshots = await requestResult<ContentSnapshot[]>(store.getAll())
+
+  const previous = snapshots
+    .filter(s => s.version !== activeVersion)
+    .sort((a, b) => b.synced_at - a.synced_at)[0]
+  const kept = snapshots.filter(s => s.version === activeVersion || s === previous)
+  const keptVersions = new Set(kept.map(s => s.version))
+
+  for (const snapshot of snapshots) {
+    if (!keptVersions.has(snapshot.version)) {
+      store.delete(snapshot.version)
+    }
+  }
+  await transactionComplete(tx)
+
+  const keptUrls = new Set(kept.flatMap(s => s.media_urls))
+  const cache = await caches.open(MEDIA_CACHE)
+  for (const request of await cache.keys()) {
+    if (!keptUrls.has(request.url)) {
+      await cache.delete(request)
+    }
+  }
+}
+
+// ============================================
+// Sync
+// ============================================
+
+/** Serves the last activated snapshot, if any. Returns its version. */
+export async function restoreSnapshot(): Promise<string | null> {
+  try {
+    const snapshot = await getActiveSnapshot()
+    if (!snapshot) return null
+    setContent(snapshot.content, 'snapshot')
+    return snapshot.version
+  } catch (err) {
+    console.warn('ContentSync: could not restore snapshot, using seed content:', err)
+    return null
+  }
+}
+
+let inFlight: Promise<SyncResult> | null = null
+
+export function syncContent(
+  client: SupabaseClient | null = getSupabaseClient(),
+  { force = false }: SyncOptions = {}
+): Promise<SyncResult> {
+  if (inFlight && !force) return inFlight
+  // A forced sync queues behind a running one instead of racing it
+  const sync: Promise<SyncResult> = (inFlight ?? Promise.resolve())
+    .then(() => runSync(client, force))
+    .finally(() => {
+      if (inFlight === sync) inFlight = null
+    })
+  inFlight = sync
+  return sync
+}
+
+async function runSync(client: SupabaseClient | null, force: boolean): Promise<SyncResult> {
+  const result = (status: SyncResult['status'], version: string | null, error?: string) =>
+    recordSyncResult({ status, version, at: Date.now(), error })
+
+  if (!client) return result('unconfigured', null)
+  if (!navigator.onLine) return result('offline', null)
+
+  const projectId = import.meta.env.VITE_KIOSK_PROJECT_ID ?? null
+
+  try {
+    const active = await getActiveSnapshot()
+
+    let version = projectId ? await fetchPublishedVersion(client, projectId) : null
+    if (projectId && !version) return result('unpublished', active?.version ?? null)
+    if (!force && version && version === active?.version) return result('current', version)
+
+    const content = await fetchKioskContent(client, { projectId: projectId ?? undefined })
+    if (content.equipment.length === 0) {
+      throw new Error('Supabase returned no equipment')
+    }
+
+    version = version ?? hashContent(content)
+    if (!force && version === active?.version) return result('current', version)
+
+    const mediaUrls = collectMediaUrls(content)
+    await cacheMedia(mediaUrls)
+
+    await activateSnapshot({
+      version,
+      project_id: projectId,
+      content,
+      media_urls: mediaUrls,
+      synced_at: Date.now()
+    })
+    setContent(content, 'snapshot')
+
+    await pruneSnapshots(version).catch(err => {
+      console.warn('ContentSync: pruning failed:', err)
+    })
+
+    return result('updated', version)
+  } catch (err) {
+    console.warn('ContentSync: sync failed, keeping current content:', err)
+    return result('failed', null, err instanceof Error ? err.message : String(err))
+  }
+}
+
+/**
+ * Restores the local snapshot, then syncs now, on an interval and whenever
+ * the network comes back. Returns a stop function.
+ */
+export function startContentSync(intervalMs = DEFAULT_SYNC_INTERVAL_MS): () => void {
+  const sync = () => {
+    syncContent()
+  }
+
+  restoreSnapshot().then(sync)
+  const timer = window.setInterval(sync, intervalMs)
+  window.addEventListener('online', sync)
+
+  return () => {
+    window.clearInterval(timer)
+    window.removeEventListener('online', sync)
+  }
+}
@@ -0,0 +1,222 @@
+import { existsSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { Equipment, HotspotCoordinates, KioskContent, QuizQuestion } from '../data/types'
+import { seedContent } from '../data/seed'
+import { viewpoints } from '../data/viewpoints'
+import { animationSteps } from '../data/animation'
+import { cutawaySections } from '../data/cutaway'
+import { ValidationIssue, contentFromExport, formatReport, validateContent } from './contentValidator'
+
+const text = (en: string, fr = `${en} (fr)`) => ({ en, fr })
+
+const rectangle = (x: number, y: number, width = 10, height = 10): HotspotCoordinates =>
+  ({ type: 'rectangle', x, y, width, height })
+
+function makeEquipment(id: string, coordinates: HotspotCoordinates, overrides: Partial<Equipment> = {}): Equipment {
+  return {
+    id,
+    name: text(id),
+    description: text(`${id} description`),
+    function: text(`${id} function`),
+    color_category: 'pump',
+    hotspot: { id: `hs-${id}`, shape: coordinates.type, coordinates },
+    ...overrides
+  }
+}
+
+function makeQuestion(id: string, correct_equipment_id: string): QuizQuestion {
+  return {
+    id,
+    question: text('Which one?'),
+    correct_equipment_id,
+    explanation: text('That one.'),
+    difficulty: 'easy'
+  }
+}
+
+function makeContent(overrides: Partial<KioskContent> = {}): KioskContent {
+  return {
+    master_image_url: '/images/master.jpg',
+    equipment: [makeEquipment('a', rectangle(10, 10)), makeEquipment('b', rectangle(50, 50))],
+    gallery: [],
+    quiz: [makeQuestion('q1', 'a')],
+    ...overrides
+  }
+}
+
+const issuesOf = (content: KioskContent, check: ValidationIssue['check']) =>
+  validateContent(content).issues.filter(i => i.check === check)
+
+describe('validateContent', () => {
+  it('accepts consistent content', () => {
+    const result = validateContent(makeContent(), {}, { assetExists: () => true })
+    expect(result.issues).toEqual([])
+    expect(formatReport(result)).toContain('Content is valid.')
+  })
+
+  it('passes the bundled seed', () => {
+    const result = validateContent(
+      seedContent,
+      { viewpoints, animationSteps, cutawaySections },
+      { assetExists: path => existsSync(new URL(`../../public${path}`, import.meta.url)) }
+    )
+    expect(formatReport(result)).toContain('Content is valid.')
+  })
+
+  describe('references', () => {
+    it('reports related equipment that does not exist', () => {
+      const content = makeContent({
+        equipment: [
+          makeEquipment('a', rectangle(10, 10), { related_equipment_ids: ['missing'] }),
+          makeEquipment('b', rectangle(50, 50))
+        ]
+      })
+      expect(issuesOf(content, 'references')).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'equipment[a].related_equipment_ids' })
+      ])
+    })
+
+    it('warns about one-way related equipment links', () => {
+      const content = makeContent({
+        equipment: [
+          makeEquipment('a', rectangle(10, 10), { related_equipment_ids: ['b'] }),
+          makeEquipment('b', rectangle(50, 50))
+        ]
+      })
+      expect(issuesOf(content, 'references')).toEqual([
+        expect.objectContaining({ severity: 'warning', message: expect.stringContaining('"b" does not list') })
+      ])
+    })
+
+    it('reports a quiz answer that does not exist', () => {
+      const content = makeContent({ quiz: [makeQuestion('q1', 'gone')] })
+      expect(issuesOf(content, 'references')).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'quiz[q1].correct_equipment_id' })
+      ])
+    })
+
+    it('reports duplicate ids', () => {
+      const content = makeContent({
+        equipment: [makeEquipment('a', rectangle(10, 10)), makeEquipment('a', rectangle(50, 50))]
+      })
+      expect(issuesOf(content, 'references').map(i => i.path)).toContain('equipment[a]')
+    })
+  })
+
+  describe('bilingual text', () => {
+    it('reports empty French text', () => {
+      const content = makeContent({
+        equipment: [
+          makeEquipment('a', rectangle(10, 10), { description: { en: 'A pump', fr: ' ' } }),
+          makeEquipment('b', rectangle(50, 50))
+        ]
+      })
+      expect(issuesOf(content, 'bilingual')).toEqual([
+        expect.objectContaining({ path: 'equipment[a].description.fr', message: 'is empty' })
+      ])
+    })
+  })
+
+  describe('hotspots', () => {
+    it('reports a polygon point outside 0-100', () => {
+      const content = makeContent({
+        equipment: [
+          makeEquipment('a', { type: 'polygon', points: [{ x: 10, y: 10 }, { x: 104, y: 10 }, { x: 10, y: 20 }] }),
+          makeEquipment('b', rectangle(50, 50))
+        ]
+      })
+      expect(issuesOf(content, 'hotspots')).toEqual([
+        expect.objectContaining({ path: 'equipment[a].hotspot', message: expect.stringContaining('point 1') })
+      ])
+    })
+
+    it('reports polygon edges that cross', () => {
+      // A bow tie: edges 0 and 2 cross in the middle
+      const bowTie: HotspotCoordinates = {
+        type: 'polygon',
+        points: [{ x: 10, y: 10 }, { x: 20, y: 20 }, { x: 20, y: 10 }, { x: 10, y: 20 }]
+      }
+      const content = makeContent({
+        equipment: [makeEquipment('a', bowTie), makeEquipment('b', rectangle(50, 50))]
+      })
+      expect(issuesOf(content, 'hotspots').map(i => i.message)).toContain('edges 0 and 2 cross')
+    })
+
+    it('reports overlapping hotspots', () => {
+      const content = makeContent({
+        equipment: [makeEquipment('a', rectangle(10, 10)), makeEquipment('b', rectangle(15, 15))]
+      })
+      expect(issuesOf(content, 'hotspots')).toEqual([
+        expect.objectContaining({ path: 'equipment[a].hotspot', message: expect.stringContaining('overlaps equipment "b"') })
+      ])
+    })
+
+    it('ignores hotspots that only share an edge', () => {
+      const content = makeContent({
+        equipment: [makeEquipment('a', rectangle(10, 10)), makeEquipment('b', rectangle(20, 10))]
+      })
+      expect(issuesOf(content, 'hotspots')).toEqual([])
+    })
+  })
+
+  describe('media', () => {
+    it('reports local files missing from the asset folder and skips remote ones', () => {
+      const content = makeContent({
+        gallery: [{
+          id: 'p1',
+          image_url: 'https://example.org/p1.jpg',
+          thumbnail_url: '/images/thumbs/p1.jpg',
+          title: text('Photo'),
+          description: text('A photo'),
+          era: 'modern',
+          source: 'Museum',
+          tags: []
+        }]
+      })
+      const result = validateContent(content, {}, { assetExists: path => path === '/images/master.jpg' })
+      expect(result.issues).toEqual([
+        expect.objectContaining({ check: 'media', path: 'gallery[p1].thumbnail_url' })
+      ])
+      expect(result.skipped_urls).toBe(1)
+    })
+
+    it('skips media checks without an assetExists callback', () => {
+      expect(validateContent(makeContent()).issues).toEqual([])
+    })
+  })
+})
+
+describe('contentFromExport', () => {
+  it('keeps good rows and reports the ones that fail to map', () => {
+    const { content, issues } = contentFromExport({
+      kiosk_quiz_questions: [
+        {
+          id: 'q1',
+          question_en: 'Which?',
+          question_fr: 'Laquelle?',
+          correct_equipment_id: 'a',
+          hint_en: null,
+          hint_fr: null,
+          explanation_en: 'This.',
+          explanation_fr: 'Celle-ci.',
+          difficulty: 'easy',
+          sort_order: 1
+        },
+        {
+          id: 'q2',
+          question_en: 'Which?',
+          question_fr: 'Laquelle?',
+          correct_equipment_id: 'a',
+          hint_en: null,
+          hint_fr: null,
+          explanation_en: 'This.',
+          explanation_fr: 'Celle-ci.',
+          difficulty: 'impossible',
+          sort_order: 2
+        }
+      ]
+    })
+    expect(content.quiz.map(q => q.id)).toEqual(['q1'])
+    expect(issues).toEqual([expect.objectContaining({ check: 'export', path: 'kiosk_quiz_questions[q2]' })])
+  })
+})
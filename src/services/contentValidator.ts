@@ -0,0 +1,462 @@
+/**
+ * Content validation
+ * Checks kiosk content (the static seed, a snapshot, or a Supabase export)
+ * for broken references, missing translations, bad or overlapping hotspots
+ * and missing local media. Pure functions: the caller supplies the
+ * content and how to tell whether a local asset exists.
+ */
+
+import {
+  AnimationStep,
+  CameraViewpoint,
+  CutawaySection,
+  Equipment,
+  HotspotCoordinates,
+  KioskContent
+} from '../data/types'
+import {
+  EquipmentRow,
+  GalleryPhotoRow,
+  QuizQuestionRow,
+  mapEquipmentRow,
+  mapGalleryPhotoRow,
+  mapQuizQuestionRow,
+  mapRows
+} from './contentMapper'
+
+export type ValidationCheck = 'export' | 'references' | 'bilingual' | 'hotspots' | 'media'
+
+export interface ValidationIssue {
+  check: ValidationCheck
+  severity: 'error' | 'warning'
+  /** Where in the content, e.g. "equipment[main-pump-east].description.fr" */
+  path: string
+  message: string
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[]
+  errors: number
+  warnings: number
+  /** Remote media URLs, which are not checked */
+  skipped_urls: number
+}
+
+/** Bundled data that refers to equipment but is not part of KioskContent */
+export interface ContentExtras {
+  viewpoints?: CameraViewpoint[]
+  animationSteps?: AnimationStep[]
+  cutawaySections?: CutawaySection[]
+}
+
+export interface ValidationOptions {
+  /** Whether a root-relative URL such as /images/a.jpg exists locally; omit to skip media checks */
+  assetExists?: (path: string) => boolean
+}
+
+/** Supabase table dump: { kiosk_equipment: [...], kiosk_gallery_photos: [...], ... } */
+export interface ContentExport {
+  master_image_url?: string
+  kiosk_equipment?: EquipmentRow[]
+  kiosk_gallery_photos?: GalleryPhotoRow[]
+  kiosk_quiz_questions?: QuizQuestionRow[]
+}
+
+type Point = { x: number; y: number }
+
+// Hotspot overlap is measured on a grid this fine, in percent of the image
+const OVERLAP_STEP = 0.2
+// Shared edges and rounding are not overlaps; a 1% x 1% patch is an ambiguous tap
+const OVERLAP_MIN_AREA = 1
+
+const CIRCLE_SEGMENTS = 32
+
+// ============================================
+// Exports
+// ============================================
+
+/**
+ * Maps a Supabase export into content, collecting rows that fail to map
+ * as issues instead of stopping at the first
+ */
+export function contentFromExport(dump: ContentExport): { content: KioskContent; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = []
+  const mapTable = <Row extends { id: string }, T>(table: string, rows: Row[] | undefined, map: (row: Row) => T): T[] => {
+    const { items, errors } = mapRows(rows ?? [], map)
+    for (const error of errors) {
+      issues.push({ check: 'export', severity: 'error', path: `${table}[${error.id}]`, message: error.message })
+    }
+    return items
+  }
+
+  return {
+    content: {
+      master_image_url: dump.master_image_url ?? '',
+      equipment: mapTable('kiosk_equipment', dump.kiosk_equipment, mapEquipmentRow),
+      gallery: mapTable('kiosk_gallery_photos', dump.kiosk_gallery_photos, mapGalleryPhotoRow),
+      quiz: mapTable('kiosk_quiz_questions', dump.kiosk_quiz_questions, mapQuizQuestionRow)
+    },
+    issues
+  }
+}
+
+// ============================================
+// References
+// ============================================
+
+function duplicateIds(items: Array<{ id: string }>): string[] {
+  const seen = new Set<string>()
+  const duplicates = new Set<string>()
+  for (const { id } of items) {
+    if (seen.has(id)) duplicates.add(id)
+    seen.add(id)
+  }
+  return [...duplicates]
+}
+
+function checkReferences(content: KioskContent, extras: ContentExtras): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const error = (path: string, message: string) =>
+    issues.push({ check: 'references', severity: 'error', path, message })
+  const ids = new Set(content.equipment.map(e => e.id))
+  const missing = (path: string, id: string) => {
+    if (!ids.has(id)) error(path, `refers to equipment "${id}", which does not exist`)
+  }
+
+  const collections: Array<[string, Array<{ id: string }>]> = [
+    ['equipment', content.equipment],
+    ['hotspots', content.equipment.map(e => e.hotspot)],
+    ['gallery', content.gallery],
+    ['quiz', content.quiz],
+    ['viewpoints', extras.viewpoints ?? []],
+    ['animation', extras.animationSteps ?? []],
+    ['cutaway', extras.cutawaySections ?? []]
+  ]
+  for (const [name, items] of collections) {
+    for (const id of duplicateIds(items)) error(`${name}[${id}]`, 'id is used more than once')
+  }
+
+  for (const item of content.equipment) {
+    for (const related of item.related_equipment_ids ?? []) {
+      const path = `equipment[${item.id}].related_equipment_ids`
+      if (related === item.id) {
+        error(path, 'lists the equipment as related to itself')
+        continue
+      }
+      missing(path, related)
+      const other = content.equipment.find(e => e.id === related)
+      if (other && !(other.related_equipment_ids ?? []).includes(item.id)) {
+        issues.push({
+          check: 'references',
+          severity: 'warning',
+          path,
+          message: `"${related}" does not list this equipment back`
+        })
+      }
+    }
+  }
+
+  for (const question of content.quiz) {
+    missing(`quiz[${question.id}].correct_equipment_id`, question.correct_equipment_id)
+  }
+  for (const viewpoint of extras.viewpoints ?? []) {
+    if (viewpoint.equipment_id) missing(`viewpoints[${viewpoint.id}].equipment_id`, viewpoint.equipment_id)
+  }
+  for (const step of extras.animationSteps ?? []) {
+    for (const id of step.highlighted_equipment_ids) missing(`animation[${step.id}].highlighted_equipment_ids`, id)
+  }
+  for (const section of extras.cutawaySections ?? []) {
+    for (const id of section.equipment_ids) missing(`cutaway[${section.id}].equipment_ids`, id)
+  }
+
+  return issues
+}
+
+// ============================================
+// Bilingual text
+// ============================================
+
+const isBilingual = (value: unknown): value is { en: unknown; fr: unknown } =>
+  typeof value === 'object' && value !== null && 'en' in value && 'fr' in value
+
+/** Every BilingualText anywhere in the value, found by shape */
+function checkBilingual(value: unknown, path: string, issues: ValidationIssue[]) {
+  if (isBilingual(value)) {
+    for (const language of ['en', 'fr'] as const) {
+      const text = value[language]
+      if (typeof text !== 'string' || text.trim() === '') {
+        issues.push({ check: 'bilingual', severity: 'error', path: `${path}.${language}`, message: 'is empty' })
+      }
+    }
+    return
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      const id = typeof item === 'object' && item !== null && 'id' in item ? String(item.id) : String(i)
+      checkBilingual(item, `${path}[${id}]`, issues)
+    })
+    return
+  }
+  if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      checkBilingual(child, path ? `${path}.${key}` : key, issues)
+    }
+  }
+}
+
+// ============================================
+// Hotspots
+// ============================================
+
+const inRange = (v: number) => Number.isFinite(v) && v >= 0 && v <= 100
+
+/** Whether segments ab and cd cross at a point inside both (touching does not count) */
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const side = (p: Point, q: Point, r: Point) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x))
+  const d1 = side(c, d, a)
+  const d2 = side(c, d, b)
+  const d3 = side(a, b, c)
+  const d4 = side(a, b, d)
+  return d1 * d2 < 0 && d3 * d4 < 0
+}
+
+function polygonArea(points: Point[]): number {
+  let sum = 0
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length]
+    sum += p.x * q.y - q.x * p.y
+  })
+  return Math.abs(sum) / 2
+}
+
+function shapeProblems(coordinates: HotspotCoordinates): string[] {
+  const problems: string[] = []
+  switch (coordinates.type) {
+    case 'circle': {
+      const { center_x, center_y, radius } = coordinates
+      if (!inRange(center_x) || !inRange(center_y)) problems.push('centre is outside 0-100')
+      if (!(radius > 0)) problems.push('radius must be positive')
+      else if (center_x - radius < 0 || center_x + radius > 100 || center_y - radius < 0 || center_y + radius > 100) {
+        problems.push('circle extends past the image edge')
+      }
+      break
+    }
+    case 'rectangle': {
+      const { x, y, width, height } = coordinates
+      if (!inRange(x) || !inRange(y)) problems.push('corner is outside 0-100')
+      if (!(width > 0) || !(height > 0)) problems.push('width and height must be positive')
+      else if (x + width > 100 || y + height > 100) problems.push('rectangle extends past the image edge')
+      break
+    }
+    case 'polygon': {
+      const { points } = coordinates
+      if (points.length < 3) {
+        problems.push(`polygon needs at least 3 points, has ${points.length}`)
+        break
+      }
+      points.forEach((p, i) => {
+        if (!inRange(p.x) || !inRange(p.y)) problems.push(`point ${i} (${p.x}, ${p.y}) is outside 0-100`)
+      })
+      if (polygonArea(points) === 0) problems.push('polygon has no area')
+      for (let i = 0; i < points.length; i++) {
+        for (let j = i + 2; j < points.length; j++) {
+          if (i === 0 && j === points.length - 1) continue
+          const crosses = segmentsCross(
+            points[i], points[i + 1], points[j], points[(j + 1) % points.length]
+          )
+          if (crosses) problems.push(`edges ${i} and ${j} cross`)
+        }
+      }
+      break
+    }
+  }
+  return problems
+}
+
+function outline(coordinates: HotspotCoordinates): Point[] {
+  switch (coordinates.type) {
+    case 'circle':
+      return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS
+        return {
+          x: coordinates.center_x + coordinates.radius * Math.cos(angle),
+          y: coordinates.center_y + coordinates.radius * Math.sin(angle)
+        }
+      })
+    case 'rectangle': {
+      const { x, y, width, height } = coordinates
+      return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+    }
+    case 'polygon':
+      return coordinates.points
+  }
+}
+
+/** Even-odd rule, as the SVG overlay fills polygons */
+function contains(points: Point[], p: Point): boolean {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** Approximate shared area in percent units squared (10,000 is the whole image) */
+function overlapArea(a: Point[], b: Point[]): number {
+  const box = (points: Point[]) => ({
+    minX: Math.min(...points.map(p => p.x)),
+    maxX: Math.max(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxY: Math.max(...points.map(p => p.y))
+  })
+  const boxA = box(a)
+  const boxB = box(b)
+  const minX = Math.max(boxA.minX, boxB.minX)
+  const maxX = Math.min(boxA.maxX, boxB.maxX)
+  const minY = Math.max(boxA.minY, boxB.minY)
+  const maxY = Math.min(boxA.maxY, boxB.maxY)
+  if (minX >= maxX || minY >= maxY) return 0
+
+  let inBoth = 0
+  for (let x = minX + OVERLAP_STEP / 2; x < maxX; x += OVERLAP_STEP) {
+    for (let y = minY + OVERLAP_STEP / 2; y < maxY; y += OVERLAP_STEP) {
+      const p = { x, y }
+      if (contains(a, p) && contains(b, p)) inBoth++
+    }
+  }
+  return inBoth * OVERLAP_STEP * OVERLAP_STEP
+}
+
+function checkHotspots(equipment: Equipment[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const item of equipment) {
+    const path = `equipment[${item.id}].hotspot`
+    if (item.hotspot.shape !== item.hotspot.coordinates.type) {
+      issues.push({
+        check: 'hotspots',
+        severity: 'error',
+        path,
+        message: `shape is "${item.hotspot.shape}" but the coordinates are a ${item.hotspot.coordinates.type}`
+      })
+    }
+    for (const message of shapeProblems(item.hotspot.coordinates)) {
+      issues.push({ check: 'hotspots', severity: 'error', path, message })
+    }
+  }
+
+  const outlines = equipment.map(item => outline(item.hotspot.coordinates))
+  for (let i = 0; i < equipment.length; i++) {
+    for (let j = i + 1; j < equipment.length; j++) {
+      const area = overlapArea(outlines[i], outlines[j])
+      if (area >= OVERLAP_MIN_AREA) {
+        issues.push({
+          check: 'hotspots',
+          severity: 'error',
+          path: `equipment[${equipment[i].id}].hotspot`,
+          message: `overlaps equipment "${equipment[j].id}" over about ${(area / 100).toFixed(2)}% of the image, so a tap there is ambiguous`
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+// ============================================
+// Media
+// ============================================
+
+function mediaUrls(content: KioskContent): Array<[path: string, url: string]> {
+  const urls: Array<[string, string]> = [['master_image_url', content.master_image_url]]
+  for (const item of content.equipment) {
+    for (const media of [...(item.images ?? []), ...(item.engineering_drawings ?? [])]) {
+      urls.push([`equipment[${item.id}].media[${media.id}].url`, media.url])
+      if (media.thumbnail_url) urls.push([`equipment[${item.id}].media[${media.id}].thumbnail_url`, media.thumbnail_url])
+    }
+  }
+  for (const photo of content.gallery) {
+    urls.push([`gallery[${photo.id}].image_url`, photo.image_url])
+    urls.push([`gallery[${photo.id}].thumbnail_url`, photo.thumbnail_url])
+  }
+  return urls
+}
+
+function checkMedia(content: KioskContent, assetExists: (path: string) => boolean) {
+  const issues: ValidationIssue[] = []
+  let skipped = 0
+
+  for (const [path, url] of mediaUrls(content)) {
+    if (!url) {
+      issues.push({ check: 'media', severity: 'error', path, message: 'is empty' })
+    } else if (!url.startsWith('/') || url.startsWith('//')) {
+      skipped++
+    } else if (!assetExists(decodeURI(url.split(/[?#]/)[0]))) {
+      issues.push({ check: 'media', severity: 'error', path, message: `${url} is not in the asset folder` })
+    }
+  }
+
+  return { issues, skipped }
+}
+
+// ============================================
+// Entry points
+// ============================================
+
+export function validateContent(
+  content: KioskContent,
+  extras: ContentExtras = {},
+  { assetExists }: ValidationOptions = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [...checkReferences(content, extras)]
+  checkBilingual({ equipment: content.equipment, gallery: content.gallery, quiz: content.quiz, ...extras }, '', issues)
+  issues.push(...checkHotspots(content.equipment))
+
+  let skipped_urls = 0
+  if (assetExists) {
+    const media = checkMedia(content, assetExists)
+    issues.push(...media.issues)
+    skipped_urls = media.skipped
+  }
+
+  return {
+    issues,
+    errors: issues.filter(i => i.severity === 'error').length,
+    warnings: issues.filter(i => i.severity === 'warning').length,
+    skipped_urls
+  }
+}
+
+const CHECK_TITLES: Record<ValidationCheck, string> = {
+  export: 'Export rows that could not be read',
+  references: 'References',
+  bilingual: 'Bilingual text',
+  hotspots: 'Hotspots',
+  media: 'Media files'
+}
+
+/** Plain-text report grouped by check, errors before warnings */
+export function formatReport(result: ValidationResult): string {
+  const lines: string[] = []
+  for (const check of Object.keys(CHECK_TITLES) as ValidationCheck[]) {
+    const issues = result.issues
+      .filter(i => i.check === check)
+      .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    if (issues.length === 0) continue
+    lines.push(`${CHECK_TITLES[check]} (${issues.length})`)
+    for (const issue of issues) {
+      lines.push(`  ${issue.severity === 'error' ? 'ERROR  ' : 'warning'}  ${issue.path}: ${issue.message}`)
+    }
+    lines.push('')
+  }
+
+  lines.push(result.errors === 0 && result.warnings === 0
+    ? 'Content is valid.'
+    : `${result.errors} error(s), ${result.warnings} warning(s).`)
+  if (result.skipped_urls > 0) lines.push(`${result.skipped_urls} remote media URL(s) not checked.`)
+  return lines.join('\n')
+}
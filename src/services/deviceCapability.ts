@@ -0,0 +1,183 @@
+/**
+ * Device capability probe for choosing a splat quality tier
+ * Measured once per page load: GPU identity and limits, the idle frame
+ * interval, and a short fill-rate test with blended quads, which is what
+ * splat rendering spends most of its GPU time on.
+ */
+
+import { SplatTier } from '../data/types'
+
+export interface DeviceCapability {
+  webgl2: boolean
+  /** Unmasked GPU name, where the browser reveals it */
+  gpu: string | null
+  /** SwiftShader, llvmpipe and the like */
+  software: boolean
+  max_texture_size: number
+  /** navigator.deviceMemory (Chrome), capped at 8 by the browser */
+  device_memory_gb: number | null
+  cores: number
+  /** Median interval between animation frames with nothing else drawing */
+  frame_ms: number
+  /** Blended megapixels per millisecond */
+  fill_rate: number
+  /** Splats this device should draw at a smooth frame rate */
+  splat_budget: number
+}
+
+const FILL_SIZE = 512
+const FILL_PASSES = 120
+const FRAME_SAMPLES = 30
+
+// Rough calibration; check it against the comparison tool's benchmark on kiosk hardware
+const SPLATS_PER_FILL_RATE = 400_000
+const MEMORY_BUDGETS: Array<[gb: number, splats: number]> = [[2, 400_000], [4, 1_000_000]]
+
+const SOFTWARE_GPU = /swiftshader|llvmpipe|softpipe|software|basic render/i
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 position;
+out vec2 uv;
+void main() {
+  uv = position;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`
+
+// Gaussian falloff with alpha blending, like a large splat
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 uv;
+out vec4 color;
+void main() {
+  float alpha = exp(-dot(uv, uv) * 2.0) * 0.05;
+  color = vec4(vec3(0.8, 0.6, 0.4) * alpha, alpha);
+}`
+
+function medianFrameMs(): Promise<number> {
+  return new Promise(resolve => {
+    const intervals: number[] = []
+    let last = 0
+    requestAnimationFrame(function sample(now) {
+      if (last) intervals.push(now - last)
+      last = now
+      if (intervals.length < FRAME_SAMPLES) {
+        requestAnimationFrame(sample)
+        return
+      }
+      intervals.sort((a, b) => a - b)
+      resolve(intervals[Math.floor(intervals.length / 2)])
+    })
+  })
+}
+
+function compile(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)
+  if (!shader) throw new Error('Could not create shader')
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) ?? 'Shader compile failed')
+  }
+  return shader
+}
+
+/** Megapixels per ms drawing blended full-screen quads; readPixels waits for the GPU */
+function measureFillRate(gl: WebGL2RenderingContext): number {
+  const program = gl.createProgram()
+  if (!program) throw new Error('Could not create program')
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER))
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER))
+  gl.linkProgram(program)
+  gl.useProgram(program)
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer())
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
+  const position = gl.getAttribLocation(program, 'position')
+  gl.enableVertexAttribArray(position)
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0)
+
+  gl.viewport(0, 0, FILL_SIZE, FILL_SIZE)
+  gl.enable(gl.BLEND)
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+  const pixel = new Uint8Array(4)
+
+  // Warm up so driver compilation is not timed
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+  gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel)
+
+  const start = performance.now()
+  for (let i = 0; i < FILL_PASSES; i++) {
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+  }
+  gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel)
+  const elapsed = Math.max(performance.now() - start, 0.01)
+
+  return (FILL_SIZE * FILL_SIZE * FILL_PASSES) / 1e6 / elapsed
+}
+
+function splatBudget(capability: Omit<DeviceCapability, 'splat_budget'>): number {
+  if (!capability.webgl2 || capability.software) return 0
+  // Already missing frames with nothing to draw
+  if (capability.frame_ms > 25) return 0
+
+  let budget = capability.fill_rate * SPLATS_PER_FILL_RATE
+  for (const [gb, splats] of MEMORY_BUDGETS) {
+    if (capability.device_memory_gb !== null && capability.device_memory_gb <= gb) {
+      budget = Math.min(budget, splats)
+      break
+    }
+  }
+  return Math.round(budget)
+}
+
+async function runProbe(): Promise<DeviceCapability> {
+  const canvas = document.createElement('canvas')
+  canvas.width = FILL_SIZE
+  canvas.height = FILL_SIZE
+  const gl = canvas.getContext('webgl2', { antialias: false, preserveDrawingBuffer: false })
+
+  let gpu: string | null = null
+  let maxTextureSize = 0
+  let fillRate = 0
+  if (gl) {
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info')
+    gpu = debugInfo ? String(gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)) : null
+    maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE)
+    try {
+      fillRate = measureFillRate(gl)
+    } catch (err) {
+      console.warn('DeviceCapability: fill-rate test failed:', err)
+    }
+    gl.getExtension('WEBGL_lose_context')?.loseContext()
+  }
+
+  const measured = {
+    webgl2: Boolean(gl),
+    gpu,
+    software: gpu !== null && SOFTWARE_GPU.test(gpu),
+    max_texture_size: maxTextureSize,
+    device_memory_gb: (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? null,
+    cores: navigator.hardwareConcurrency ?? 1,
+    frame_ms: await medianFrameMs(),
+    fill_rate: Number(fillRate.toFixed(2))
+  }
+  return { ...measured, splat_budget: splatBudget(measured) }
+}
+
+let probe: Promise<DeviceCapability> | null = null
+
+/** Measures once per page load; later calls share the result */
+export function probeDeviceCapability(): Promise<DeviceCapability> {
+  if (!probe) {
+    probe = runProbe()
+    probe.then(capability => console.info('DeviceCapability:', capability))
+  }
+  return probe
+}
+
+/** Heaviest tier within the device's splat budget, else the lightest */
+export function chooseTier(tiers: SplatTier[], capability: DeviceCapability): SplatTier {
+  const heaviestFirst = [...tiers].sort((a, b) => b.splat_count - a.splat_count)
+  return heaviestFirst.find(t => t.splat_count <= capability.splat_budget)
+    ?? heaviestFirst[heaviestFirst.length - 1]
+}
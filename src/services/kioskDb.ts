@@ -0,0 +1,65 @@
+/**
+ * IndexedDB access for locally persisted kiosk data
+ */
+
+const DB_NAME = 'glm-pump-room-kiosk'
+const DB_VERSION = 2
+
+export const SNAPSHOT_STORE = 'content_snapshots'
+export const META_STORE = 'meta'
+export const ANALYTICS_STORE = 'analytics_events'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openKioskDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'version' })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+      // Version 2
+      if (!db.objectStoreNames.contains(ANALYTICS_STORE)) {
+        const events = db.createObjectStore(ANALYTICS_STORE, { keyPath: 'id' })
+        events.createIndex('at', 'at')
+        events.createIndex('flushed', 'flushed')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a later call to retry after a failed open
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+
+  return dbPromise
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionComplete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'))
+  })
+}
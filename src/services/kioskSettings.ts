@@ -0,0 +1,42 @@
+/**
+ * Kiosk settings staff can change on the floor, kept across reloads
+ */
+
+import { Language, useKioskStore } from '../stores/kioskStore'
+import { META_STORE, openKioskDb, requestResult, transactionComplete } from './kioskDb'
+
+const SETTINGS_KEY = 'kiosk_settings'
+
+export interface KioskSettings {
+  idle_timeout_ms: number
+  default_language: Language
+}
+
+function applySettings(settings: KioskSettings) {
+  const store = useKioskStore.getState()
+  store.setIdleTimeout(settings.idle_timeout_ms)
+  store.setDefaultLanguage(settings.default_language)
+}
+
+/** Applies saved settings, if any; the store defaults stand otherwise */
+export async function restoreKioskSettings(): Promise<void> {
+  try {
+    const db = await openKioskDb()
+    const tx = db.transaction(META_STORE, 'readonly')
+    const settings = await requestResult<KioskSettings | undefined>(tx.objectStore(META_STORE).get(SETTINGS_KEY))
+    if (!settings) return
+    applySettings(settings)
+    useKioskStore.getState().setLanguage(settings.default_language)
+  } catch (err) {
+    console.warn('KioskSettings: could not restore settings, using defaults:', err)
+  }
+}
+
+/** Applies immediately, then saves for the next start */
+export async function saveKioskSettings(settings: KioskSettings): Promise<void> {
+  applySettings(settings)
+  const db = await openKioskDb()
+  const tx = db.transaction(META_STORE, 'readwrite')
+  tx.objectStore(META_STORE).put(settings, SETTINGS_KEY)
+  await transactionComplete(tx)
+}
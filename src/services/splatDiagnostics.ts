@@ -0,0 +1,54 @@
+/**
+ * Splat load failures, kept on the kiosk and listed in the staff admin panel
+ * Every failed attempt is recorded, including ones a later retry recovered from.
+ */
+
+import { openKioskDb, META_STORE, requestResult, transactionComplete } from './kioskDb'
+import { LoadStage, SplatRenderer } from '../components/splat/viewerTypes'
+
+const FAILURES_KEY = 'splat_load_failures'
+const MAX_FAILURES = 50
+
+export interface SplatLoadFailure {
+  at: number
+  src: string
+  renderer: SplatRenderer
+  /** 1 for the first try */
+  attempt: number
+  error: string
+  stage: LoadStage
+  /** 0..1 within the stage when it failed */
+  progress: number
+  elapsed_ms: number
+  online: boolean
+}
+
+/** Most recent first */
+export async function getSplatLoadFailures(): Promise<SplatLoadFailure[]> {
+  const db = await openKioskDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  const failures = await requestResult<SplatLoadFailure[] | undefined>(tx.objectStore(META_STORE).get(FAILURES_KEY))
+  return failures ?? []
+}
+
+/** Never throws; diagnostics must not break the viewer */
+export async function recordSplatLoadFailure(failure: SplatLoadFailure): Promise<void> {
+  console.warn('Splat load failed:', failure)
+  try {
+    const db = await openKioskDb()
+    const tx = db.transaction(META_STORE, 'readwrite')
+    const store = tx.objectStore(META_STORE)
+    const failures = await requestResult<SplatLoadFailure[] | undefined>(store.get(FAILURES_KEY))
+    store.put([failure, ...(failures ?? [])].slice(0, MAX_FAILURES), FAILURES_KEY)
+    await transactionComplete(tx)
+  } catch (err) {
+    console.warn('Could not record splat load failure:', err)
+  }
+}
+
+export async function clearSplatLoadFailures(): Promise<void> {
+  const db = await openKioskDb()
+  const tx = db.transaction(META_STORE, 'readwrite')
+  tx.objectStore(META_STORE).delete(FAILURES_KEY)
+  await transactionComplete(tx)
+}
@@ -0,0 +1,25 @@
+/**
+ * Supabase client for the kiosk content tables
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+let client: SupabaseClient | null | undefined
+
+/**
+ * Returns the shared client, or null when VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY
+ * are not set (the kiosk then runs on the static seed).
+ * Point VITE_SUPABASE_URL at a local `supabase start` instance for testing.
+ */
+export function getSupabaseClient(): SupabaseClient | null {
+  if (client !== undefined) return client
+
+  const url = import.meta.env.VITE_SUPABASE_URL
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+  client = url && anonKey
+    ? createClient(url, anonKey, { auth: { persistSession: false } })
+    : null
+
+  return client
+}
@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { viewpoints } from '../data/viewpoints'
+import { viewpointsSource } from './viewpointService'
+
+describe('viewpointsSource', () => {
+  it('writes the bundled viewpoints exactly as src/data/viewpoints.ts has them', () => {
+    const file = readFileSync(new URL('../data/viewpoints.ts', import.meta.url), 'utf8')
+    expect(file).toContain(viewpointsSource(viewpoints))
+  })
+
+  it('adds the equipment id and escapes quotes', () => {
+    const source = viewpointsSource([{
+      id: 'east-pump',
+      label: { en: 'The pump\'s casing', fr: 'Le carter de la pompe' },
+      position: [1, -2.5, 0.25],
+      target: [1, 0, 0],
+      equipment_id: 'main-pump-east'
+    }])
+    expect(source).toBe([
+      'export const viewpoints: CameraViewpoint[] = [',
+      '  {',
+      '    id: \'east-pump\',',
+      '    label: {',
+      '      en: \'The pump\\\'s casing\',',
+      '      fr: \'Le carter de la pompe\'',
+      '    },',
+      '    position: [1, -2.5, 0.25],',
+      '    target: [1, 0, 0],',
+      '    equipment_id: \'main-pump-east\'',
+      '  }',
+      ']',
+      ''
+    ].join('\n'))
+  })
+})
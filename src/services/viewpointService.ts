@@ -0,0 +1,53 @@
+/**
+ * Viewpoint lookup
+ * Viewpoints ship in src/data/viewpoints.ts; staff capture new ones in the
+ * viewpoint editor, which exports the file's array for pasting back in.
+ */
+
+import { CameraViewpoint, Equipment, Vec3Tuple } from '../data/types'
+import { viewpoints } from '../data/viewpoints'
+
+// Derived equipment views look from the overview direction, closer in
+const EQUIPMENT_VIEW_OFFSET: Vec3Tuple = [0, -2.5, 0.6]
+
+export const getViewpoint = (id: string): CameraViewpoint | undefined =>
+  viewpoints.find(v => v.id === id)
+
+/** The equipment's own viewpoint, else one framing its 3D anchor */
+export function viewpointForEquipment(item: Equipment): CameraViewpoint | undefined {
+  const listed = viewpoints.find(v => v.equipment_id === item.id)
+  if (listed || !item.anchor_3d) return listed
+
+  const target = item.anchor_3d.position
+  return {
+    id: `equipment-${item.id}`,
+    label: item.name,
+    position: [
+      target[0] + EQUIPMENT_VIEW_OFFSET[0],
+      target[1] + EQUIPMENT_VIEW_OFFSET[1],
+      target[2] + EQUIPMENT_VIEW_OFFSET[2]
+    ],
+    target,
+    equipment_id: item.id
+  }
+}
+
+const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+const tuple = (v: Vec3Tuple) => `[${v.join(', ')}]`
+
+/** The viewpoints array as written in src/data/viewpoints.ts, ready to paste over it */
+export function viewpointsSource(list: CameraViewpoint[]): string {
+  const entries = list.map(v => [
+    '  {',
+    `    id: ${quote(v.id)},`,
+    '    label: {',
+    `      en: ${quote(v.label.en)},`,
+    `      fr: ${quote(v.label.fr)}`,
+    '    },',
+    `    position: ${tuple(v.position)},`,
+    `    target: ${tuple(v.target)}${v.equipment_id ? ',' : ''}`,
+    ...(v.equipment_id ? [`    equipment_id: ${quote(v.equipment_id)}`] : []),
+    '  }'
+  ].join('\n'))
+  return `export const viewpoints: CameraViewpoint[] = [\n${entries.join(',\n')}\n]\n`
+}
@@ -0,0 +1,107 @@
+/**
+ * Global kiosk state
+ * Single source of truth for language, navigation, selection and progress,
+ * so idle reset, deep links and analytics can reset or watch one place.
+ */
+
+import { create } from 'zustand'
+import { KioskState, UnitSystem } from '../data/types'
+
+export type Feature = 'home' | 'explore' | 'animation' | 'cutaway' | 'quiz' | 'gallery'
+export type Language = KioskState['language']
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 90_000
+export const DEFAULT_LANGUAGE: Language = 'en'
+
+// As built, with metric alongside
+export const DEFAULT_UNITS: UnitSystem = 'both'
+
+export interface QuizProgress {
+  question_ids: string[]
+  current_index: number
+  score: number
+  /** Wrong tries on the current question */
+  attempts: number
+  /** Answer and explanation are showing for the current question */
+  revealed: boolean
+  finished: boolean
+}
+
+export interface AnimationProgress {
+  step_index: number
+  elapsed_ms: number
+  playing: boolean
+}
+
+interface KioskStore extends KioskState {
+  current_feature: Feature
+  /** Language each new session starts in; staff can change it */
+  default_language: Language
+  /** Incremented on every session reset; used as a remount key */
+  session_id: number
+  session_started_at: number
+  quiz: QuizProgress | null
+  animation: AnimationProgress
+
+  setLanguage: (language: Language) => void
+  setUnits: (units: UnitSystem) => void
+  setFeature: (feature: Feature) => void
+  selectEquipment: (id: string | null) => void
+  recordInteraction: (at?: number) => void
+  setIdleTimeout: (ms: number) => void
+  setDefaultLanguage: (language: Language) => void
+  setQuizProgress: (quiz: QuizProgress | null) => void
+  setAnimationProgress: (progress: Partial<AnimationProgress>) => void
+  resetSession: () => void
+}
+
+const initialAnimation: AnimationProgress = {
+  step_index: 0,
+  elapsed_ms: 0,
+  playing: false
+}
+
+export const useKioskStore = create<KioskStore>()((set) => ({
+  language: DEFAULT_LANGUAGE,
+  units: DEFAULT_UNITS,
+  default_language: DEFAULT_LANGUAGE,
+  idle_timeout_ms: DEFAULT_IDLE_TIMEOUT_MS,
+  last_interaction: Date.now(),
+  current_feature: 'home',
+  selected_equipment_id: null,
+  session_id: 0,
+  session_started_at: Date.now(),
+  quiz: null,
+  animation: initialAnimation,
+
+  setLanguage: (language) => set({ language }),
+
+  setUnits: (units) => set({ units }),
+
+  setFeature: (feature) => set({ current_feature: feature }),
+
+  selectEquipment: (id) => set({ selected_equipment_id: id }),
+
+  recordInteraction: (at = Date.now()) => set({ last_interaction: at }),
+
+  setIdleTimeout: (ms) => set({ idle_timeout_ms: ms }),
+
+  setDefaultLanguage: (language) => set({ default_language: language }),
+
+  setQuizProgress: (quiz) => set({ quiz }),
+
+  setAnimationProgress: (progress) =>
+    set((state) => ({ animation: { ...state.animation, ...progress } })),
+
+  resetSession: () =>
+    set((state) => ({
+      language: state.default_language,
+      units: DEFAULT_UNITS,
+      current_feature: 'home',
+      selected_equipment_id: null,
+      quiz: null,
+      animation: initialAnimation,
+      session_id: state.session_id + 1,
+      session_started_at: Date.now()
+    }))
+}))
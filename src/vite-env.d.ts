@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_SPLAT_CONFIG_ID?: string
+  readonly VITE_KIOSK_PROJECT_ID?: string
+  readonly VITE_SPLAT_RENDERER?: string
+  /** Digits staff enter to open the admin panel; the panel stays locked without it */
+  readonly VITE_ADMIN_PIN?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
+
+// Defined in vite.config.ts
+declare const __APP_VERSION__: string
+declare const __BUILD_TIME__: string